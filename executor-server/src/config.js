@@ -35,12 +35,31 @@ function requiredNumber(name) {
   return parsed;
 }
 
+// "EURUSD:1,GBPUSD:2" -> { EURUSD: 1, GBPUSD: 2 }
+function symbolIdMap(name) {
+  const raw = process.env[name];
+  if (!raw) return {};
+  const out = {};
+  for (const entry of raw.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const [symbol, id] = entry.split(":").map((p) => p.trim());
+    const parsed = Number(id);
+    if (!symbol || !Number.isFinite(parsed)) {
+      throw new Error(`Invalid ${name} entry: ${entry}`);
+    }
+    out[symbol.replace("/", "").toUpperCase()] = parsed;
+  }
+  return out;
+}
+
 export function getConfig() {
   const environment = process.env.CTRADER_ENVIRONMENT || "demo";
   const host = environment === "live"
     ? "wss://live.ctraderapi.com:5036"
     : "wss://demo.ctraderapi.com:5036";
 
+  const symbolIds = symbolIdMap("CTRADER_SYMBOL_IDS");
+  const hasSymbolIds = Object.keys(symbolIds).length > 0;
+
   return {
     port: optionalInt("PORT", 8787),
     webhookSecret: process.env.EXECUTOR_WEBHOOK_SECRET || "",
@@ -76,7 +95,9 @@ export function getConfig() {
       accessToken: required("CTRADER_ACCESS_TOKEN"),
       refreshToken: required("CTRADER_REFRESH_TOKEN"),
       accountId: requiredNumber("CTRADER_ACCOUNT_ID"),
-      symbolId: requiredNumber("CTRADER_SYMBOL_ID"),
+      symbolIds,
+      // Single-instrument fallback, only required when CTRADER_SYMBOL_IDS is not set.
+      symbolId: hasSymbolIds ? null : requiredNumber("CTRADER_SYMBOL_ID"),
       volumeUnits: optionalNumber("CTRADER_ORDER_VOLUME_UNITS", 10000),
     },
   };
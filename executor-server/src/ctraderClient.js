@@ -10,6 +10,8 @@ const PT = {
   ACCOUNT_AUTH_REQ: 2102,
   ACCOUNT_AUTH_RES: 2103,
   NEW_ORDER_REQ: 2106,
+  AMEND_POSITION_SLTP_REQ: 2110,
+  CLOSE_POSITION_REQ: 2111,
   EXECUTION_EVENT: 2126,
   ORDER_ERROR_EVENT: 2132,
   SYMBOLS_LIST_REQ: 2114,
@@ -300,6 +302,47 @@ export class CTraderOpenApiClient {
     };
   }
 
+  async amendPositionProtection({ positionId, stopLoss, takeProfit }) {
+    await this.ensureReady();
+    // Unlike new market orders, amendments take absolute SL/TP prices.
+    const res = await this.request(
+      PT.AMEND_POSITION_SLTP_REQ,
+      {
+        ctidTraderAccountId: this.config.accountId,
+        positionId,
+        stopLoss,
+        takeProfit,
+      },
+      { expectPayloadType: PT.EXECUTION_EVENT, timeoutMs: 20000 },
+    );
+    const body = res.payload ?? res;
+    return {
+      executionType: body.executionType ?? null,
+      positionId: body.position?.positionId ?? positionId,
+      raw: res,
+    };
+  }
+
+  async closePosition({ positionId, volumeUnits }) {
+    await this.ensureReady();
+    const res = await this.request(
+      PT.CLOSE_POSITION_REQ,
+      {
+        ctidTraderAccountId: this.config.accountId,
+        positionId,
+        volume: toProtoVolume(volumeUnits),
+      },
+      { expectPayloadType: PT.EXECUTION_EVENT, timeoutMs: 20000 },
+    );
+    const body = res.payload ?? res;
+    return {
+      executionType: body.executionType ?? null,
+      orderId: body.order?.orderId ?? body.orderId ?? null,
+      positionId: body.position?.positionId ?? positionId,
+      raw: res,
+    };
+  }
+
   async getTraderSnapshot() {
     await this.ensureReady();
     const res = await this.request(
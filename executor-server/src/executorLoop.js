@@ -15,6 +15,23 @@ function floorToStep(value, step) {
   return Math.floor(value / step) * step;
 }
 
+function instrumentKey(row) {
+  return `${row.symbol}|${row.timeframe}`;
+}
+
+function normalizeSymbol(symbol) {
+  return String(symbol || "").replace("/", "").toUpperCase();
+}
+
+function resolveSymbolId(ctraderConfig, symbol) {
+  const mapped = ctraderConfig.symbolIds?.[normalizeSymbol(symbol)];
+  if (mapped != null) return mapped;
+  if (Object.keys(ctraderConfig.symbolIds || {}).length === 0 && ctraderConfig.symbolId != null) {
+    return ctraderConfig.symbolId;
+  }
+  throw new Error(`No cTrader symbol id configured for ${symbol} (set CTRADER_SYMBOL_IDS)`);
+}
+
 function estimatePerUnitRiskInAccountCurrency({
   symbol,
   accountCurrency,
@@ -26,14 +43,18 @@ function estimatePerUnitRiskInAccountCurrency({
     throw new Error("Invalid stop distance for risk sizing");
   }
 
-  const normalizedSymbol = String(symbol || "").replace("/", "").toUpperCase();
+  const normalizedSymbol = normalizeSymbol(symbol);
+  const base = normalizedSymbol.slice(0, 3);
+  const quote = normalizedSymbol.slice(3, 6);
 
-  // Strictly supported conversions for this scaffold.
-  if (normalizedSymbol === "EURUSD" && accountCurrency === "USD") {
+  // Only conversions that need no third-party rate are supported: the account
+  // currency must be the quote (P&L already in account currency) or the base
+  // (P&L divided by the entry price) of the traded pair.
+  if (normalizedSymbol.length === 6 && quote === accountCurrency) {
     return { perUnitRisk: stopDistance, stopDistance };
   }
 
-  if (normalizedSymbol === "EURUSD" && accountCurrency === "EUR") {
+  if (normalizedSymbol.length === 6 && base === accountCurrency) {
     return { perUnitRisk: stopDistance / entryPrice, stopDistance };
   }
 
@@ -108,6 +129,23 @@ async function computeSizedVolumeUnits({ req, ctraderClient, config }) {
   };
 }
 
+// Two-target signals are queued as one request per leg; each leg trades its
+// share of the full (sized or fixed) position.
+function applyVolumeFraction(units, req, config) {
+  const fraction = req.volume_fraction == null ? 1 : Number(req.volume_fraction);
+  if (!Number.isFinite(fraction) || fraction <= 0 || fraction > 1) {
+    throw new Error(`Invalid volume_fraction: ${req.volume_fraction}`);
+  }
+  if (fraction === 1) return units;
+  const legUnits = floorToStep(units * fraction, Number(config.risk.volumeStepUnits));
+  if (legUnits < Number(config.risk.minVolumeUnits)) {
+    throw new Error(
+      `Leg ${req.leg ?? "-"} too small for min volume. units=${units} fraction=${fraction} minUnits=${config.risk.minVolumeUnits}`,
+    );
+  }
+  return legUnits;
+}
+
 async function sendTelegram(config, text) {
   if (!config.telegram?.botToken || !config.telegram?.chatId) return false;
   const url = `https://api.telegram.org/bot${config.telegram.botToken}/sendMessage`;
@@ -249,6 +287,8 @@ export class BrokerExecutor {
     if (reqRes.error) throw reqRes.error;
     const req = reqRes.data?.[0];
     if (!req) return;
+    // The TP1 leg of a two-target trade is a partial exit; the TP2 leg closes the trade.
+    if (req.leg === "tp1" && closeReason === "TP") return;
 
     const exitPrice = extractEventField(payload, ["deal", "executionPrice"]) ??
       extractEventField(payload, ["executionPrice"]) ??
@@ -301,6 +341,7 @@ export class BrokerExecutor {
     if (this.running) return;
     this.running = true;
     try {
+      const halted = await this.applyTradingControls();
       const { data, error } = await this.supabase
         .from("broker_order_requests")
         .select("*")
@@ -311,6 +352,8 @@ export class BrokerExecutor {
       for (const req of data ?? []) {
         if (req.next_attempt_after && new Date(req.next_attempt_after).getTime() > Date.now()) continue;
         if (!isReadyToExecute(req)) continue;
+        const state = halted.get(instrumentKey(req));
+        if (state && (req.order_type === "MARKET" || (state === "killed" && req.order_type === "AMEND"))) continue;
         await this.processRequest(req);
       }
     } finally {
@@ -318,10 +361,99 @@ export class BrokerExecutor {
     }
   }
 
+  // Honors strategy_controls.trading_state set by /pause and /kill: pending entries
+  // of halted instruments are cancelled; a kill also cancels stop amendments and
+  // queues a CLOSE request for every open position. Returns halted instruments.
+  async applyTradingControls() {
+    const { data: controls, error } = await this.supabase
+      .from("strategy_controls")
+      .select("symbol,timeframe,trading_state")
+      .in("trading_state", ["paused", "killed"]);
+    if (error) throw error;
+    const halted = new Map((controls ?? []).map((c) => [instrumentKey(c), c.trading_state]));
+
+    for (const c of controls ?? []) {
+      const orderTypes = c.trading_state === "killed" ? ["MARKET", "AMEND"] : ["MARKET"];
+      const { data: cancelled, error: cancelErr } = await this.supabase
+        .from("broker_order_requests")
+        .update({ status: "cancelled", cancel_reason: c.trading_state, last_attempt_at: nowIso() })
+        .eq("symbol", c.symbol)
+        .eq("timeframe", c.timeframe)
+        .in("order_type", orderTypes)
+        .in("status", ["queued", "failed", "awaiting_approval"])
+        .select("request_key");
+      if (cancelErr) throw cancelErr;
+      if ((cancelled ?? []).length > 0) {
+        log("trading halted, cancelled requests", c.symbol, c.timeframe, c.trading_state, cancelled.length);
+      }
+      if (c.trading_state === "killed") await this.queueKillCloses(c);
+    }
+    return halted;
+  }
+
+  async queueKillCloses(control) {
+    const { data: entries, error } = await this.supabase
+      .from("broker_order_requests")
+      .select("*")
+      .eq("symbol", control.symbol)
+      .eq("timeframe", control.timeframe)
+      .eq("order_type", "MARKET")
+      .in("status", ["accepted", "submitted"])
+      .not("broker_position_id", "is", null);
+    if (error) throw error;
+    if (!entries || entries.length === 0) return;
+
+    // Positions already closed by SL/TP or by an earlier CLOSE request are skipped.
+    const { data: closeEvents, error: eventErr } = await this.supabase
+      .from("broker_execution_events")
+      .select("broker_position_id")
+      .in("broker_position_id", entries.map((e) => e.broker_position_id))
+      .not("close_reason", "is", null);
+    if (eventErr) throw eventErr;
+    const { data: closes, error: closeErr } = await this.supabase
+      .from("broker_order_requests")
+      .select("broker_position_id")
+      .in("broker_position_id", entries.map((e) => e.broker_position_id))
+      .eq("order_type", "CLOSE")
+      .eq("status", "accepted");
+    if (closeErr) throw closeErr;
+    const closed = new Set([...(closeEvents ?? []), ...(closes ?? [])].map((r) => String(r.broker_position_id)));
+
+    const rows = entries.filter((e) => !closed.has(String(e.broker_position_id))).map((e) => ({
+      request_key: `${e.request_key}:kill`,
+      signal_key: e.signal_key,
+      broker: e.broker,
+      symbol: e.symbol,
+      timeframe: e.timeframe,
+      direction: e.direction,
+      order_type: "CLOSE",
+      requested_units: null,
+      planned_entry_time: null,
+      planned_entry_price: e.planned_entry_price,
+      stop_loss: e.stop_loss,
+      take_profit: e.take_profit,
+      leg: e.leg ?? "single",
+      volume_fraction: 1,
+      payload: { reason: "KILL" },
+    }));
+    if (rows.length === 0) return;
+    // ignoreDuplicates: every tick re-checks, each position gets one kill request.
+    const { error: insertErr } = await this.supabase
+      .from("broker_order_requests")
+      .upsert(rows, { onConflict: "request_key", ignoreDuplicates: true });
+    if (insertErr) throw insertErr;
+  }
+
   async processRequest(req) {
+    if (req.order_type === "AMEND" || req.order_type === "CLOSE") {
+      await this.processPositionRequest(req);
+      return;
+    }
     log("processing broker request", req.request_key, req.status);
     await this.markProcessing(req.id, req.attempts);
+    let symbolId = null;
     try {
+      symbolId = resolveSymbolId(this.config.ctrader, req.symbol);
       let volumeUnits = Number(req.requested_units);
       if (!Number.isFinite(volumeUnits) || volumeUnits <= 0) {
         volumeUnits = Number(this.config.ctrader.volumeUnits);
@@ -336,18 +468,21 @@ export class BrokerExecutor {
         });
         volumeUnits = Number(riskSizing.units);
       }
+      volumeUnits = applyVolumeFraction(volumeUnits, req, this.config);
 
       log("submitting order", {
         requestKey: req.request_key,
         accountId: this.config.ctrader.accountId,
         environment: this.config.ctrader.wsUrl.includes("demo") ? "demo" : "live",
         symbol: req.symbol,
-        symbolId: this.config.ctrader.symbolId,
+        symbolId,
         direction: req.direction,
         plannedEntryTime: req.planned_entry_time,
         plannedEntryPrice: req.planned_entry_price,
         stopLoss: req.stop_loss,
         takeProfit: req.take_profit,
+        leg: req.leg ?? "single",
+        volumeFraction: req.volume_fraction ?? 1,
         volumeUnits,
         riskSizing: riskSizing
           ? {
@@ -368,7 +503,7 @@ export class BrokerExecutor {
         entryPrice: Number(req.planned_entry_price),
         stopLoss: Number(req.stop_loss),
         takeProfit: Number(req.take_profit),
-        symbolId: Number(this.config.ctrader.symbolId),
+        symbolId: Number(symbolId),
         volumeUnits,
       });
 
@@ -387,6 +522,8 @@ export class BrokerExecutor {
             execution: {
               sizingMode: this.config.risk.positionSizingMode,
               sizedUnits: volumeUnits,
+              leg: req.leg ?? "single",
+              volumeFraction: Number(req.volume_fraction ?? 1),
               ...(riskSizing
                 ? {
                   riskReference: riskSizing.reference,
@@ -443,7 +580,10 @@ export class BrokerExecutor {
         ``,
         `${req.direction === "LONG" ? "🟢" : "🔴"} ${req.direction} @ ${req.planned_entry_price ?? "-"}`,
         `🛑 SL: ${req.stop_loss}`,
-        `🎯 TP: ${req.take_profit}`,
+        `🎯 ${req.leg === "tp1" ? "TP1" : req.leg === "tp2" ? "TP2" : "TP"}: ${req.take_profit}`,
+        ...(req.leg && req.leg !== "single"
+          ? [`✂️ Leg: ${req.leg.toUpperCase()} (${Math.round(Number(req.volume_fraction) * 100)}% of position)`]
+          : []),
         ``,
         `📏 Risk: ${Number.isFinite(riskAbs) ? riskAbs.toFixed(5) : "-"}`,
         `📐 R:R: ${Number.isFinite(rr) ? `1 : ${rr.toFixed(2)}` : "-"}`,
@@ -457,50 +597,184 @@ export class BrokerExecutor {
           .eq("id", req.id);
       }
     } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      const isCTraderError = e instanceof CTraderApiError;
-      const brokerErrorCode = isCTraderError ? (e.code ?? null) : null;
-      const errorPayloadType = isCTraderError ? (e.payloadType ?? null) : null;
-      const rawError = isCTraderError ? (e.raw ?? null) : null;
+      await this.recordFailure(req, e, symbolId);
+    }
+  }
 
-      err("broker request failed", {
-        requestKey: req.request_key,
-        accountId: this.config.ctrader.accountId,
-        symbolId: this.config.ctrader.symbolId,
-        message: msg,
-        brokerErrorCode,
-        payloadType: errorPayloadType,
-        rawError,
-      });
+  // AMEND/CLOSE requests act on the position opened by the MARKET request of the
+  // same signal and leg, so the live position follows the simulated trade management.
+  async processPositionRequest(req) {
+    log("processing position request", req.request_key, req.order_type, req.status);
+    await this.markProcessing(req.id, req.attempts);
+    try {
+      if (req.order_type === "AMEND" && await this.hasNewerAmend(req)) {
+        log("newer stop amendment exists, cancelling request", req.request_key);
+        const { error } = await this.supabase
+          .from("broker_order_requests")
+          .update({ status: "cancelled", cancel_reason: "superseded", last_attempt_at: nowIso() })
+          .eq("id", req.id);
+        if (error) throw error;
+        return;
+      }
+
+      const { data: entries, error: entryErr } = await this.supabase
+        .from("broker_order_requests")
+        .select("*")
+        .eq("signal_key", req.signal_key)
+        .eq("order_type", "MARKET")
+        .eq("leg", req.leg ?? "single")
+        .limit(1);
+      if (entryErr) throw entryErr;
+      const entry = entries?.[0];
+      if (entry?.status === "cancelled") {
+        // The entry was skipped or expired in approval mode: there is no position to manage.
+        log("entry request cancelled, cancelling position request", req.request_key, entry.approval_action ?? "-");
+        const { error } = await this.supabase
+          .from("broker_order_requests")
+          .update({ status: "cancelled", last_attempt_at: nowIso() })
+          .eq("id", req.id);
+        if (error) throw error;
+        return;
+      }
+      if (!entry?.broker_position_id) {
+        throw new Error(`No broker position yet for ${req.signal_key} (leg ${req.leg ?? "single"})`);
+      }
+
+      const { data: closeEvents, error: closeErr } = await this.supabase
+        .from("broker_execution_events")
+        .select("id")
+        .eq("broker_position_id", entry.broker_position_id)
+        .not("close_reason", "is", null)
+        .limit(1);
+      if (closeErr) throw closeErr;
+      if ((closeEvents ?? []).length > 0) {
+        log("position already closed, cancelling request", req.request_key, entry.broker_position_id);
+        const { error } = await this.supabase
+          .from("broker_order_requests")
+          .update({ status: "cancelled", broker_position_id: entry.broker_position_id, last_attempt_at: nowIso() })
+          .eq("id", req.id);
+        if (error) throw error;
+        return;
+      }
+
+      const positionId = Number(entry.broker_position_id);
+      const outcome = req.order_type === "AMEND"
+        ? await this.ctraderClient.amendPositionProtection({
+          positionId,
+          stopLoss: Number(req.stop_loss),
+          takeProfit: Number(req.take_profit),
+        })
+        : await this.ctraderClient.closePosition({
+          positionId,
+          volumeUnits: Number(entry.requested_units),
+        });
 
-      const backoffMins = Math.min(30, Math.max(1, (req.attempts || 0) + 1));
-      const next = new Date(Date.now() + backoffMins * 60_000).toISOString();
       const { error } = await this.supabase
         .from("broker_order_requests")
         .update({
-          status: "failed",
+          status: "accepted",
+          requested_units: req.order_type === "CLOSE" ? Number(entry.requested_units) : null,
+          broker_position_id: entry.broker_position_id,
+          broker_order_id: outcome.orderId ? String(outcome.orderId) : null,
+          execution_event: outcome.raw,
           last_attempt_at: nowIso(),
-          next_attempt_after: next,
-          broker_error_code: brokerErrorCode,
-          broker_error_message: msg,
-          execution_event: rawError,
-          payload: {
-            ...(req.payload || {}),
-            lastFailure: {
-              message: msg,
-              brokerErrorCode,
-              payloadType: errorPayloadType,
-              accountId: this.config.ctrader.accountId,
-              symbolId: this.config.ctrader.symbolId,
-              at: nowIso(),
-            },
-          },
+          broker_error_code: null,
+          broker_error_message: null,
         })
         .eq("id", req.id);
       if (error) throw error;
+
+      log("position request sent", {
+        requestKey: req.request_key,
+        orderType: req.order_type,
+        positionId: entry.broker_position_id,
+        executionType: outcome.executionType,
+      });
+
+      await sendTelegram(this.config, req.order_type === "AMEND"
+        ? [
+          `🛡️ *NOLA-DELTA • ${req.symbol} • ${req.timeframe}*`,
+          `📌 BROKER STOP UPDATED (${req.payload?.reason ?? "-"})`,
+          ``,
+          `${req.direction === "LONG" ? "🟢" : "🔴"} ${req.direction} • leg ${req.leg ?? "single"}`,
+          `🛑 SL: ${req.stop_loss}`,
+          `🎯 TP: ${req.take_profit}`,
+          ``,
+          `🧾 ID: ${req.signal_key}`,
+        ].join("\n")
+        : [
+          `⏱️ *NOLA-DELTA • ${req.symbol} • ${req.timeframe}*`,
+          `📌 BROKER POSITION CLOSED (${req.payload?.reason === "KILL" ? "kill switch" : "time exit"})`,
+          ``,
+          `${req.direction === "LONG" ? "🟢" : "🔴"} ${req.direction} • leg ${req.leg ?? "single"}`,
+          `📌 Position: ${entry.broker_position_id}`,
+          ``,
+          `🧾 ID: ${req.signal_key}`,
+        ].join("\n"));
+    } catch (e) {
+      await this.recordFailure(req, e, null);
     }
   }
 
+  // Every AMEND carries the latest stop and has its own backoff: an older one
+  // retried after a newer one was applied would move the stop back.
+  async hasNewerAmend(req) {
+    const { data, error } = await this.supabase
+      .from("broker_order_requests")
+      .select("id")
+      .eq("signal_key", req.signal_key)
+      .eq("order_type", "AMEND")
+      .eq("leg", req.leg ?? "single")
+      .gt("created_at", req.created_at)
+      .limit(1);
+    if (error) throw error;
+    return (data ?? []).length > 0;
+  }
+
+  async recordFailure(req, e, symbolId) {
+    const msg = e instanceof Error ? e.message : String(e);
+    const isCTraderError = e instanceof CTraderApiError;
+    const brokerErrorCode = isCTraderError ? (e.code ?? null) : null;
+    const errorPayloadType = isCTraderError ? (e.payloadType ?? null) : null;
+    const rawError = isCTraderError ? (e.raw ?? null) : null;
+
+    err("broker request failed", {
+      requestKey: req.request_key,
+      accountId: this.config.ctrader.accountId,
+      symbolId,
+      message: msg,
+      brokerErrorCode,
+      payloadType: errorPayloadType,
+      rawError,
+    });
+
+    const backoffMins = Math.min(30, Math.max(1, (req.attempts || 0) + 1));
+    const next = new Date(Date.now() + backoffMins * 60_000).toISOString();
+    const { error } = await this.supabase
+      .from("broker_order_requests")
+      .update({
+        status: "failed",
+        last_attempt_at: nowIso(),
+        next_attempt_after: next,
+        broker_error_code: brokerErrorCode,
+        broker_error_message: msg,
+        execution_event: rawError,
+        payload: {
+          ...(req.payload || {}),
+          lastFailure: {
+            message: msg,
+            brokerErrorCode,
+            payloadType: errorPayloadType,
+            accountId: this.config.ctrader.accountId,
+            symbolId,
+            at: nowIso(),
+          },
+        },
+      })
+      .eq("id", req.id);
+    if (error) throw error;
+  }
+
   async markProcessing(id, attempts) {
     const { error } = await this.supabase
       .from("broker_order_requests")
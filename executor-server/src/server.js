@@ -66,6 +66,7 @@ const server = http.createServer(async (req, res) => {
         accountId: config.ctrader.accountId,
         wsUrl: config.ctrader.wsUrl,
         symbolId: config.ctrader.symbolId,
+        symbolIds: config.ctrader.symbolIds,
         trader: snapshot,
       });
     }
@@ -0,0 +1,166 @@
+// Offline backtest runner for the continuation strategy.
+//
+// CSV (fully offline):
+//   deno run --allow-read scripts/backtest.ts --csv scripts/fixtures/eurusd_m15_sample.csv
+// Stored market_candles (needs SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY):
+//   deno run --allow-net --allow-env scripts/backtest.ts --from 2026-01-01 --to 2026-02-01
+//
+// Options:
+//   --symbol EUR/USD --timeframe 15min   instrument (default EUR/USD 15min)
+//   --from / --to                        ISO date range (from inclusive, to exclusive)
+//   --config '{"minImpulsePips":15}'     strategy config overrides (JSON or path to a JSON file)
+//   --intrabar-csv m1.csv                bars of config.intrabarTimeframe for the CSV mode (from the
+//                                        database, stored bars of that timeframe are loaded)
+//   --trades                             print the trade list
+//   --json                               print the full report as JSON
+//   --expect report.json                 compare against a saved JSON report, exit 1 on mismatch
+//                                        (scripts/fixtures/eurusd_m15_sample.expected.json for the fixture)
+//   --monte-carlo [2000]                 resample the closed trades (R after costs) that many times
+//   --mc-method bootstrap|shuffle        resampling method (default bootstrap)
+//   --risk-percent 1                     account % risked per trade for the Monte Carlo equity curves
+//   --ruin-drawdown 50                   drawdown % that counts as ruin
+
+import { formatBacktestReport, parseCandlesCsv, runBacktest } from "../supabase/functions/_shared/backtest.ts";
+import {
+  DEFAULT_MONTE_CARLO_SETTINGS,
+  formatMonteCarloReport,
+  type MonteCarloReport,
+  runMonteCarlo,
+} from "../supabase/functions/_shared/monteCarlo.ts";
+import { resolveStrategyConfig, STRATEGY_CODE } from "../supabase/functions/_shared/strategy.ts";
+import type { Candle } from "../supabase/functions/_shared/types.ts";
+
+export function parseArgs(args: string[]): Record<string, string | true> {
+  const out: Record<string, string | true> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) continue;
+    const next = args[i + 1];
+    if (next != null && !next.startsWith("--")) {
+      out[arg.slice(2)] = next;
+      i++;
+    } else {
+      out[arg.slice(2)] = true;
+    }
+  }
+  return out;
+}
+
+export function stringArg(args: Record<string, string | true>, name: string): string | null {
+  const v = args[name];
+  return typeof v === "string" ? v : null;
+}
+
+export function toIsoOrNull(value: string | null): string | null {
+  if (!value) return null;
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) throw new Error(`Invalid date: ${value}`);
+  return d.toISOString();
+}
+
+export async function readConfigArg(raw: string | null): Promise<unknown | null> {
+  if (!raw) return null;
+  const text = raw.trim().startsWith("{") ? raw : await Deno.readTextFile(raw);
+  return JSON.parse(text);
+}
+
+export async function loadCandlesFromDb(params: {
+  symbol: string;
+  timeframe: string;
+  from: string | null;
+  to: string | null;
+}): Promise<{ candles: Candle[]; storedConfig: unknown }> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required without --csv");
+  }
+  // Loaded lazily so CSV mode never needs network access.
+  const { createSupabaseAdmin } = await import("../supabase/functions/_shared/supabaseAdmin.ts");
+  const { loadStoredCandles } = await import("../supabase/functions/_shared/candleStore.ts");
+  const supabase = createSupabaseAdmin({ supabaseUrl, supabaseServiceRoleKey });
+
+  const { data: controlRow, error } = await supabase
+    .from("strategy_controls")
+    .select("config")
+    .eq("strategy_code", STRATEGY_CODE)
+    .eq("symbol", params.symbol)
+    .eq("timeframe", params.timeframe)
+    .maybeSingle();
+  if (error) throw error;
+
+  const candles = await loadStoredCandles(supabase, params);
+  return { candles, storedConfig: controlRow?.config ?? null };
+}
+
+function positiveNumberArg(args: Record<string, string | true>, name: string, fallback: number): number {
+  const raw = stringArg(args, name);
+  if (raw == null) return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`--${name} must be a positive number`);
+  return n;
+}
+
+async function main() {
+  const args = parseArgs(Deno.args);
+  const symbol = stringArg(args, "symbol") ?? "EUR/USD";
+  const timeframe = stringArg(args, "timeframe") ?? "15min";
+  const from = toIsoOrNull(stringArg(args, "from"));
+  const to = toIsoOrNull(stringArg(args, "to"));
+  const csvPath = stringArg(args, "csv");
+
+  const intrabarPath = stringArg(args, "intrabar-csv");
+  const inRange = (c: Candle) => (!from || c.ts >= from) && (!to || c.ts < to);
+
+  let candles: Candle[];
+  let storedConfig: unknown = null;
+  let intrabarCandles: Candle[] | undefined;
+  if (csvPath) {
+    candles = parseCandlesCsv(await Deno.readTextFile(csvPath)).filter(inRange);
+    if (intrabarPath) intrabarCandles = parseCandlesCsv(await Deno.readTextFile(intrabarPath)).filter(inRange);
+  } else {
+    ({ candles, storedConfig } = await loadCandlesFromDb({ symbol, timeframe, from, to }));
+  }
+
+  const config = resolveStrategyConfig((await readConfigArg(stringArg(args, "config"))) ?? storedConfig);
+  if (!csvPath && config.intrabarTimeframe !== "off") {
+    ({ candles: intrabarCandles } = await loadCandlesFromDb({ symbol, timeframe: config.intrabarTimeframe, from, to }));
+  }
+  const report = runBacktest({ symbol, timeframe, candles, config, intrabarCandles });
+
+  const expectPath = stringArg(args, "expect");
+  if (expectPath) {
+    const expected = await Deno.readTextFile(expectPath);
+    const actual = JSON.stringify(report, null, 2);
+    if (JSON.stringify(JSON.parse(expected)) !== JSON.stringify(report)) {
+      console.error(`Backtest report differs from ${expectPath}`);
+      console.error(actual);
+      Deno.exit(1);
+    }
+    console.log(`Backtest report matches ${expectPath}`);
+    return;
+  }
+
+  let monteCarlo: MonteCarloReport | null = null;
+  if (args["monte-carlo"]) {
+    const method = stringArg(args, "mc-method") ?? DEFAULT_MONTE_CARLO_SETTINGS.method;
+    if (method !== "bootstrap" && method !== "shuffle") throw new Error("--mc-method must be bootstrap or shuffle");
+    monteCarlo = runMonteCarlo(report.trades.map((t) => Number(t.netRMultiple ?? t.rMultiple)), {
+      method,
+      iterations: Math.floor(positiveNumberArg(args, "monte-carlo", DEFAULT_MONTE_CARLO_SETTINGS.iterations)),
+      riskPercent: positiveNumberArg(args, "risk-percent", DEFAULT_MONTE_CARLO_SETTINGS.riskPercent),
+      ruinDrawdownPercent: positiveNumberArg(args, "ruin-drawdown", DEFAULT_MONTE_CARLO_SETTINGS.ruinDrawdownPercent),
+    });
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(monteCarlo ? { ...report, monteCarlo } : report, null, 2));
+    return;
+  }
+  console.log(formatBacktestReport(report, { includeTrades: args.trades === true }));
+  if (monteCarlo) console.log(`\n${formatMonteCarloReport(monteCarlo)}`);
+}
+
+if (import.meta.main) {
+  await main();
+}
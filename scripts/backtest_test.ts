@@ -0,0 +1,36 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { parseCandlesCsv, runBacktest } from "../supabase/functions/_shared/backtest.ts";
+import { resolveStrategyConfig } from "../supabase/functions/_shared/strategy.ts";
+import { parseArgs, toIsoOrNull } from "./backtest.ts";
+
+const fixture = (name: string) => new URL(`./fixtures/${name}`, import.meta.url);
+
+// Regenerate after an intended strategy change:
+//   deno run --allow-read scripts/backtest.ts --csv scripts/fixtures/eurusd_m15_sample.csv --json \
+//     > scripts/fixtures/eurusd_m15_sample.expected.json
+Deno.test("fixture replay matches the committed report", async () => {
+  const candles = parseCandlesCsv(await Deno.readTextFile(fixture("eurusd_m15_sample.csv")));
+  const report = runBacktest({
+    symbol: "EUR/USD",
+    timeframe: "15min",
+    candles,
+    config: resolveStrategyConfig(null),
+  });
+  const expected = JSON.parse(await Deno.readTextFile(fixture("eurusd_m15_sample.expected.json")));
+  assertEquals(JSON.parse(JSON.stringify(report)), expected);
+});
+
+Deno.test("parseArgs reads valued options and flags", () => {
+  assertEquals(parseArgs(["--csv", "a.csv", "--json", "--monte-carlo", "--from", "2026-01-01"]), {
+    csv: "a.csv",
+    json: true,
+    "monte-carlo": true,
+    from: "2026-01-01",
+  });
+});
+
+Deno.test("toIsoOrNull rejects invalid dates", () => {
+  assertEquals(toIsoOrNull("2026-01-01"), "2026-01-01T00:00:00.000Z");
+  assertEquals(toIsoOrNull(null), null);
+  assertThrows(() => toIsoOrNull("yesterday"), Error, "Invalid date");
+});
@@ -0,0 +1,104 @@
+// Walk-forward parameter optimization for the continuation strategy.
+//
+// CSV (fully offline):
+//   deno run --allow-read scripts/optimize.ts --csv scripts/fixtures/eurusd_m15_sample.csv
+// Stored market_candles (needs SUPABASE_URL + SUPABASE_SERVICE_ROLE_KEY):
+//   deno run --allow-net --allow-env scripts/optimize.ts --from 2025-09-01 --to 2026-02-01 --save
+//
+// Options:
+//   --symbol / --timeframe / --from / --to / --config   as in scripts/backtest.ts (config = base config)
+//   --space '{"minImpulsePips":[15,20]}'   values to try per parameter (JSON or path to a JSON file);
+//                                          minImpulsePips, slBufferPips, tpMode, fractalWidth
+//   --search grid|random                   full grid (default) or --samples N sets drawn with --seed
+//   --in-sample-days 28 --out-of-sample-days 7
+//   --min-trades 5                         out-of-sample trades needed to be ranked
+//   --gross                                rank on gross R instead of R after costs
+//   --top 10                               rows printed
+//   --save [label]                         store the run in optimization_runs/optimization_results
+//   --json                                 print the full report as JSON
+
+import {
+  DEFAULT_OPTIMIZER_SETTINGS,
+  DEFAULT_OPTIMIZER_SPACE,
+  formatOptimizationReport,
+  type OptimizerSpace,
+  runWalkForwardOptimization,
+  saveOptimizationRun,
+} from "../supabase/functions/_shared/optimizer.ts";
+import { parseCandlesCsv } from "../supabase/functions/_shared/backtest.ts";
+import { resolveStrategyConfig } from "../supabase/functions/_shared/strategy.ts";
+import type { Candle } from "../supabase/functions/_shared/types.ts";
+import { loadCandlesFromDb, parseArgs, readConfigArg, stringArg, toIsoOrNull } from "./backtest.ts";
+
+function numberArg(args: Record<string, string | true>, name: string, fallback: number): number {
+  const raw = stringArg(args, name);
+  if (raw == null) return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`--${name} must be a positive number`);
+  return n;
+}
+
+async function main() {
+  const args = parseArgs(Deno.args);
+  const symbol = stringArg(args, "symbol") ?? "EUR/USD";
+  const timeframe = stringArg(args, "timeframe") ?? "15min";
+  const from = toIsoOrNull(stringArg(args, "from"));
+  const to = toIsoOrNull(stringArg(args, "to"));
+  const csvPath = stringArg(args, "csv");
+  const inRange = (c: Candle) => (!from || c.ts >= from) && (!to || c.ts < to);
+
+  let candles: Candle[];
+  let storedConfig: unknown = null;
+  if (csvPath) {
+    candles = parseCandlesCsv(await Deno.readTextFile(csvPath)).filter(inRange);
+  } else {
+    ({ candles, storedConfig } = await loadCandlesFromDb({ symbol, timeframe, from, to }));
+  }
+
+  const spaceArg = (await readConfigArg(stringArg(args, "space"))) as Partial<OptimizerSpace> | null;
+  const search = stringArg(args, "search") ?? DEFAULT_OPTIMIZER_SETTINGS.search;
+  if (search !== "grid" && search !== "random") throw new Error("--search must be grid or random");
+
+  const report = runWalkForwardOptimization({
+    symbol,
+    timeframe,
+    candles,
+    baseConfig: resolveStrategyConfig((await readConfigArg(stringArg(args, "config"))) ?? storedConfig),
+    space: { ...DEFAULT_OPTIMIZER_SPACE, ...spaceArg },
+    settings: {
+      search,
+      samples: Math.floor(numberArg(args, "samples", DEFAULT_OPTIMIZER_SETTINGS.samples)),
+      seed: Math.floor(numberArg(args, "seed", DEFAULT_OPTIMIZER_SETTINGS.seed)),
+      inSampleDays: numberArg(args, "in-sample-days", DEFAULT_OPTIMIZER_SETTINGS.inSampleDays),
+      outOfSampleDays: numberArg(args, "out-of-sample-days", DEFAULT_OPTIMIZER_SETTINGS.outOfSampleDays),
+      minOutOfSampleTrades: Math.floor(numberArg(args, "min-trades", DEFAULT_OPTIMIZER_SETTINGS.minOutOfSampleTrades)),
+      afterCosts: args.gross !== true,
+    },
+  });
+  if (report.folds.length === 0) {
+    throw new Error("Candle range is shorter than one in-sample + out-of-sample window");
+  }
+
+  if (args.save) {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for --save");
+    }
+    const { createSupabaseAdmin } = await import("../supabase/functions/_shared/supabaseAdmin.ts");
+    const runId = await saveOptimizationRun(createSupabaseAdmin({ supabaseUrl, supabaseServiceRoleKey }), report, {
+      label: stringArg(args, "save"),
+    });
+    console.error(`Saved optimization run ${runId}`);
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  console.log(formatOptimizationReport(report, { top: Math.floor(numberArg(args, "top", 10)) }));
+}
+
+if (import.meta.main) {
+  await main();
+}
@@ -0,0 +1,116 @@
+import type { RuntimeEnv } from "./env.ts";
+import type { createSupabaseAdmin } from "./supabaseAdmin.ts";
+
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+// viewer: read-only commands; operator: also changes trading state
+// (reset, pause/kill, approvals); admin: also manages telegram_users.
+export type TelegramRole = "viewer" | "operator" | "admin";
+
+export const TELEGRAM_ROLES: TelegramRole[] = ["viewer", "operator", "admin"];
+
+const ROLE_RANK: Record<TelegramRole, number> = { viewer: 1, operator: 2, admin: 3 };
+
+// Commands without leading slash; callback data uses the same names.
+// Anything not listed (unknown commands) only needs viewer access.
+const COMMAND_ROLES: Record<string, TelegramRole> = {
+  menu: "viewer",
+  whoami: "viewer",
+  status: "viewer",
+  analysis: "viewer",
+  trade: "viewer",
+  last_signal: "viewer",
+  daily: "viewer",
+  weekly: "viewer",
+  backtest: "viewer",
+  chart: "viewer",
+  events: "viewer",
+  risk_of_ruin: "viewer",
+  explain: "viewer",
+  debug: "operator",
+  reset_cycle: "operator",
+  pause: "operator",
+  resume: "operator",
+  kill: "operator",
+  approve: "operator",
+  skip: "operator",
+  users: "admin",
+  grant: "admin",
+  revoke: "admin",
+};
+
+export type TelegramIdentity = {
+  chatId: string;
+  role: TelegramRole;
+  source: "telegram_users" | "env"; // env = TELEGRAM_ALLOWED_CHAT_IDS fallback
+  displayName: string | null;
+};
+
+/** "/reset_cycle" -> "reset_cycle", "approve:<id>" -> "approve". */
+export function commandName(command: string): string {
+  return command.replace(/^\//, "").split(/[:@]/)[0].toLowerCase();
+}
+
+export function requiredRole(command: string): TelegramRole {
+  return COMMAND_ROLES[commandName(command)] ?? "viewer";
+}
+
+export function hasRole(role: TelegramRole, required: TelegramRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/** Commands the role may run, in table order. */
+export function commandsForRole(role: TelegramRole): string[] {
+  return Object.entries(COMMAND_ROLES).filter(([, r]) => hasRole(role, r)).map(([c]) => c);
+}
+
+export function parseRole(raw: string | undefined): TelegramRole | null {
+  const role = raw?.trim().toLowerCase();
+  return TELEGRAM_ROLES.includes(role as TelegramRole) ? role as TelegramRole : null;
+}
+
+/**
+ * Role of a chat: its `telegram_users` row, otherwise admin when the chat is in
+ * `TELEGRAM_ALLOWED_CHAT_IDS` (so existing deployments keep working and can
+ * grant roles). Returns null for unknown chats.
+ */
+export async function resolveTelegramIdentity(
+  supabase: SupabaseAdmin,
+  env: RuntimeEnv,
+  chatId: string,
+): Promise<TelegramIdentity | null> {
+  const { data, error } = await supabase
+    .from("telegram_users")
+    .select("chat_id,role,display_name")
+    .eq("chat_id", chatId)
+    .maybeSingle();
+  if (error) throw error;
+  const role = parseRole(data?.role == null ? undefined : String(data.role));
+  if (data && role) {
+    return { chatId, role, source: "telegram_users", displayName: data.display_name ? String(data.display_name) : null };
+  }
+  if (env.telegramAllowedChatIds.includes(chatId)) return { chatId, role: "admin", source: "env", displayName: null };
+  return null;
+}
+
+/** Every chat with access: `telegram_users` rows plus `TELEGRAM_ALLOWED_CHAT_IDS`. */
+export async function listAllowedChatIds(supabase: SupabaseAdmin, env: RuntimeEnv): Promise<string[]> {
+  const { data, error } = await supabase.from("telegram_users").select("chat_id");
+  if (error) throw error;
+  return [...new Set([...env.telegramAllowedChatIds, ...(data ?? []).map((r) => String(r.chat_id))])];
+}
+
+/** Audit row for a command above viewer level, including denied attempts. */
+export async function recordCommandAudit(
+  supabase: SupabaseAdmin,
+  entry: { chatId: string; role: TelegramRole | null; command: string; args: string[]; allowed: boolean },
+): Promise<void> {
+  const { error } = await supabase.from("telegram_command_audit").insert({
+    chat_id: entry.chatId,
+    role: entry.role,
+    command: commandName(entry.command),
+    args: entry.args,
+    allowed: entry.allowed,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,126 @@
+import type { createSupabaseAdmin } from "./supabaseAdmin.ts";
+
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+// auto: ready signals are queued to the broker immediately;
+// approval: they wait in `awaiting_approval` for an Execute/Skip tap in Telegram.
+export type ExecutionMode = "auto" | "approval";
+
+export type ApprovalAction = "execute" | "skip" | "expired";
+
+export type ApprovalOutcome =
+  | { result: "decided"; action: "execute" | "skip"; signalKey: string; legs: number }
+  | { result: "expired"; signalKey: string }
+  | { result: "already_decided"; signalKey: string; status: string; action: string | null }
+  | { result: "not_found" };
+
+/**
+ * Approval deadline of a signal's entry: the close of the entry candle. Once
+ * that candle has closed, the simulated trade is already running without us.
+ */
+export function approvalExpiresAt(plannedEntryTime: string | null, intervalMs: number | null): string | null {
+  if (!plannedEntryTime || intervalMs == null) return null;
+  return new Date(new Date(plannedEntryTime).getTime() + intervalMs).toISOString();
+}
+
+/**
+ * Applies an Execute/Skip decision to every MARKET request of the signal still
+ * awaiting approval. Execute queues them for the executor, Skip cancels them;
+ * both record the deciding chat. Requests past their deadline are expired instead.
+ */
+export async function decideSignalApproval(
+  supabase: SupabaseAdmin,
+  params: { signalId: string; action: "execute" | "skip"; chatId: string; now?: Date },
+): Promise<ApprovalOutcome> {
+  const nowDate = params.now ?? new Date();
+  const now = nowDate.toISOString();
+  const { data: signal, error: signalErr } = await supabase
+    .from("strategy_signals")
+    .select("signal_key")
+    .eq("id", params.signalId)
+    .maybeSingle();
+  if (signalErr) throw signalErr;
+  if (!signal) return { result: "not_found" };
+  const signalKey = String(signal.signal_key);
+
+  const { data: requests, error: requestErr } = await supabase
+    .from("broker_order_requests")
+    .select("id,status,approval_action,approval_expires_at")
+    .eq("signal_key", signalKey)
+    .eq("order_type", "MARKET");
+  if (requestErr) throw requestErr;
+  if (!requests || requests.length === 0) return { result: "not_found" };
+
+  const awaiting = requests.filter((r) => r.status === "awaiting_approval");
+  if (awaiting.length === 0) {
+    return {
+      result: "already_decided",
+      signalKey,
+      status: String(requests[0].status),
+      action: requests[0].approval_action == null ? null : String(requests[0].approval_action),
+    };
+  }
+  const overdue = (r: { approval_expires_at: unknown }) =>
+    r.approval_expires_at != null && new Date(String(r.approval_expires_at)).getTime() <= nowDate.getTime();
+  if (awaiting.some(overdue)) {
+    await expireApprovals(supabase, { signalKey, now: params.now });
+    return { result: "expired", signalKey };
+  }
+
+  // The status filter makes concurrent taps safe: only the first one changes rows.
+  const { data: updated, error } = await supabase
+    .from("broker_order_requests")
+    .update({
+      status: params.action === "execute" ? "queued" : "cancelled",
+      approval_action: params.action,
+      approval_chat_id: params.chatId,
+      approval_decided_at: now,
+    })
+    .eq("signal_key", signalKey)
+    .eq("order_type", "MARKET")
+    .eq("status", "awaiting_approval")
+    .select("id");
+  if (error) throw error;
+  if (!updated || updated.length === 0) {
+    return { result: "already_decided", signalKey, status: "decided", action: null };
+  }
+  return { result: "decided", action: params.action, signalKey, legs: updated.length };
+}
+
+/** Signal keys with requests still awaiting approval after their deadline, for one instrument. */
+export async function findExpiredApprovals(
+  supabase: SupabaseAdmin,
+  params: { symbol: string; timeframe: string; now?: Date },
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("broker_order_requests")
+    .select("signal_key")
+    .eq("status", "awaiting_approval")
+    .lte("approval_expires_at", (params.now ?? new Date()).toISOString())
+    .eq("symbol", params.symbol)
+    .eq("timeframe", params.timeframe);
+  if (error) throw error;
+  return [...new Set((data ?? []).map((r) => String(r.signal_key)))];
+}
+
+/**
+ * Cancels requests still awaiting approval after their deadline, optionally
+ * limited to one signal or instrument. Returns the signal keys that expired.
+ */
+export async function expireApprovals(
+  supabase: SupabaseAdmin,
+  params: { signalKey?: string; symbol?: string; timeframe?: string; now?: Date },
+): Promise<string[]> {
+  const now = (params.now ?? new Date()).toISOString();
+  let query = supabase
+    .from("broker_order_requests")
+    .update({ status: "cancelled", approval_action: "expired", approval_decided_at: now })
+    .eq("status", "awaiting_approval")
+    .lte("approval_expires_at", now);
+  if (params.signalKey) query = query.eq("signal_key", params.signalKey);
+  if (params.symbol) query = query.eq("symbol", params.symbol);
+  if (params.timeframe) query = query.eq("timeframe", params.timeframe);
+  const { data, error } = await query.select("signal_key");
+  if (error) throw error;
+  return [...new Set((data ?? []).map((r) => String(r.signal_key)))];
+}
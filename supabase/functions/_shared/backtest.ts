@@ -0,0 +1,272 @@
+import { timeframeMs } from "./instruments.ts";
+import { groupIntrabarCandles } from "./intrabar.ts";
+import { DEFAULT_STRATEGY_CONFIG, runContinuationStrategy } from "./strategy.ts";
+import type { Candle, EngineTrade, StrategyConfig } from "./types.ts";
+
+export type BacktestTrade = EngineTrade & {
+  holdingMinutes: number | null;
+};
+
+export type PerformanceSummary = {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRatePct: number;
+  netR: number;
+  avgWinR: number;
+  avgLossR: number;
+  expectancyR: number;
+  maxDrawdownR: number;
+  longestLosingStreak: number;
+  avgHoldingMinutes: number | null;
+  bestR: number | null;
+  worstR: number | null;
+};
+
+export type MonthlyPerformance = {
+  month: string; // YYYY-MM of the exit time (UTC)
+  trades: number;
+  wins: number;
+  losses: number;
+  winRatePct: number;
+  netR: number;
+  netRAfterCosts: number;
+};
+
+export type BacktestReport = {
+  symbol: string;
+  timeframe: string;
+  config: StrategyConfig;
+  from: string | null;
+  to: string | null;
+  candles: number;
+  signals: number;
+  openTrades: number;
+  summary: PerformanceSummary;
+  summaryAfterCosts: PerformanceSummary; // same statistics on netRMultiple
+  monthly: MonthlyPerformance[];
+  trades: BacktestTrade[];
+};
+
+function round2(n: number): number {
+  return Number(n.toFixed(2));
+}
+
+/** mulberry32: small seeded PRNG, so sampled runs are reproducible. Returns values in [0, 1). */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function holdingMinutes(t: EngineTrade): number | null {
+  if (!t.exitTime) return null;
+  const ms = new Date(t.exitTime).getTime() - new Date(t.entryTime).getTime();
+  return Number.isFinite(ms) ? Math.round(ms / 60_000) : null;
+}
+
+/**
+ * Computes win rate, net R, expectancy, drawdown and streak statistics over
+ * closed trades in the order given (expected: ascending exit time). Uses the
+ * gross R unless `afterCosts` is set.
+ */
+export function summarizeTrades(trades: EngineTrade[], options: { afterCosts?: boolean } = {}): PerformanceSummary {
+  const rOf = (t: EngineTrade) => options.afterCosts ? t.netRMultiple : t.rMultiple;
+  const closed = trades.filter((t) => t.status === "CLOSED" && rOf(t) != null);
+  const rs = closed.map((t) => Number(rOf(t)));
+  const winsR = rs.filter((r) => r > 0);
+  const lossesR = rs.filter((r) => r <= 0);
+  const netR = rs.reduce((acc, r) => acc + r, 0);
+
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdownR = 0;
+  let streak = 0;
+  let longestLosingStreak = 0;
+  for (const r of rs) {
+    equity += r;
+    peak = Math.max(peak, equity);
+    maxDrawdownR = Math.max(maxDrawdownR, peak - equity);
+    streak = r <= 0 ? streak + 1 : 0;
+    longestLosingStreak = Math.max(longestLosingStreak, streak);
+  }
+
+  const holds = closed.map(holdingMinutes).filter((m): m is number => m != null);
+  const avgWinR = winsR.length > 0 ? winsR.reduce((a, r) => a + r, 0) / winsR.length : 0;
+  const avgLossR = lossesR.length > 0 ? lossesR.reduce((a, r) => a + r, 0) / lossesR.length : 0;
+  const winRate = rs.length > 0 ? winsR.length / rs.length : 0;
+
+  return {
+    trades: rs.length,
+    wins: winsR.length,
+    losses: lossesR.length,
+    winRatePct: round2(winRate * 100),
+    netR: round2(netR),
+    avgWinR: round2(avgWinR),
+    avgLossR: round2(avgLossR),
+    expectancyR: round2(winRate * avgWinR + (1 - winRate) * avgLossR),
+    maxDrawdownR: round2(maxDrawdownR),
+    longestLosingStreak,
+    avgHoldingMinutes: holds.length > 0 ? Math.round(holds.reduce((a, m) => a + m, 0) / holds.length) : null,
+    bestR: rs.length > 0 ? Math.max(...rs) : null,
+    worstR: rs.length > 0 ? Math.min(...rs) : null,
+  };
+}
+
+function monthlyBreakdown(trades: EngineTrade[]): MonthlyPerformance[] {
+  const byMonth = new Map<string, EngineTrade[]>();
+  for (const t of trades) {
+    if (t.status !== "CLOSED" || !t.exitTime) continue;
+    const month = t.exitTime.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), t]);
+  }
+  return [...byMonth.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, monthTrades]) => {
+      const s = summarizeTrades(monthTrades);
+      return {
+        month,
+        trades: s.trades,
+        wins: s.wins,
+        losses: s.losses,
+        winRatePct: s.winRatePct,
+        netR: s.netR,
+        netRAfterCosts: summarizeTrades(monthTrades, { afterCosts: true }).netR,
+      };
+    });
+}
+
+/**
+ * Replays the continuation strategy over a candle series (ascending, closed
+ * candles) and builds a performance report from the simulated trades.
+ */
+export function runBacktest(params: {
+  symbol: string;
+  timeframe: string;
+  candles: Candle[];
+  config?: StrategyConfig;
+  intrabarCandles?: Candle[]; // lower-timeframe bars for ordering same-candle SL/TP touches
+}): BacktestReport {
+  const config = params.config ?? DEFAULT_STRATEGY_CONFIG;
+  const intervalMs = timeframeMs(params.timeframe);
+  const engine = runContinuationStrategy({
+    symbol: params.symbol,
+    timeframe: params.timeframe,
+    candles: params.candles,
+    config,
+    intrabarCandles: params.intrabarCandles && intervalMs != null
+      ? groupIntrabarCandles(params.intrabarCandles, intervalMs)
+      : undefined,
+  });
+
+  const closed = engine.trades
+    .filter((t) => t.status === "CLOSED")
+    .sort((a, b) => (a.exitTime ?? "").localeCompare(b.exitTime ?? ""));
+
+  return {
+    symbol: params.symbol,
+    timeframe: params.timeframe,
+    config,
+    from: params.candles[0]?.ts ?? null,
+    to: params.candles[params.candles.length - 1]?.ts ?? null,
+    candles: params.candles.length,
+    signals: engine.signals.length,
+    openTrades: engine.trades.length - closed.length,
+    summary: summarizeTrades(closed),
+    summaryAfterCosts: summarizeTrades(closed, { afterCosts: true }),
+    monthly: monthlyBreakdown(closed),
+    trades: closed.map((t) => ({ ...t, holdingMinutes: holdingMinutes(t) })),
+  };
+}
+
+/**
+ * Parses OHLC candles from CSV. Requires a header row with a timestamp column
+ * (`ts`, `datetime`, `time` or `timestamp`) plus `open`, `high`, `low`, `close`;
+ * `volume` is optional. Timestamps without a zone are treated as UTC.
+ */
+export function parseCandlesCsv(text: string): Candle[] {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter((l) => l.length > 0 && !l.startsWith("#"));
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
+  const tsCol = header.findIndex((h) => ["ts", "datetime", "time", "timestamp"].includes(h));
+  const col = (name: string) => header.indexOf(name);
+  const [openCol, highCol, lowCol, closeCol, volumeCol] = ["open", "high", "low", "close", "volume"].map(col);
+  if (tsCol < 0 || openCol < 0 || highCol < 0 || lowCol < 0 || closeCol < 0) {
+    throw new Error("CSV header must include ts/datetime, open, high, low, close columns");
+  }
+
+  const candles: Candle[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = line.split(",").map((c) => c.trim());
+    const rawTs = cells[tsCol];
+    const hasZone = /[zZ]$|[+-]\d{2}:?\d{2}$/.test(rawTs);
+    const date = new Date(hasZone ? rawTs : `${rawTs.replace(" ", "T")}Z`);
+    const candle: Candle = {
+      ts: date.toISOString(),
+      open: Number(cells[openCol]),
+      high: Number(cells[highCol]),
+      low: Number(cells[lowCol]),
+      close: Number(cells[closeCol]),
+      volume: volumeCol >= 0 && cells[volumeCol] ? Number(cells[volumeCol]) : null,
+    };
+    if (![candle.open, candle.high, candle.low, candle.close].every((x) => Number.isFinite(x))) continue;
+    candles.push(candle);
+  }
+  return candles.sort((a, b) => a.ts.localeCompare(b.ts));
+}
+
+export function formatBacktestReport(report: BacktestReport, options: { includeTrades?: boolean } = {}): string {
+  const s = report.summary;
+  const n = report.summaryAfterCosts;
+  const lines = [
+    `Backtest ${report.symbol} ${report.timeframe}`,
+    `Range: ${report.from ?? "-"} -> ${report.to ?? "-"} (${report.candles} candles)`,
+    `Config: ${JSON.stringify(report.config)}`,
+    ``,
+    `Signals: ${report.signals}  Closed trades: ${s.trades}  Still open: ${report.openTrades}`,
+    `Wins/Losses: ${s.wins}/${s.losses}  Win rate: ${s.winRatePct.toFixed(1)}%`,
+    `Net R: ${s.netR.toFixed(2)}  Expectancy: ${s.expectancyR.toFixed(2)}R`,
+    `Avg win/loss: ${s.avgWinR.toFixed(2)}R / ${s.avgLossR.toFixed(2)}R`,
+    `Max drawdown: ${s.maxDrawdownR.toFixed(2)}R  Longest losing streak: ${s.longestLosingStreak}`,
+    `Avg holding time: ${s.avgHoldingMinutes == null ? "-" : `${s.avgHoldingMinutes} min`}`,
+    ``,
+    `After costs: Net R: ${n.netR.toFixed(2)}  Expectancy: ${n.expectancyR.toFixed(2)}R  Win rate: ${n.winRatePct.toFixed(1)}%`,
+    `After costs: Max drawdown: ${n.maxDrawdownR.toFixed(2)}R`,
+    ``,
+    `Month     Trades  Wins  Losses  WinRate   NetR  AfterCosts`,
+    ...report.monthly.map((m) =>
+      [
+        m.month,
+        String(m.trades).padStart(6),
+        String(m.wins).padStart(4),
+        String(m.losses).padStart(6),
+        `${m.winRatePct.toFixed(1)}%`.padStart(7),
+        m.netR.toFixed(2).padStart(6),
+        m.netRAfterCosts.toFixed(2).padStart(10),
+      ].join("  ")
+    ),
+  ];
+
+  if (options.includeTrades) {
+    lines.push(``, `Trades:`);
+    for (const t of report.trades) {
+      lines.push([
+        t.entryTime,
+        t.direction.padEnd(5),
+        `entry=${t.entryPrice} sl=${t.initialStopLoss} tp=${t.takeProfit}${t.takeProfit2 != null ? ` tp2=${t.takeProfit2}` : ""}`,
+        ...t.stopAdjustments.map((a) => `${a.reason}->${a.to}`),
+        ...t.partialExits.map((p) => `${p.leg}=${p.price}x${p.fraction}`),
+        `exit=${t.exitPrice ?? "-"} ${t.exitReason ?? "-"}${t.exitResolution ? `(${t.exitResolution})` : ""}`,
+        `R=${t.rMultiple ?? "-"} netR=${t.netRMultiple ?? "-"} hold=${t.holdingMinutes ?? "-"}m`,
+      ].join(" "));
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,195 @@
+import type { RuntimeEnv } from "./env.ts";
+import { timeframeMs } from "./instruments.ts";
+import { fetchTwelveDataCandles } from "./twelveData.ts";
+import type { Candle } from "./types.ts";
+
+export type CandleRequest = {
+  symbol: string; // Twelve Data notation, e.g. "EUR/USD"
+  interval: string; // Twelve Data interval, e.g. "15min"
+  outputsize: number;
+  start?: string; // optional ISO range; providers without range support return the latest bars
+  end?: string;
+};
+
+export type CandleProvider = {
+  name: string; // stored in market_candles.source
+  fetchCandles(request: CandleRequest): Promise<Candle[]>;
+};
+
+export type CandleFetchResult = {
+  provider: string | null; // null when every provider answered with no candles
+  candles: Candle[];
+  failures: { provider: string; error: string }[];
+};
+
+/**
+ * Flags bars whose close time (open + interval) is still in the future as
+ * `isClosed: false`. Providers return the in-progress bar, whose high/low/close
+ * keep changing until it closes.
+ */
+export function markFormingCandles(candles: Candle[], intervalMs: number | null, nowMs = Date.now()): Candle[] {
+  return candles.map((c) => ({
+    ...c,
+    isClosed: intervalMs == null || new Date(c.ts).getTime() + intervalMs <= nowMs,
+  }));
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+export function createTwelveDataProvider(params: { apiKey: string; minIntervalMs?: number }): CandleProvider {
+  return {
+    name: "twelvedata",
+    fetchCandles: (request) =>
+      fetchTwelveDataCandles({
+        apiKey: params.apiKey,
+        symbol: request.symbol,
+        interval: request.interval,
+        outputsize: request.outputsize,
+        start: request.start,
+        end: request.end,
+        minIntervalMs: params.minIntervalMs,
+      }),
+  };
+}
+
+function toIsoTs(raw: unknown): string | null {
+  if (raw == null || raw === "") return null;
+  let date: Date;
+  if (typeof raw === "number") {
+    // Epoch seconds or milliseconds.
+    date = new Date(raw < 1e12 ? raw * 1000 : raw);
+  } else {
+    const text = String(raw).trim();
+    const hasZone = /[zZ]$|[+-]\d{2}:?\d{2}$/.test(text);
+    date = new Date(hasZone ? text : `${text.replace(" ", "T")}Z`);
+  }
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function pick(row: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    if (row[key] != null) return row[key];
+  }
+  return null;
+}
+
+/**
+ * Generic OHLC-over-HTTP source. `urlTemplate` may contain `{symbol}`,
+ * `{symbol_compact}` (EURUSD), `{interval}`, `{outputsize}`, `{start}` and
+ * `{end}` (ISO timestamps, empty when the request has no range) placeholders.
+ * The response is a JSON array of bars, or an object with a `candles`,
+ * `values` or `data` array; each bar needs a time (`ts`, `datetime`, `time`,
+ * `timestamp` or `t`) and `open`/`high`/`low`/`close` (or `o`/`h`/`l`/`c`).
+ */
+export function createHttpOhlcProvider(params: {
+  urlTemplate: string;
+  apiKey?: string | null;
+  timeoutMs?: number;
+}): CandleProvider {
+  return {
+    name: "http_ohlc",
+    async fetchCandles(request) {
+      const url = params.urlTemplate
+        .replaceAll("{symbol}", encodeURIComponent(request.symbol))
+        .replaceAll("{symbol_compact}", encodeURIComponent(request.symbol.replace(/[^A-Za-z0-9]/g, "")))
+        .replaceAll("{interval}", encodeURIComponent(request.interval))
+        .replaceAll("{outputsize}", String(request.outputsize))
+        .replaceAll("{start}", encodeURIComponent(request.start ?? ""))
+        .replaceAll("{end}", encodeURIComponent(request.end ?? ""));
+      const headers: HeadersInit = { Accept: "application/json" };
+      if (params.apiKey) headers.Authorization = `Bearer ${params.apiKey}`;
+
+      const res = await fetch(url, { headers, signal: AbortSignal.timeout(params.timeoutMs ?? 15_000) });
+      if (!res.ok) {
+        throw new Error(`OHLC HTTP ${res.status}`);
+      }
+
+      const body = await res.json() as unknown;
+      const rows = Array.isArray(body)
+        ? body
+        : pick((body ?? {}) as Record<string, unknown>, ["candles", "values", "data"]);
+      if (!Array.isArray(rows)) {
+        throw new Error("OHLC HTTP response has no candle array");
+      }
+
+      const candles: Candle[] = [];
+      for (const raw of rows as Record<string, unknown>[]) {
+        const ts = toIsoTs(pick(raw, ["ts", "datetime", "time", "timestamp", "t"]));
+        const volume = pick(raw, ["volume", "v"]);
+        const candle: Candle = {
+          ts: ts ?? "",
+          open: Number(pick(raw, ["open", "o"])),
+          high: Number(pick(raw, ["high", "h"])),
+          low: Number(pick(raw, ["low", "l"])),
+          close: Number(pick(raw, ["close", "c"])),
+          volume: volume == null ? null : Number(volume),
+        };
+        if (!ts || ![candle.open, candle.high, candle.low, candle.close].every((x) => Number.isFinite(x))) continue;
+        candles.push(candle);
+      }
+      return candles.sort((a, b) => a.ts.localeCompare(b.ts)).slice(-request.outputsize);
+    },
+  };
+}
+
+/**
+ * Providers in `CANDLE_PROVIDERS` order (primary first). Names that are unknown
+ * or lack their settings are skipped with a warning.
+ */
+export function createCandleProviders(env: RuntimeEnv): CandleProvider[] {
+  const providers: CandleProvider[] = [];
+  for (const name of env.candleProviders) {
+    if (name === "twelvedata" && env.twelveDataApiKey) {
+      providers.push(createTwelveDataProvider({
+        apiKey: env.twelveDataApiKey,
+        minIntervalMs: env.twelveDataMinIntervalMs,
+      }));
+    } else if (name === "http_ohlc" && env.ohlcHttpUrl) {
+      providers.push(createHttpOhlcProvider({ urlTemplate: env.ohlcHttpUrl, apiKey: env.ohlcHttpApiKey }));
+    } else {
+      console.warn(`Candle provider "${name}" is unknown or not configured; skipped`);
+    }
+  }
+  if (providers.length === 0) {
+    throw new Error(`No candle provider configured (CANDLE_PROVIDERS=${env.candleProviders.join(",")})`);
+  }
+  return providers;
+}
+
+/**
+ * Asks each provider in turn and returns the first non-empty result, tagging
+ * every candle with the provider name and its closed/forming status. Throws
+ * when every provider failed and at least one of them errored.
+ */
+export async function fetchCandlesWithFailover(
+  providers: CandleProvider[],
+  request: CandleRequest,
+): Promise<CandleFetchResult> {
+  const failures: CandleFetchResult["failures"] = [];
+  for (const provider of providers) {
+    try {
+      const candles = await provider.fetchCandles(request);
+      if (candles.length === 0) {
+        failures.push({ provider: provider.name, error: "no candles returned" });
+        continue;
+      }
+      return {
+        provider: provider.name,
+        candles: markFormingCandles(candles, timeframeMs(request.interval))
+          .map((c) => ({ ...c, source: provider.name })),
+        failures,
+      };
+    } catch (e) {
+      console.error(`Candle provider ${provider.name} failed for ${request.symbol} ${request.interval}`, e);
+      failures.push({ provider: provider.name, error: errorMessage(e) });
+    }
+  }
+  if (failures.every((f) => f.error === "no candles returned")) {
+    return { provider: null, candles: [], failures };
+  }
+  throw new Error(
+    `All candle providers failed: ${failures.map((f) => `${f.provider}: ${f.error}`).join("; ")}`,
+  );
+}
@@ -0,0 +1,195 @@
+import { isFxBarExpected, isFxWeekendClosed } from "./fxSession.ts";
+import type { Candle } from "./types.ts";
+
+export type CandleIssueType =
+  | "gap"
+  | "duplicate"
+  | "ohlc_inconsistent"
+  | "spike"
+  | "weekend_bar"
+  | "misaligned";
+
+export type CandleQualityIssue = {
+  type: CandleIssueType;
+  severity: "warning" | "error"; // errors can block signal generation (CANDLE_QUALITY_MODE=block)
+  ts: string; // candle the issue is attached to (for gaps: first candle after the gap)
+  message: string;
+  details: Record<string, unknown>;
+};
+
+export type CandleQualityMode = "off" | "warn" | "block";
+
+// Short gaps inside an open session are data glitches; long ones are usually
+// holidays or provider outages that no backfill will fill, so they only warn.
+const MAX_ERROR_GAP_BARS = 8;
+// In block mode a gap only holds signal generation this many bars for a late
+// backfill; a bar the provider never delivers would otherwise block for good.
+export const GAP_BLOCK_BARS = 4;
+const SPIKE_LOOKBACK = 96;
+const SPIKE_MIN_HISTORY = 20;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function ohlcProblem(c: Candle): string | null {
+  const values = [c.open, c.high, c.low, c.close];
+  if (!values.every((x) => Number.isFinite(x) && x > 0)) return "non-positive or missing price";
+  if (c.high < c.low) return "high below low";
+  if (c.high < Math.max(c.open, c.close)) return "high below open/close";
+  if (c.low > Math.min(c.open, c.close)) return "low above open/close";
+  return null;
+}
+
+/**
+ * Checks a candle batch for duplicated timestamps, OHLC inconsistencies,
+ * off-grid timestamps, weekend bars, missing bars inside the FX trading week
+ * and abnormal ranges/jumps. Returns the candles sorted with duplicates removed
+ * (first occurrence kept) together with the issues found.
+ */
+export function validateCandles(candles: Candle[], params: {
+  intervalMs: number | null;
+  pipSize: number;
+  spikeMultiple?: number;
+}): { candles: Candle[]; issues: CandleQualityIssue[] } {
+  const issues: CandleQualityIssue[] = [];
+  const spikeMultiple = params.spikeMultiple ?? 8;
+  const intervalMs = params.intervalMs;
+  const intraday = intervalMs != null && intervalMs < 86_400_000;
+
+  const seen = new Map<string, Candle>();
+  for (const c of [...candles].sort((a, b) => a.ts.localeCompare(b.ts))) {
+    const first = seen.get(c.ts);
+    if (!first) {
+      seen.set(c.ts, c);
+      continue;
+    }
+    const same = first.open === c.open && first.high === c.high && first.low === c.low && first.close === c.close;
+    issues.push({
+      type: "duplicate",
+      severity: same ? "warning" : "error",
+      ts: c.ts,
+      message: same ? "duplicate bar" : "duplicate bar with different prices",
+      details: { kept: first, dropped: c },
+    });
+  }
+  const unique = [...seen.values()];
+
+  for (let i = 0; i < unique.length; i++) {
+    const c = unique[i];
+    const ms = new Date(c.ts).getTime();
+
+    const problem = ohlcProblem(c);
+    if (problem) {
+      issues.push({
+        type: "ohlc_inconsistent",
+        severity: "error",
+        ts: c.ts,
+        message: problem,
+        details: { open: c.open, high: c.high, low: c.low, close: c.close },
+      });
+    }
+
+    if (intervalMs != null && intervalMs <= 3_600_000 && ms % intervalMs !== 0) {
+      issues.push({
+        type: "misaligned",
+        severity: "error",
+        ts: c.ts,
+        message: `timestamp not on the ${intervalMs / 60_000}-minute grid`,
+        details: {},
+      });
+    }
+
+    if (intraday && isFxWeekendClosed(ms)) {
+      issues.push({
+        type: "weekend_bar",
+        severity: "error",
+        ts: c.ts,
+        message: "bar inside the FX weekend close",
+        details: {},
+      });
+    }
+
+    if (i === 0) continue;
+    const prev = unique[i - 1];
+    const prevMs = new Date(prev.ts).getTime();
+
+    if (intraday) {
+      let missing = 0;
+      let firstMissing: string | null = null;
+      for (let t = prevMs + intervalMs; t < ms; t += intervalMs) {
+        if (!isFxBarExpected(t)) continue;
+        missing++;
+        firstMissing ??= new Date(t).toISOString();
+      }
+      if (missing > 0) {
+        issues.push({
+          type: "gap",
+          severity: missing <= MAX_ERROR_GAP_BARS ? "error" : "warning",
+          ts: c.ts,
+          message: `${missing} missing bar(s) after ${prev.ts}`,
+          details: { after: prev.ts, firstMissing, missingBars: missing },
+        });
+      }
+    }
+
+    const history = unique.slice(Math.max(0, i - SPIKE_LOOKBACK), i);
+    if (history.length < SPIKE_MIN_HISTORY || problem) continue;
+    const typicalRange = median(history.map((h) => h.high - h.low));
+    const floor = 10 * params.pipSize;
+    const range = c.high - c.low;
+    // Opening jumps are only meaningful between adjacent bars (not across the weekend).
+    const jump = intervalMs != null && ms - prevMs === intervalMs ? Math.abs(c.open - prev.close) : 0;
+    if (typicalRange > 0 && Math.max(range, jump) > Math.max(spikeMultiple * typicalRange, floor)) {
+      issues.push({
+        type: "spike",
+        severity: "warning",
+        ts: c.ts,
+        message: range >= jump
+          ? `range ${(range / params.pipSize).toFixed(1)} pips vs typical ${(typicalRange / params.pipSize).toFixed(1)}`
+          : `open jumped ${(jump / params.pipSize).toFixed(1)} pips from previous close`,
+        details: { range, jump, typicalRange },
+      });
+    }
+  }
+
+  return { candles: unique, issues };
+}
+
+/**
+ * Issues that hold back signal generation in `block` mode: errors on candles
+ * after `after` (the last candle the engine processed). A gap stops blocking
+ * once GAP_BLOCK_BARS bars have closed after it, and the engine moves on.
+ */
+export function blockingCandleIssues(issues: CandleQualityIssue[], params: {
+  after: string | null;
+  latestTs: string | null; // newest closed candle of the batch
+  intervalMs: number | null;
+}): CandleQualityIssue[] {
+  const latestMs = params.latestTs ? new Date(params.latestTs).getTime() : null;
+  return issues.filter((i) => {
+    if (i.severity !== "error" || (params.after && i.ts <= params.after)) return false;
+    if (i.type !== "gap" || latestMs == null || params.intervalMs == null) return true;
+    return latestMs - new Date(i.ts).getTime() < GAP_BLOCK_BARS * params.intervalMs;
+  });
+}
+
+export function candleIssueKey(symbol: string, timeframe: string, issue: CandleQualityIssue): string {
+  return `${symbol}|${timeframe}|${issue.type}|${issue.ts}`;
+}
+
+/** Plain-text summary for a Telegram data warning. */
+export function describeCandleIssues(label: string, issues: CandleQualityIssue[], blocked: boolean, max = 10): string {
+  const errors = issues.filter((i) => i.severity === "error").length;
+  return [
+    `${label}: ${issues.length} candle issue(s), ${errors} error(s)`,
+    ...issues.slice(0, max).map((i) => `• ${i.severity === "error" ? "❌" : "⚠️"} ${i.type} @ ${i.ts}: ${i.message}`),
+    ...(issues.length > max ? [`• … ${issues.length - max} more`] : []),
+    ``,
+    blocked
+      ? `Signal generation is paused until these bars are fixed (CANDLE_QUALITY_MODE=block); a gap holds it for ${GAP_BLOCK_BARS} bars at most.`
+      : `Signals are still computed (CANDLE_QUALITY_MODE=warn).`,
+  ].join("\n");
+}
@@ -0,0 +1,99 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { blockingCandleIssues, type CandleQualityIssue, validateCandles } from "./candleQuality.ts";
+import type { Candle } from "./types.ts";
+
+const M15 = 15 * 60_000;
+const PIP = 0.0001;
+// Monday 10:00 UTC, inside the FX week.
+const START = Date.UTC(2026, 0, 5, 10);
+
+const tsAt = (i: number) => new Date(START + i * M15).toISOString();
+
+// Quiet 5-pip bars around 1.1000, enough history for the spike check.
+function quietBars(count: number): Candle[] {
+  return Array.from({ length: count }, (_, i) => ({ ts: tsAt(i), open: 1.1, high: 1.1003, low: 1.0998, close: 1.1 }));
+}
+
+function validate(candles: Candle[]) {
+  return validateCandles(candles, { intervalMs: M15, pipSize: PIP });
+}
+
+const summary = (issues: CandleQualityIssue[]) => issues.map((i) => [i.type, i.severity, i.ts]);
+
+Deno.test("clean bars raise no issue", () => {
+  const candles = quietBars(30);
+  assertEquals(validate(candles), { candles, issues: [] });
+});
+
+Deno.test("duplicates are dropped, keeping the first, and differing prices are an error", () => {
+  const [a, b] = quietBars(2);
+  const result = validate([b, a, { ...a }, { ...b, close: 1.1002 }]);
+  assertEquals(result.candles, [a, b]);
+  assertEquals(summary(result.issues), [["duplicate", "warning", a.ts], ["duplicate", "error", b.ts]]);
+});
+
+Deno.test("inconsistent OHLC values are errors", () => {
+  const [a, b, c, d] = quietBars(4);
+  const result = validate([a, { ...b, high: 1.0997 }, { ...c, low: 1.1001 }, { ...d, close: 0 }]);
+  assertEquals(result.issues.map((i) => [i.type, i.message]), [
+    ["ohlc_inconsistent", "high below low"],
+    ["ohlc_inconsistent", "low above open/close"],
+    ["ohlc_inconsistent", "non-positive or missing price"],
+  ]);
+});
+
+Deno.test("off-grid timestamps and weekend bars are errors", () => {
+  const saturday = { ...quietBars(1)[0], ts: "2026-01-10T12:00:00.000Z" };
+  const offGrid = { ...quietBars(1)[0], ts: new Date(START + 5 * 60_000).toISOString() };
+  const result = validate([quietBars(1)[0], offGrid, saturday]);
+  assertEquals(summary(result.issues).filter(([type]) => type !== "gap"), [
+    ["misaligned", "error", offGrid.ts],
+    ["weekend_bar", "error", saturday.ts],
+  ]);
+});
+
+Deno.test("gaps inside the FX week are errors when short and warnings when long", () => {
+  const bars = quietBars(20);
+  const short = validate([...bars.slice(0, 5), ...bars.slice(7)]);
+  assertEquals(summary(short.issues), [["gap", "error", bars[7].ts]]);
+  assertEquals(short.issues[0].details, { after: bars[4].ts, firstMissing: bars[5].ts, missingBars: 2 });
+
+  const long = validate([bars[0], bars[19]]);
+  assertEquals(summary(long.issues), [["gap", "warning", bars[19].ts]]);
+
+  // Friday evening to Sunday night: the weekend close is not a gap.
+  const weekend = validate([
+    { ...bars[0], ts: "2026-01-09T21:45:00.000Z" },
+    { ...bars[0], ts: "2026-01-11T22:00:00.000Z" },
+  ]);
+  assertEquals(weekend.issues, []);
+});
+
+Deno.test("abnormal ranges and opening jumps are spike warnings", () => {
+  const bars = quietBars(30);
+  bars[25] = { ...bars[25], high: 1.106, low: 1.098 };
+  // The market gaps up 40 pips and stays there.
+  for (const i of [28, 29]) bars[i] = { ...bars[i], open: 1.104, high: 1.1042, low: 1.1038, close: 1.104 };
+  const result = validate(bars);
+  assertEquals(summary(result.issues), [
+    ["spike", "warning", bars[25].ts],
+    ["spike", "warning", bars[28].ts],
+  ]);
+  assertEquals(result.issues[1].message, "open jumped 40.0 pips from previous close");
+  // Too little history: no spike check yet.
+  assertEquals(validate(bars.slice(0, 10).map((b, i) => i === 5 ? { ...b, high: 1.106 } : b)).issues, []);
+});
+
+Deno.test("blocking errors are limited to unprocessed candles, and gaps expire", () => {
+  const bars = quietBars(20);
+  const { issues } = validate([...bars.slice(0, 5), { ...bars[6], high: 1.0 }, ...bars.slice(7, 12)]);
+  assertEquals(summary(issues), [["ohlc_inconsistent", "error", bars[6].ts], ["gap", "error", bars[6].ts]]);
+  const blocking = (after: string | null, latest: number) =>
+    summary(blockingCandleIssues(issues, { after, latestTs: bars[latest].ts, intervalMs: M15 })).map(([type]) => type);
+
+  assertEquals(blocking(null, 9), ["ohlc_inconsistent", "gap"]);
+  // Processed candles can no longer change the output.
+  assertEquals(blocking(bars[6].ts, 9), []);
+  // Four bars after the gap nothing will backfill it; the OHLC error still blocks.
+  assertEquals(blocking(bars[4].ts, 10), ["ohlc_inconsistent"]);
+});
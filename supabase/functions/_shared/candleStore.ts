@@ -0,0 +1,57 @@
+import type { createSupabaseAdmin } from "./supabaseAdmin.ts";
+import type { Candle } from "./types.ts";
+
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+// PostgREST caps responses (1000 rows by default), so long ranges are read page by page.
+const PAGE_SIZE = 1000;
+
+export function toCandle(row: Record<string, unknown>): Candle {
+  return {
+    ts: new Date(row.ts as string).toISOString(),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume: row.volume == null ? null : Number(row.volume),
+  };
+}
+
+/**
+ * Loads stored candles for a symbol/timeframe in ascending time order.
+ * `from` is inclusive, `to` is exclusive; `maxCandles` bounds the result size.
+ */
+export async function loadStoredCandles(
+  supabase: SupabaseAdmin,
+  params: {
+    symbol: string;
+    timeframe: string;
+    from?: string | null;
+    to?: string | null;
+    maxCandles?: number;
+  },
+): Promise<Candle[]> {
+  const maxCandles = params.maxCandles ?? Number.POSITIVE_INFINITY;
+  const candles: Candle[] = [];
+
+  while (candles.length < maxCandles) {
+    const pageSize = Math.min(PAGE_SIZE, maxCandles - candles.length);
+    let query = supabase
+      .from("market_candles")
+      .select("ts,open,high,low,close,volume")
+      .eq("symbol", params.symbol)
+      .eq("timeframe", params.timeframe)
+      .order("ts", { ascending: true })
+      .range(candles.length, candles.length + pageSize - 1);
+    if (params.from) query = query.gte("ts", params.from);
+    if (params.to) query = query.lt("ts", params.to);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    const rows = data ?? [];
+    candles.push(...rows.map((r) => toCandle(r as Record<string, unknown>)));
+    if (rows.length < pageSize) break;
+  }
+
+  return candles;
+}
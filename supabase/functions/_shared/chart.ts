@@ -0,0 +1,230 @@
+import type { Candle, Fractal } from "./types.ts";
+
+// Server-side PNG rendering of a candle chart with structure levels. Everything
+// is drawn into an RGB buffer and PNG-encoded here, so no canvas library or
+// chart service is needed.
+
+export type ChartLevelKind = "anchor" | "causalExtreme" | "pbLevel" | "entry" | "stopLoss" | "takeProfit";
+
+export type ChartLevel = { kind: ChartLevelKind; price: number };
+
+type Rgb = readonly [number, number, number];
+
+const WIDTH = 800;
+const HEIGHT = 480;
+const MARGIN = { top: 16, right: 84, bottom: 16, left: 8 };
+
+const BACKGROUND: Rgb = [19, 23, 34];
+const GRID: Rgb = [42, 46, 57];
+const AXIS_TEXT: Rgb = [140, 145, 160];
+const BULL: Rgb = [38, 166, 154];
+const BEAR: Rgb = [239, 83, 80];
+const FSH_MARK: Rgb = [255, 152, 0];
+const FSL_MARK: Rgb = [0, 188, 212];
+
+// Colors match the emoji legend of the chart caption (telegramTemplates.ts).
+const LEVEL_STYLE: Record<ChartLevelKind, { color: Rgb; dashed: boolean; thickness: number }> = {
+  anchor: { color: [66, 133, 244], dashed: true, thickness: 1 },
+  causalExtreme: { color: [171, 71, 188], dashed: true, thickness: 1 },
+  pbLevel: { color: [253, 216, 53], dashed: true, thickness: 1 },
+  entry: { color: [236, 239, 241], dashed: false, thickness: 1 },
+  stopLoss: { color: [244, 67, 54], dashed: false, thickness: 2 },
+  takeProfit: { color: [76, 175, 80], dashed: false, thickness: 2 },
+};
+
+// 3x5 glyphs for price labels, one string per row.
+const GLYPHS: Record<string, string[]> = {
+  "0": ["###", "#.#", "#.#", "#.#", "###"],
+  "1": [".#.", "##.", ".#.", ".#.", "###"],
+  "2": ["###", "..#", "###", "#..", "###"],
+  "3": ["###", "..#", "###", "..#", "###"],
+  "4": ["#.#", "#.#", "###", "..#", "..#"],
+  "5": ["###", "#..", "###", "..#", "###"],
+  "6": ["###", "#..", "###", "#.#", "###"],
+  "7": ["###", "..#", "..#", "..#", "..#"],
+  "8": ["###", "#.#", "###", "#.#", "###"],
+  "9": ["###", "#.#", "###", "..#", "###"],
+  ".": ["...", "...", "...", "...", ".#."],
+  "-": ["...", "...", "###", "...", "..."],
+};
+const GLYPH_SCALE = 2;
+
+type Raster = { width: number; height: number; pixels: Uint8Array };
+
+function createRaster(width: number, height: number, fill: Rgb): Raster {
+  const pixels = new Uint8Array(width * height * 3);
+  for (let i = 0; i < pixels.length; i += 3) pixels.set(fill, i);
+  return { width, height, pixels };
+}
+
+function fillRect(r: Raster, x0: number, y0: number, x1: number, y1: number, color: Rgb): void {
+  const xa = Math.max(0, Math.min(x0, x1));
+  const xb = Math.min(r.width - 1, Math.max(x0, x1));
+  const ya = Math.max(0, Math.min(y0, y1));
+  const yb = Math.min(r.height - 1, Math.max(y0, y1));
+  for (let y = ya; y <= yb; y++) {
+    for (let x = xa; x <= xb; x++) r.pixels.set(color, (y * r.width + x) * 3);
+  }
+}
+
+function horizontalLine(r: Raster, y: number, x0: number, x1: number, color: Rgb, dashed: boolean, thickness: number) {
+  for (let x = x0; x <= x1; x++) {
+    if (dashed && x % 8 >= 5) continue;
+    fillRect(r, x, y, x, y + thickness - 1, color);
+  }
+}
+
+function drawText(r: Raster, x: number, y: number, text: string, color: Rgb): void {
+  let cx = x;
+  for (const ch of text) {
+    const glyph = GLYPHS[ch];
+    if (glyph) {
+      glyph.forEach((row, gy) => {
+        [...row].forEach((cell, gx) => {
+          if (cell !== "#") return;
+          const px = cx + gx * GLYPH_SCALE;
+          const py = y + gy * GLYPH_SCALE;
+          fillRect(r, px, py, px + GLYPH_SCALE - 1, py + GLYPH_SCALE - 1, color);
+        });
+      });
+    }
+    cx += 4 * GLYPH_SCALE;
+  }
+}
+
+// Small filled triangle pointing up (below a low) or down (above a high).
+function drawMarker(r: Raster, cx: number, tipY: number, pointsUp: boolean, color: Rgb): void {
+  for (let row = 0; row < 5; row++) {
+    const y = pointsUp ? tipY + row : tipY - row;
+    fillRect(r, cx - row, y, cx + row, y, color);
+  }
+}
+
+function formatPrice(price: number, decimals: number): string {
+  return price.toFixed(decimals);
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// CompressionStream("deflate") emits the zlib format PNG expects in IDAT.
+async function zlibDeflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Encodes an RGB raster as an 8-bit truecolor PNG. */
+async function encodePng(r: Raster): Promise<Uint8Array> {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, r.width);
+  view.setUint32(4, r.height);
+  header.set([8, 2, 0, 0, 0], 8); // bit depth 8, truecolor, deflate, no filter, no interlace
+
+  const stride = r.width * 3;
+  const scanlines = new Uint8Array((stride + 1) * r.height);
+  for (let y = 0; y < r.height; y++) {
+    scanlines[y * (stride + 1)] = 0; // filter type: none
+    scanlines.set(r.pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", await zlibDeflate(scanlines)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    png.set(p, offset);
+    offset += p.length;
+  }
+  return png;
+}
+
+/**
+ * Renders candles (ascending) with fractal markers and horizontal levels as a
+ * PNG. Fractal indexes refer to positions in `candles`. The price range always
+ * includes every level, so a distant SL/TP stays visible.
+ */
+export function renderStructureChart(params: {
+  candles: Candle[];
+  fractals: Fractal[];
+  levels: ChartLevel[];
+  priceDecimals?: number;
+}): Promise<Uint8Array> {
+  const { candles, fractals, levels } = params;
+  const decimals = params.priceDecimals ?? 5;
+  const r = createRaster(WIDTH, HEIGHT, BACKGROUND);
+  const plotLeft = MARGIN.left;
+  const plotRight = WIDTH - MARGIN.right;
+  const plotTop = MARGIN.top;
+  const plotBottom = HEIGHT - MARGIN.bottom;
+
+  const prices = [...candles.flatMap((c) => [c.high, c.low]), ...levels.map((l) => l.price)];
+  if (prices.length === 0) return encodePng(r);
+  let min = Math.min(...prices);
+  let max = Math.max(...prices);
+  const pad = (max - min || Math.abs(max) * 0.001 || 1) * 0.05;
+  min -= pad;
+  max += pad;
+  const yOf = (price: number) => Math.round(plotBottom - ((price - min) / (max - min)) * (plotBottom - plotTop));
+
+  for (let i = 0; i <= 4; i++) {
+    const price = min + ((max - min) * i) / 4;
+    const y = yOf(price);
+    horizontalLine(r, y, plotLeft, plotRight, GRID, false, 1);
+    drawText(r, plotRight + 6, y - 5, formatPrice(price, decimals), AXIS_TEXT);
+  }
+
+  const slot = (plotRight - plotLeft) / Math.max(candles.length, 1);
+  const bodyHalf = Math.max(1, Math.floor(slot * 0.35));
+  const xOf = (i: number) => Math.round(plotLeft + slot * (i + 0.5));
+  candles.forEach((c, i) => {
+    const x = xOf(i);
+    const color = c.close >= c.open ? BULL : BEAR;
+    fillRect(r, x, yOf(c.high), x, yOf(c.low), color);
+    fillRect(r, x - bodyHalf, yOf(c.open), x + bodyHalf, yOf(c.close), color);
+  });
+
+  for (const f of fractals) {
+    const c = candles[f.index];
+    if (!c) continue;
+    if (f.type === "FSH") drawMarker(r, xOf(f.index), yOf(c.high) - 4, false, FSH_MARK);
+    else drawMarker(r, xOf(f.index), yOf(c.low) + 4, true, FSL_MARK);
+  }
+
+  for (const level of levels) {
+    const style = LEVEL_STYLE[level.kind];
+    const y = yOf(level.price);
+    horizontalLine(r, y, plotLeft, plotRight, style.color, style.dashed, style.thickness);
+    fillRect(r, plotRight + 2, y - 7, WIDTH - 2, y + 7, style.color);
+    drawText(r, plotRight + 6, y - 5, formatPrice(level.price, decimals), BACKGROUND);
+  }
+
+  return encodePng(r);
+}
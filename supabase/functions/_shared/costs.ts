@@ -0,0 +1,53 @@
+import { findTradingWindow, parseTradingWindows } from "./filters.ts";
+import type { EngineTrade, SessionSpread, StrategyConfig, TradeCosts } from "./types.ts";
+
+function round2(n: number): number {
+  return Number(n.toFixed(2));
+}
+
+/** Valid `sessionSpreads` entries of an untrusted config value; invalid entries are dropped. */
+export function resolveSessionSpreads(raw: unknown): SessionSpread[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry) => {
+    const o = entry && typeof entry === "object" ? entry as Record<string, unknown> : {};
+    const pips = typeof o.spreadPips === "string" ? Number(o.spreadPips) : o.spreadPips;
+    if (typeof o.window !== "string" || typeof pips !== "number" || !Number.isFinite(pips) || pips < 0) return [];
+    try {
+      const windows = parseTradingWindows(o.window);
+      return windows.length === 1 ? [{ window: windows[0].label, spreadPips: pips }] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/** Spread in pips at `ts`: the first session spread whose UTC window contains it, else `spreadPips`. */
+export function spreadPipsAt(config: StrategyConfig, ts: string): number {
+  const windows = config.sessionSpreads.flatMap((s) =>
+    parseTradingWindows(s.window).map((w) => ({ ...w, spreadPips: s.spreadPips }))
+  );
+  return findTradingWindow(new Date(ts), windows)?.spreadPips ?? config.spreadPips;
+}
+
+/**
+ * Costs of a closed trade, weighted by the share of the position each exit
+ * closed. Candles are mid prices, so half the spread is paid on the entry and
+ * half on every exit. Slippage applies to market fills (entry, SL and time
+ * exits), not to take-profit limits. Commission is charged once per round turn.
+ */
+export function closedTradeCosts(trade: EngineTrade, config: StrategyConfig): TradeCosts {
+  const exits = [
+    ...trade.partialExits.map((p) => ({ time: p.time, fraction: p.fraction, market: false })),
+    { time: trade.exitTime ?? trade.entryTime, fraction: trade.remainingFraction, market: trade.exitReason !== "TP" },
+  ];
+  const spreadPips = spreadPipsAt(config, trade.entryTime) / 2 +
+    exits.reduce((sum, e) => sum + e.fraction * spreadPipsAt(config, e.time) / 2, 0);
+  const slippagePips = config.slippagePips * (1 + exits.reduce((sum, e) => sum + (e.market ? e.fraction : 0), 0));
+  const commissionPips = config.commissionPerLot / config.pipValuePerLot;
+  return {
+    spreadPips: round2(spreadPips),
+    slippagePips: round2(slippagePips),
+    commissionPips: round2(commissionPips),
+    totalPips: round2(spreadPips + slippagePips + commissionPips),
+  };
+}
@@ -0,0 +1,89 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { closedTradeCosts, resolveSessionSpreads, spreadPipsAt } from "./costs.ts";
+import { resolveStrategyConfig } from "./strategy.ts";
+import type { EngineTrade } from "./types.ts";
+
+function closedTrade(overrides: Partial<EngineTrade> = {}): EngineTrade {
+  return {
+    tradeKey: "k:trade",
+    signalKey: "k",
+    symbol: "EUR/USD",
+    timeframe: "15min",
+    direction: "LONG",
+    entryTime: "2026-01-05T10:00:00.000Z",
+    entryPrice: 1.1,
+    stopLoss: 1.098,
+    initialStopLoss: 1.098,
+    takeProfit: 1.104,
+    takeProfit2: null,
+    exitTime: "2026-01-05T12:00:00.000Z",
+    exitPrice: 1.098,
+    exitReason: "SL",
+    exitResolution: null,
+    rMultiple: -1,
+    netRMultiple: null,
+    costs: null,
+    status: "CLOSED",
+    partialExits: [],
+    remainingFraction: 1,
+    stopAdjustments: [],
+    payload: {},
+    ...overrides,
+  };
+}
+
+Deno.test("resolveSessionSpreads keeps valid single-window entries only", () => {
+  assertEquals(
+    resolveSessionSpreads([
+      { window: "20:45-22:15", spreadPips: 2.5 },
+      { window: "07:00-08:00", spreadPips: "1.2" },
+      { window: "07:00-08:00,09:00-10:00", spreadPips: 1 },
+      { window: "25:00-26:00", spreadPips: 1 },
+      { window: "10:00-11:00", spreadPips: -1 },
+      "10:00-11:00",
+    ]),
+    [{ window: "20:45-22:15", spreadPips: 2.5 }, { window: "07:00-08:00", spreadPips: 1.2 }],
+  );
+  assertEquals(resolveSessionSpreads(null), []);
+});
+
+Deno.test("spreadPipsAt uses the first matching UTC window, else the fixed spread", () => {
+  const config = resolveStrategyConfig({
+    spreadPips: 0.8,
+    sessionSpreads: [{ window: "21:00-01:00", spreadPips: 3 }, { window: "00:00-02:00", spreadPips: 2 }],
+  });
+  assertEquals(spreadPipsAt(config, "2026-01-05T10:00:00.000Z"), 0.8);
+  assertEquals(spreadPipsAt(config, "2026-01-05T21:00:00.000Z"), 3);
+  assertEquals(spreadPipsAt(config, "2026-01-06T00:30:00.000Z"), 3);
+  assertEquals(spreadPipsAt(config, "2026-01-06T01:30:00.000Z"), 2);
+});
+
+Deno.test("market exits pay slippage, take-profit limits do not", () => {
+  const config = resolveStrategyConfig({ spreadPips: 1, slippagePips: 0.5, commissionPerLot: 7 });
+  // Half the spread on entry and exit, slippage on both market fills, 7 / 10 pips commission.
+  assertEquals(closedTradeCosts(closedTrade(), config), {
+    spreadPips: 1,
+    slippagePips: 1,
+    commissionPips: 0.7,
+    totalPips: 2.7,
+  });
+  assertEquals(closedTradeCosts(closedTrade({ exitReason: "TP", exitPrice: 1.104 }), config).slippagePips, 0.5);
+});
+
+Deno.test("partial exits are weighted by the share they closed", () => {
+  const config = resolveStrategyConfig({
+    spreadPips: 1,
+    slippagePips: 1,
+    sessionSpreads: [{ window: "12:00-13:00", spreadPips: 3 }],
+  });
+  const costs = closedTradeCosts(
+    closedTrade({
+      partialExits: [{ leg: "TP1", time: "2026-01-05T11:00:00.000Z", price: 1.102, fraction: 0.5, rMultiple: 1 }],
+      remainingFraction: 0.5,
+    }),
+    config,
+  );
+  // Spread: 0.5 entry + 0.5 * 0.5 (TP1) + 0.5 * 1.5 (SL in the 3-pip window) = 1.5.
+  // Slippage: entry 1 + the SL half 0.5; the TP1 limit fills at its price.
+  assertEquals(costs, { spreadPips: 1.5, slippagePips: 1.5, commissionPips: 0, totalPips: 3 });
+});
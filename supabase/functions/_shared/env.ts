@@ -1,7 +1,12 @@
+import type { ExecutionMode } from "./approvals.ts";
+import type { CandleQualityMode } from "./candleQuality.ts";
+import type { NewsImpact, SessionTimezone } from "./filters.ts";
+import type { HtfCandleSource } from "./htfBias.ts";
+
 export type RuntimeEnv = {
   supabaseUrl: string;
   supabaseServiceRoleKey: string;
-  twelveDataApiKey: string;
+  twelveDataApiKey: string | null;
   telegramBotToken: string;
   telegramChatId: string;
   cronSecret: string;
@@ -9,9 +14,34 @@ export type RuntimeEnv = {
   signalTimeframe: string;
   signalLookbackCandles: number;
   twelveDataOutputsize: number;
+  twelveDataMinIntervalMs: number;
+  candleProviders: string[];
+  ohlcHttpUrl: string | null;
+  ohlcHttpApiKey: string | null;
+  candleQualityMode: CandleQualityMode;
+  candleSpikeMultiple: number;
+  signalSessions: string | null;
+  signalSessionTimezone: SessionTimezone;
+  signalFridayCutoffUtc: string | null;
+  signalSundayOpenDelayMinutes: number;
+  newsBlackoutMinImpact: NewsImpact | "off";
+  htfBiasTimeframes: string[];
+  htfBiasSource: HtfCandleSource;
+  htfBiasLookbackCandles: number;
+  htfBiasNeutral: "allow" | "block";
   executorBaseUrl: string | null;
   executorWebhookSecret: string | null;
   ctraderOrderVolumeUnits: number;
+  executionMode: ExecutionMode;
+  guardrailMaxDailyLossR: number;
+  guardrailMaxWeeklyLossR: number;
+  guardrailMaxDailyLossPercent: number;
+  guardrailMaxWeeklyLossPercent: number;
+  guardrailRiskPercentPerTrade: number;
+  guardrailMaxConsecutiveLosses: number;
+  guardrailMaxTradesPerDay: number;
+  guardrailLossCooldownMinutes: number;
+  guardrailTimezone: SessionTimezone;
   telegramAllowedChatIds: string[];
   telegramWebhookSecret: string | null;
 };
@@ -32,13 +62,30 @@ function optionalInt(name: string, fallback: number): number {
   return parsed;
 }
 
+function optionalEnum<T extends string>(name: string, fallback: T, allowed: readonly T[]): T {
+  const raw = Deno.env.get(name);
+  if (!raw) return fallback;
+  return (allowed as readonly string[]).includes(raw) ? raw as T : fallback;
+}
+
+function optionalNumber(name: string, fallback: number): number {
+  const raw = Deno.env.get(name);
+  if (!raw) return fallback;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
 export function getEnv(): RuntimeEnv {
   const allowedRaw = Deno.env.get("TELEGRAM_ALLOWED_CHAT_IDS") ?? (Deno.env.get("TELEGRAM_CHAT_ID") ?? "");
   const telegramAllowedChatIds = allowedRaw.split(",").map((v) => v.trim()).filter((v) => v.length > 0);
+  const candleProviders = (Deno.env.get("CANDLE_PROVIDERS") ?? "twelvedata")
+    .split(",").map((v) => v.trim().toLowerCase()).filter((v) => v.length > 0);
+  const htfBiasTimeframes = (Deno.env.get("HTF_BIAS_TIMEFRAMES") ?? "")
+    .split(",").map((v) => v.trim()).filter((v) => v.length > 0);
   return {
     supabaseUrl: required("SUPABASE_URL"),
     supabaseServiceRoleKey: required("SUPABASE_SERVICE_ROLE_KEY"),
-    twelveDataApiKey: required("TWELVE_DATA_API_KEY"),
+    twelveDataApiKey: Deno.env.get("TWELVE_DATA_API_KEY") ?? null,
     telegramBotToken: required("TELEGRAM_BOT_TOKEN"),
     telegramChatId: required("TELEGRAM_CHAT_ID"),
     cronSecret: required("CRON_SECRET"),
@@ -46,9 +93,34 @@ export function getEnv(): RuntimeEnv {
     signalTimeframe: Deno.env.get("SIGNAL_TIMEFRAME") ?? "15min",
     signalLookbackCandles: optionalInt("SIGNAL_LOOKBACK_CANDLES", 1500),
     twelveDataOutputsize: optionalInt("TWELVE_DATA_OUTPUTSIZE", 5000),
+    twelveDataMinIntervalMs: optionalInt("TWELVE_DATA_MIN_INTERVAL_MS", 8000),
+    candleProviders,
+    ohlcHttpUrl: Deno.env.get("OHLC_HTTP_URL") ?? null,
+    ohlcHttpApiKey: Deno.env.get("OHLC_HTTP_API_KEY") ?? null,
+    candleQualityMode: optionalEnum("CANDLE_QUALITY_MODE", "warn", ["off", "warn", "block"]),
+    candleSpikeMultiple: optionalNumber("CANDLE_SPIKE_MULTIPLE", 8),
+    signalSessions: Deno.env.get("SIGNAL_SESSIONS") ?? null,
+    signalSessionTimezone: optionalEnum("SIGNAL_SESSION_TZ", "UTC", ["UTC", "EAT"]),
+    signalFridayCutoffUtc: Deno.env.get("SIGNAL_FRIDAY_CUTOFF_UTC") ?? null,
+    signalSundayOpenDelayMinutes: optionalInt("SIGNAL_SUNDAY_OPEN_DELAY_MINUTES", 0),
+    newsBlackoutMinImpact: optionalEnum("NEWS_BLACKOUT_MIN_IMPACT", "high", ["off", "low", "medium", "high"]),
+    htfBiasTimeframes,
+    htfBiasSource: optionalEnum("HTF_BIAS_SOURCE", "aggregate", ["aggregate", "fetch"]),
+    htfBiasLookbackCandles: optionalInt("HTF_BIAS_LOOKBACK_CANDLES", 120),
+    htfBiasNeutral: optionalEnum("HTF_BIAS_NEUTRAL", "block", ["allow", "block"]),
     executorBaseUrl: Deno.env.get("EXECUTOR_BASE_URL"),
     executorWebhookSecret: Deno.env.get("EXECUTOR_WEBHOOK_SECRET"),
     ctraderOrderVolumeUnits: optionalInt("CTRADER_ORDER_VOLUME_UNITS", 10000),
+    executionMode: optionalEnum("EXECUTION_MODE", "auto", ["auto", "approval"]),
+    guardrailMaxDailyLossR: optionalNumber("GUARDRAIL_MAX_DAILY_LOSS_R", 0),
+    guardrailMaxWeeklyLossR: optionalNumber("GUARDRAIL_MAX_WEEKLY_LOSS_R", 0),
+    guardrailMaxDailyLossPercent: optionalNumber("GUARDRAIL_MAX_DAILY_LOSS_PERCENT", 0),
+    guardrailMaxWeeklyLossPercent: optionalNumber("GUARDRAIL_MAX_WEEKLY_LOSS_PERCENT", 0),
+    guardrailRiskPercentPerTrade: optionalNumber("GUARDRAIL_RISK_PERCENT_PER_TRADE", 1),
+    guardrailMaxConsecutiveLosses: optionalInt("GUARDRAIL_MAX_CONSECUTIVE_LOSSES", 0),
+    guardrailMaxTradesPerDay: optionalInt("GUARDRAIL_MAX_TRADES_PER_DAY", 0),
+    guardrailLossCooldownMinutes: optionalInt("GUARDRAIL_LOSS_COOLDOWN_MINUTES", 0),
+    guardrailTimezone: optionalEnum("GUARDRAIL_TZ", "UTC", ["UTC", "EAT"]),
     telegramAllowedChatIds,
     telegramWebhookSecret: Deno.env.get("TELEGRAM_WEBHOOK_SECRET"),
   };
@@ -0,0 +1,15 @@
+/** Wakes the executor so queued broker requests are sent without waiting for its poll. */
+export async function triggerExecutorWebhook(baseUrl: string, secret: string | null, source: string) {
+  const url = `${baseUrl.replace(/\/$/, "")}/webhook/queued`;
+  const headers: HeadersInit = { "Content-Type": "application/json" };
+  if (secret) headers["x-executor-secret"] = secret;
+  try {
+    await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ source }),
+    });
+  } catch (e) {
+    console.error("Executor webhook failed", e);
+  }
+}
@@ -0,0 +1,99 @@
+import type { createSupabaseAdmin } from "./supabaseAdmin.ts";
+
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+export type FakeRow = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for the Supabase client, for tests. Supports the query
+ * builder calls the shared modules use; `.or()` filters are not interpreted
+ * and keep every row. Rows are changed in place, so tests can inspect them.
+ * `failWrite` makes matching updates/upserts return an error instead.
+ */
+export function fakeSupabase(
+  tables: Record<string, FakeRow[]>,
+  options: { failWrite?: (table: string, values: FakeRow) => boolean } = {},
+): SupabaseAdmin {
+  const from = (table: string) => {
+    const rows = tables[table] ??= [];
+    const filters: ((row: FakeRow) => boolean)[] = [];
+    let patch: FakeRow | null = null;
+    let upserts: { values: FakeRow[]; onConflict: string[] } | null = null;
+    let sort: { column: string; ascending: boolean } | null = null;
+    let max: number | null = null;
+    let single = false;
+
+    const run = () => {
+      const written = patch ? [patch] : upserts?.values ?? [];
+      if (written.some((values) => options.failWrite?.(table, values))) {
+        return { data: null, error: { message: `write to ${table} failed` } };
+      }
+      if (upserts) {
+        for (const values of upserts.values) {
+          const conflict = upserts.onConflict;
+          const existing = rows.find((row) => conflict.every((c) => row[c] === values[c]));
+          if (existing) Object.assign(existing, values);
+          else rows.push({ ...values });
+        }
+        return { data: null, error: null };
+      }
+      let matched = rows.filter((row) => filters.every((f) => f(row)));
+      if (patch) for (const row of matched) Object.assign(row, patch);
+      if (sort) {
+        const { column, ascending } = sort;
+        matched = [...matched].sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1));
+      }
+      if (max != null) matched = matched.slice(0, max);
+      const data = matched.map((row) => ({ ...row }));
+      return { data: single ? data[0] ?? null : data, error: null };
+    };
+
+    const builder = {
+      select: () => builder,
+      update: (values: FakeRow) => {
+        patch = values;
+        return builder;
+      },
+      upsert: (values: FakeRow | FakeRow[], options: { onConflict?: string } = {}) => {
+        upserts = { values: [values].flat(), onConflict: (options.onConflict ?? "id").split(",") };
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      neq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] !== value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      gte: (column: string, value: string) => {
+        filters.push((row) => String(row[column]) >= value);
+        return builder;
+      },
+      lte: (column: string, value: string) => {
+        filters.push((row) => String(row[column]) <= value);
+        return builder;
+      },
+      or: () => builder,
+      order: (column: string, options: { ascending?: boolean } = {}) => {
+        sort = { column, ascending: options.ascending ?? true };
+        return builder;
+      },
+      limit: (n: number) => {
+        max = n;
+        return builder;
+      },
+      maybeSingle: () => {
+        single = true;
+        return builder;
+      },
+      then: (resolve: (result: ReturnType<typeof run>) => void) => resolve(run()),
+    };
+    return builder;
+  };
+  return { from } as unknown as SupabaseAdmin;
+}
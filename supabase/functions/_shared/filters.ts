@@ -0,0 +1,177 @@
+import type { RuntimeEnv } from "./env.ts";
+import type { createSupabaseAdmin } from "./supabaseAdmin.ts";
+import type { EngineSignal } from "./types.ts";
+
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+export type SessionTimezone = "UTC" | "EAT";
+export type NewsImpact = "low" | "medium" | "high";
+
+// Minutes since midnight in the session timezone; end < start wraps past midnight.
+export type TradingWindow = { start: number; end: number; label: string };
+
+export type EconomicEvent = {
+  eventTime: string;
+  currency: string;
+  title: string;
+  impact: NewsImpact;
+  blackoutBeforeMinutes: number;
+  blackoutAfterMinutes: number;
+};
+
+export type SignalFilterSettings = {
+  sessions: TradingWindow[]; // empty = trade around the clock
+  sessionTimezone: SessionTimezone;
+  fridayCutoffMinute: number | null; // UTC minute of day after which Friday signals are dropped
+  sundayOpenDelayMinutes: number; // minutes after the Sunday open without signals (0 = off)
+  newsMinImpact: NewsImpact | "off";
+};
+
+const EAT_OFFSET_MINUTES = 180; // Africa/Nairobi, no daylight saving
+const IMPACT_RANK: Record<NewsImpact, number> = { low: 1, medium: 2, high: 3 };
+// Latest weekly open (winter): Sunday 22:00 UTC.
+const SUNDAY_OPEN_MINUTE = 22 * 60;
+
+function parseClock(raw: string): number {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(raw.trim());
+  if (!m || Number(m[1]) > 24 || Number(m[2]) > 59) throw new Error(`Invalid time "${raw}" (expected HH:MM)`);
+  return Math.min(Number(m[1]) * 60 + Number(m[2]), 24 * 60);
+}
+
+/** Parses "07:00-11:00,12:30-16:00" into trading windows. */
+export function parseTradingWindows(raw: string | null | undefined): TradingWindow[] {
+  if (!raw?.trim()) return [];
+  return raw.split(",").map((part) => part.trim()).filter(Boolean).map((part) => {
+    const [from, to] = part.split("-");
+    if (!from || !to) throw new Error(`Invalid session window "${part}" (expected HH:MM-HH:MM)`);
+    return { start: parseClock(from), end: parseClock(to), label: part };
+  });
+}
+
+/** Filter settings from `SIGNAL_SESSIONS`, `SIGNAL_SESSION_TZ`, `SIGNAL_FRIDAY_CUTOFF_UTC`, ... */
+export function signalFilterSettings(env: RuntimeEnv): SignalFilterSettings {
+  return {
+    sessions: parseTradingWindows(env.signalSessions),
+    sessionTimezone: env.signalSessionTimezone,
+    fridayCutoffMinute: env.signalFridayCutoffUtc ? parseClock(env.signalFridayCutoffUtc) : null,
+    sundayOpenDelayMinutes: env.signalSundayOpenDelayMinutes,
+    newsMinImpact: env.newsBlackoutMinImpact,
+  };
+}
+
+function formatClock(minute: number): string {
+  return `${String(Math.floor(minute / 60)).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}`;
+}
+
+function minuteOfDay(date: Date, offsetMinutes: number): number {
+  const m = date.getUTCHours() * 60 + date.getUTCMinutes() + offsetMinutes;
+  return ((m % 1440) + 1440) % 1440;
+}
+
+function inWindow(minute: number, w: TradingWindow): boolean {
+  return w.start <= w.end ? minute >= w.start && minute < w.end : minute >= w.start || minute < w.end;
+}
+
+export function timezoneOffsetMinutes(timezone: SessionTimezone): number {
+  return timezone === "EAT" ? EAT_OFFSET_MINUTES : 0;
+}
+
+/** The first window containing `at`, with window times read in `timezone`. */
+export function findTradingWindow<W extends TradingWindow>(
+  at: Date,
+  windows: W[],
+  timezone: SessionTimezone = "UTC",
+): W | null {
+  const minute = minuteOfDay(at, timezoneOffsetMinutes(timezone));
+  return windows.find((w) => inWindow(minute, w)) ?? null;
+}
+
+function currenciesOf(symbol: string): string[] {
+  const compact = symbol.replace(/[^A-Za-z]/g, "").toUpperCase();
+  return compact.length === 6 ? [compact.slice(0, 3), compact.slice(3)] : [compact];
+}
+
+/**
+ * The moment the signal becomes actionable: the close of the trigger candle,
+ * which is also the planned next-open entry time.
+ */
+export function signalDecisionTime(signal: EngineSignal, intervalMs: number | null): Date {
+  if (signal.plannedEntryTime) return new Date(signal.plannedEntryTime);
+  return new Date(new Date(signal.triggerTime).getTime() + (intervalMs ?? 0));
+}
+
+/** Returns why the signal must be suppressed, or null when it passes every filter. */
+export function evaluateSignalFilters(
+  signal: EngineSignal,
+  settings: SignalFilterSettings,
+  events: EconomicEvent[],
+  intervalMs: number | null,
+): string | null {
+  const at = signalDecisionTime(signal, intervalMs);
+  const utcDay = at.getUTCDay();
+  const utcMinute = minuteOfDay(at, 0);
+
+  const cutoff = settings.fridayCutoffMinute;
+  if (cutoff != null && ((utcDay === 5 && utcMinute >= cutoff) || utcDay === 6)) {
+    return `Friday close: no new trades after ${formatClock(cutoff)} UTC`;
+  }
+
+  if (
+    settings.sundayOpenDelayMinutes > 0 && utcDay === 0 &&
+    utcMinute < SUNDAY_OPEN_MINUTE + settings.sundayOpenDelayMinutes
+  ) {
+    return `Sunday open: no new trades in the first ${settings.sundayOpenDelayMinutes} min of the week`;
+  }
+
+  if (settings.sessions.length > 0) {
+    if (!findTradingWindow(at, settings.sessions, settings.sessionTimezone)) {
+      return `Outside trading sessions (${settings.sessions.map((w) => w.label).join(", ")} ${settings.sessionTimezone})`;
+    }
+  }
+
+  if (settings.newsMinImpact !== "off") {
+    const currencies = currenciesOf(signal.symbol);
+    const minRank = IMPACT_RANK[settings.newsMinImpact];
+    const ms = at.getTime();
+    const hit = events.find((e) => {
+      if (!currencies.includes(e.currency.toUpperCase()) || IMPACT_RANK[e.impact] < minRank) return false;
+      const eventMs = new Date(e.eventTime).getTime();
+      return ms >= eventMs - e.blackoutBeforeMinutes * 60_000 && ms <= eventMs + e.blackoutAfterMinutes * 60_000;
+    });
+    if (hit) {
+      return `News blackout: ${hit.currency} ${hit.title} (${hit.impact}) at ${new Date(hit.eventTime).toISOString()}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Calendar events for the currencies of `symbol` whose blackout can overlap
+ * [from, to]. Blackout windows longer than `maxBlackoutMinutes` are not covered.
+ */
+export async function loadEconomicEvents(
+  supabase: SupabaseAdmin,
+  params: { symbol: string; from: Date; to: Date; minImpact: NewsImpact; maxBlackoutMinutes?: number },
+): Promise<EconomicEvent[]> {
+  const marginMs = (params.maxBlackoutMinutes ?? 24 * 60) * 60_000;
+  const impacts = (Object.keys(IMPACT_RANK) as NewsImpact[])
+    .filter((i) => IMPACT_RANK[i] >= IMPACT_RANK[params.minImpact]);
+  const { data, error } = await supabase
+    .from("economic_calendar_events")
+    .select("event_time,currency,title,impact,blackout_before_minutes,blackout_after_minutes")
+    .in("currency", currenciesOf(params.symbol))
+    .in("impact", impacts)
+    .gte("event_time", new Date(params.from.getTime() - marginMs).toISOString())
+    .lte("event_time", new Date(params.to.getTime() + marginMs).toISOString())
+    .order("event_time", { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map((r) => ({
+    eventTime: String(r.event_time),
+    currency: String(r.currency),
+    title: String(r.title),
+    impact: String(r.impact) as NewsImpact,
+    blackoutBeforeMinutes: Number(r.blackout_before_minutes),
+    blackoutAfterMinutes: Number(r.blackout_after_minutes),
+  }));
+}
@@ -0,0 +1,124 @@
+import { assertEquals, assertNotEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  type EconomicEvent,
+  evaluateSignalFilters,
+  parseTradingWindows,
+  type SignalFilterSettings,
+} from "./filters.ts";
+import type { EngineSignal } from "./types.ts";
+
+const M15 = 15 * 60_000;
+
+const NONE: SignalFilterSettings = {
+  sessions: [],
+  sessionTimezone: "UTC",
+  fridayCutoffMinute: null,
+  sundayOpenDelayMinutes: 0,
+  newsMinImpact: "off",
+};
+
+// A signal whose entry (the decision time) is at `entry`.
+function signalAt(entry: string | null, triggerTime = "2026-01-07T12:00:00.000Z"): EngineSignal {
+  return {
+    signalKey: `k:${entry}`,
+    strategyCode: "test",
+    symbol: "EUR/USD",
+    timeframe: "15min",
+    direction: "LONG",
+    bosTime: triggerTime,
+    triggerTime,
+    plannedEntryTime: entry,
+    plannedEntryPrice: null,
+    entryStatus: "pending_next_open",
+    stopLoss: 1.099,
+    takeProfit: 1.102,
+    takeProfit2: null,
+    impulsePips: 20,
+    anchorLine: 1.1,
+    causalExtreme: 1.1,
+    pbLevel: 1.1,
+    pullbackSwingTarget: 1.102,
+    causeFractalType: "FSL",
+    causeFractalIndex: 0,
+    triggerCandleIndex: 0,
+    metrics: { bosToPullbackStartCandles: 0, pullbackStartToConfirmCandles: 0, confirmToTriggerCandles: 0 },
+    payload: {},
+  };
+}
+
+const filter = (entry: string, settings: Partial<SignalFilterSettings>, events: EconomicEvent[] = []) =>
+  evaluateSignalFilters(signalAt(entry), { ...NONE, ...settings }, events, M15);
+
+Deno.test("no filter configured lets every signal through", () => {
+  assertEquals(filter("2026-01-10T12:00:00.000Z", {}), null);
+});
+
+Deno.test("the Friday cutoff drops signals from the cutoff through Saturday", () => {
+  const settings = { fridayCutoffMinute: 20 * 60 };
+  assertEquals(filter("2026-01-09T19:45:00.000Z", settings), null);
+  assertEquals(filter("2026-01-09T20:00:00.000Z", settings), "Friday close: no new trades after 20:00 UTC");
+  assertEquals(filter("2026-01-10T08:00:00.000Z", settings), "Friday close: no new trades after 20:00 UTC");
+  assertEquals(filter("2026-01-08T23:00:00.000Z", settings), null);
+});
+
+Deno.test("the Sunday-open delay counts from 22:00 UTC", () => {
+  const settings = { sundayOpenDelayMinutes: 60 };
+  assertEquals(
+    filter("2026-01-11T22:45:00.000Z", settings),
+    "Sunday open: no new trades in the first 60 min of the week",
+  );
+  assertEquals(filter("2026-01-11T23:00:00.000Z", settings), null);
+  assertEquals(filter("2026-01-12T00:15:00.000Z", settings), null);
+});
+
+Deno.test("sessions may wrap past midnight, read in UTC or EAT", () => {
+  const sessions = parseTradingWindows("22:00-02:00");
+  assertEquals(filter("2026-01-07T23:30:00.000Z", { sessions }), null);
+  assertEquals(filter("2026-01-08T01:45:00.000Z", { sessions }), null);
+  assertEquals(filter("2026-01-08T02:00:00.000Z", { sessions }), "Outside trading sessions (22:00-02:00 UTC)");
+
+  // 22:00-02:00 EAT is 19:00-23:00 UTC.
+  const eat = { sessions, sessionTimezone: "EAT" as const };
+  assertEquals(filter("2026-01-07T19:30:00.000Z", eat), null);
+  assertEquals(filter("2026-01-07T23:30:00.000Z", eat), "Outside trading sessions (22:00-02:00 EAT)");
+});
+
+Deno.test("without a known entry the decision time is the trigger candle's close", () => {
+  const settings = { ...NONE, sessions: parseTradingWindows("12:15-13:00") };
+  assertEquals(evaluateSignalFilters(signalAt(null, "2026-01-07T12:00:00.000Z"), settings, [], M15), null);
+  assertNotEquals(evaluateSignalFilters(signalAt(null, "2026-01-07T12:00:00.000Z"), settings, [], null), null);
+});
+
+Deno.test("the news blackout covers matching currencies and impacts around the event", () => {
+  const event = (overrides: Partial<EconomicEvent> = {}): EconomicEvent => ({
+    eventTime: "2026-01-07T12:30:00.000Z",
+    currency: "USD",
+    title: "CPI",
+    impact: "high",
+    blackoutBeforeMinutes: 30,
+    blackoutAfterMinutes: 15,
+    ...overrides,
+  });
+  const settings = { newsMinImpact: "medium" as const };
+  const blocked = "News blackout: USD CPI (high) at 2026-01-07T12:30:00.000Z";
+  assertEquals(filter("2026-01-07T12:00:00.000Z", settings, [event()]), blocked);
+  assertEquals(filter("2026-01-07T12:45:00.000Z", settings, [event()]), blocked);
+  assertEquals(filter("2026-01-07T11:59:00.000Z", settings, [event()]), null);
+  assertEquals(filter("2026-01-07T12:46:00.000Z", settings, [event()]), null);
+
+  assertEquals(filter("2026-01-07T12:30:00.000Z", settings, [event({ impact: "low" })]), null);
+  assertEquals(filter("2026-01-07T12:30:00.000Z", settings, [event({ currency: "JPY" })]), null);
+  assertEquals(filter("2026-01-07T12:30:00.000Z", { newsMinImpact: "off" }, [event()]), null);
+});
+
+Deno.test("parseTradingWindows reads HH:MM ranges and rejects anything else", () => {
+  assertEquals(parseTradingWindows("07:00-11:00, 12:30-24:00"), [
+    { start: 420, end: 660, label: "07:00-11:00" },
+    { start: 750, end: 1440, label: "12:30-24:00" },
+  ]);
+  assertEquals(parseTradingWindows(" "), []);
+  assertEquals(parseTradingWindows(null), []);
+  for (const raw of ["07:00", "7-11", "25:00-26:00", "07:60-08:00", "07:00-8am"]) {
+    assertThrows(() => parseTradingWindows(raw), Error, "expected HH:MM");
+  }
+});
@@ -0,0 +1,74 @@
+import type { Candle, Fractal, FractalSource, FractalTieMode, StrategyConfig } from "./types.ts";
+
+// A fractal is a pivot candle whose high (FSH) or low (FSL) stands out from the
+// `(width - 1) / 2` candles on each side. It is confirmed when the last candle of
+// the window closes, so `confirmedAtIndex` lags the pivot by half the window.
+export type FractalRule = {
+  width: number; // odd candle count of the window (3 = classic, 5 = Bill Williams)
+  tieMode: FractalTieMode;
+  source: FractalSource;
+};
+
+export const FRACTAL_TIE_MODES: FractalTieMode[] = ["strict", "first", "last"];
+export const FRACTAL_SOURCES: FractalSource[] = ["wick", "body", "close"];
+
+export function fractalRuleOf(config: StrategyConfig): FractalRule {
+  return { width: config.fractalWidth, tieMode: config.fractalTieMode, source: config.fractalSource };
+}
+
+/** Candles between a pivot and the close that confirms it. */
+export function fractalLag(width: number): number {
+  return (width - 1) / 2;
+}
+
+function pivotHigh(c: Candle, source: FractalSource): number {
+  return source === "wick" ? c.high : source === "body" ? Math.max(c.open, c.close) : c.close;
+}
+
+function pivotLow(c: Candle, source: FractalSource): number {
+  return source === "wick" ? c.low : source === "body" ? Math.min(c.open, c.close) : c.close;
+}
+
+// Whether `cur` stands out from a neighbour `k` (relative to the pivot): strictly,
+// or, for the first/last of equal extremes, level with the neighbours after/before it.
+function beats(cur: number, other: number, k: number, pivot: number, tieMode: FractalTieMode, higher: boolean): boolean {
+  if (cur === other) return tieMode === "first" ? k > pivot : tieMode === "last" ? k < pivot : false;
+  return higher ? cur > other : cur < other;
+}
+
+/**
+ * The fractal with its pivot at absolute index `pivotIndex`, or null when the
+ * window is incomplete or the candle is no pivot. `candles[0]` sits at absolute
+ * index `offset`. A candle that is both a high and a low pivot counts as FSH.
+ */
+export function confirmFractalAt(candles: Candle[], offset: number, pivotIndex: number, rule: FractalRule): Fractal | null {
+  const half = fractalLag(rule.width);
+  if (pivotIndex - half < offset || pivotIndex + half >= offset + candles.length) return null;
+  const cur = candles[pivotIndex - offset];
+  const high = pivotHigh(cur, rule.source);
+  const low = pivotLow(cur, rule.source);
+
+  let isHigh = true;
+  let isLow = true;
+  for (let k = pivotIndex - half; k <= pivotIndex + half; k++) {
+    if (k === pivotIndex) continue;
+    const other = candles[k - offset];
+    if (!beats(high, pivotHigh(other, rule.source), k, pivotIndex, rule.tieMode, true)) isHigh = false;
+    if (!beats(low, pivotLow(other, rule.source), k, pivotIndex, rule.tieMode, false)) isLow = false;
+  }
+
+  if (isHigh) return { type: "FSH", index: pivotIndex, price: high, confirmedAtIndex: pivotIndex + half };
+  if (isLow) return { type: "FSL", index: pivotIndex, price: low, confirmedAtIndex: pivotIndex + half };
+  return null;
+}
+
+/** Every confirmed fractal of a candle series; indexes are positions in `candles`. */
+export function findFractals(candles: Candle[], rule: FractalRule): Fractal[] {
+  const half = fractalLag(rule.width);
+  const fractals: Fractal[] = [];
+  for (let i = half; i < candles.length - half; i++) {
+    const f = confirmFractalAt(candles, 0, i, rule);
+    if (f) fractals.push(f);
+  }
+  return fractals;
+}
@@ -0,0 +1,70 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { confirmFractalAt, findFractals, fractalLag, type FractalRule } from "./fractals.ts";
+import type { Candle } from "./types.ts";
+
+const rule = (overrides: Partial<FractalRule> = {}): FractalRule => ({
+  width: 3,
+  tieMode: "strict",
+  source: "wick",
+  ...overrides,
+});
+
+function bars(rows: number[][]): Candle[] {
+  return rows.map(([open, high, low, close], i) => ({
+    ts: new Date(Date.UTC(2026, 0, 5) + i * 15 * 60_000).toISOString(),
+    open,
+    high,
+    low,
+    close,
+  }));
+}
+
+// Bars with a one-point range below each high.
+const fromHighs = (highs: number[]) => bars(highs.map((h) => [h - 0.5, h, h - 1, h - 0.5]));
+
+Deno.test("fractalLag is half the window", () => {
+  assertEquals([fractalLag(3), fractalLag(5), fractalLag(7)], [1, 2, 3]);
+});
+
+Deno.test("the tie mode decides which of two equal highs is the pivot", () => {
+  const candles = fromHighs([1, 2, 5, 5, 2, 1]);
+  const highs = (tieMode: FractalRule["tieMode"]) =>
+    findFractals(candles, rule({ tieMode })).filter((f) => f.type === "FSH").map((f) => f.index);
+  assertEquals(highs("strict"), []);
+  assertEquals(highs("first"), [2]);
+  assertEquals(highs("last"), [3]);
+});
+
+Deno.test("a wider window needs more candles on each side and confirms later", () => {
+  const candles = fromHighs([1, 4, 2, 6, 3, 2, 1]);
+  assertEquals(findFractals(candles, rule()).map((f) => [f.type, f.index, f.confirmedAtIndex]), [
+    ["FSH", 1, 2],
+    ["FSL", 2, 3],
+    ["FSH", 3, 4],
+  ]);
+  assertEquals(findFractals(candles, rule({ width: 5 })), [{ type: "FSH", index: 3, price: 6, confirmedAtIndex: 5 }]);
+});
+
+Deno.test("the source picks wick, body or close as the pivot price", () => {
+  const candles = bars([
+    [1, 2, 0, 1],
+    [1, 9, 1, 2], // longest wick
+    [4, 4, 2, 3], // highest body
+    [3, 5, 1, 1],
+  ]);
+  const highOf = (source: FractalRule["source"]) =>
+    findFractals(candles, rule({ source })).filter((f) => f.type === "FSH").map((f) => [f.index, f.price]);
+  assertEquals(highOf("wick"), [[1, 9]]);
+  assertEquals(highOf("body"), [[2, 4]]);
+  assertEquals(highOf("close"), [[2, 3]]);
+});
+
+Deno.test("confirmFractalAt takes absolute indexes from the window offset", () => {
+  const candles = fromHighs([1, 4, 2, 6, 3]);
+  assertEquals(confirmFractalAt(candles, 10, 13, rule()), { type: "FSH", index: 13, price: 6, confirmedAtIndex: 14 });
+  assertEquals(confirmFractalAt(candles, 10, 12, rule())?.type, "FSL");
+  // The window would need candles before the offset or after the last one.
+  assertEquals(confirmFractalAt(candles, 10, 10, rule()), null);
+  assertEquals(confirmFractalAt(candles, 10, 14, rule()), null);
+  assertEquals(confirmFractalAt(candles, 10, 13, rule({ width: 5 })), null);
+});
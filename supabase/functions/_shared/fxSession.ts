@@ -0,0 +1,38 @@
+// FX spot trades 24/5: the week opens Sunday ~21:00-22:00 UTC and closes
+// Friday ~21:00-22:00 UTC, depending on US daylight saving. The hour on either
+// edge is treated as "maybe open" so DST shifts never look like data problems.
+
+const HOUR_MS = 60 * 60_000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Offsets from Sunday 00:00 UTC.
+const WEEK_OPEN_EARLIEST = 21 * HOUR_MS; // Sunday 21:00 (summer)
+const WEEK_OPEN_LATEST = 22 * HOUR_MS; // Sunday 22:00 (winter)
+const WEEK_CLOSE_EARLIEST = 5 * DAY_MS + 21 * HOUR_MS; // Friday 21:00 (summer)
+const WEEK_CLOSE_LATEST = 5 * DAY_MS + 22 * HOUR_MS; // Friday 22:00 (winter)
+
+function weekOffset(ts: string | number | Date): number {
+  const d = new Date(ts);
+  return d.getUTCDay() * DAY_MS + (d.getTime() % DAY_MS + DAY_MS) % DAY_MS;
+}
+
+/** True when the FX market is certainly closed (Friday 22:00 to Sunday 21:00 UTC). */
+export function isFxWeekendClosed(ts: string | number | Date): boolean {
+  const offset = weekOffset(ts);
+  return offset >= WEEK_CLOSE_LATEST || offset < WEEK_OPEN_EARLIEST;
+}
+
+/** True when a bar starting at `ts` must exist (excludes the DST edge hours around the weekend). */
+export function isFxBarExpected(ts: string | number | Date): boolean {
+  const offset = weekOffset(ts);
+  return offset >= WEEK_OPEN_LATEST && offset < WEEK_CLOSE_EARLIEST;
+}
+
+/** Number of bars of `intervalMs` in [fromMs, toMs) that must exist in the FX trading week. */
+export function countExpectedFxBars(fromMs: number, toMs: number, intervalMs: number): number {
+  let count = 0;
+  for (let t = Math.ceil(fromMs / intervalMs) * intervalMs; t < toMs; t += intervalMs) {
+    if (isFxBarExpected(t)) count++;
+  }
+  return count;
+}
@@ -0,0 +1,251 @@
+import type { RuntimeEnv } from "./env.ts";
+import { type SessionTimezone, timezoneOffsetMinutes } from "./filters.ts";
+import type { createSupabaseAdmin } from "./supabaseAdmin.ts";
+
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+// Account-level rules checked before new entries are queued. Any tripped rule
+// pauses every instrument until the rule's reset time.
+export type GuardrailRule =
+  | "weekly_loss_r"
+  | "weekly_loss_percent"
+  | "daily_loss_r"
+  | "daily_loss_percent"
+  | "consecutive_losses"
+  | "trades_per_day"
+  | "loss_cooldown";
+
+export type GuardrailSettings = {
+  maxDailyLossR: number; // 0 = off (same for every limit below)
+  maxWeeklyLossR: number;
+  maxDailyLossPercent: number;
+  maxWeeklyLossPercent: number;
+  riskPercentPerTrade: number; // account % lost at -1R, converts R into account %
+  maxConsecutiveLosses: number; // within the current day
+  maxTradesPerDay: number;
+  lossCooldownMinutes: number; // no new entries this long after a losing exit
+  timezone: SessionTimezone; // day starts at 00:00, week on Monday 00:00
+};
+
+export type GuardrailTrade = {
+  signalKey: string;
+  entryTime: string;
+  exitTime: string | null;
+  netR: number | null; // null while open
+};
+
+export type GuardrailBreach = {
+  rule: GuardrailRule;
+  message: string;
+  resumeAt: string; // when the rule resets
+};
+
+const DAY_MS = 86_400_000;
+
+// Entries that never reached the broker do not count against the account.
+const UNTRADED_STATUSES = ["cancelled", "awaiting_approval", "rejected"];
+
+/** Guardrail settings from the `GUARDRAIL_*` env vars. */
+export function guardrailSettings(env: RuntimeEnv): GuardrailSettings {
+  return {
+    maxDailyLossR: env.guardrailMaxDailyLossR,
+    maxWeeklyLossR: env.guardrailMaxWeeklyLossR,
+    maxDailyLossPercent: env.guardrailMaxDailyLossPercent,
+    maxWeeklyLossPercent: env.guardrailMaxWeeklyLossPercent,
+    riskPercentPerTrade: env.guardrailRiskPercentPerTrade,
+    maxConsecutiveLosses: env.guardrailMaxConsecutiveLosses,
+    maxTradesPerDay: env.guardrailMaxTradesPerDay,
+    lossCooldownMinutes: env.guardrailLossCooldownMinutes,
+    timezone: env.guardrailTimezone,
+  };
+}
+
+export function guardrailsEnabled(s: GuardrailSettings): boolean {
+  return [
+    s.maxDailyLossR,
+    s.maxWeeklyLossR,
+    s.maxDailyLossPercent,
+    s.maxWeeklyLossPercent,
+    s.maxConsecutiveLosses,
+    s.maxTradesPerDay,
+    s.lossCooldownMinutes,
+  ].some((v) => v > 0);
+}
+
+/** Start of the day (or Monday-based week) containing `now`, in `timezone`. */
+export function guardrailPeriodStart(now: Date, timezone: SessionTimezone, period: "day" | "week"): Date {
+  const offsetMs = timezoneOffsetMinutes(timezone) * 60_000;
+  const local = now.getTime() + offsetMs;
+  let start = Math.floor(local / DAY_MS) * DAY_MS;
+  if (period === "week") start -= ((new Date(start).getUTCDay() + 6) % 7) * DAY_MS;
+  return new Date(start - offsetMs);
+}
+
+function sumR(trades: GuardrailTrade[]): number {
+  return trades.reduce((sum, t) => sum + (t.netR ?? 0), 0);
+}
+
+/** Every rule tripped at `now`, each with the time it resets. */
+export function evaluateGuardrails(
+  trades: GuardrailTrade[],
+  settings: GuardrailSettings,
+  now = new Date(),
+): GuardrailBreach[] {
+  const dayStart = guardrailPeriodStart(now, settings.timezone, "day").getTime();
+  const weekStart = guardrailPeriodStart(now, settings.timezone, "week").getTime();
+  const nextDay = new Date(dayStart + DAY_MS).toISOString();
+  const nextWeek = new Date(weekStart + 7 * DAY_MS).toISOString();
+  const closed = trades
+    .filter((t) => t.exitTime != null && t.netR != null)
+    .sort((a, b) => a.exitTime!.localeCompare(b.exitTime!));
+  const closedSince = (ms: number) => closed.filter((t) => new Date(t.exitTime!).getTime() >= ms);
+  const dayR = sumR(closedSince(dayStart));
+  const weekR = sumR(closedSince(weekStart));
+  const tz = settings.timezone;
+  const breaches: GuardrailBreach[] = [];
+
+  if (settings.maxWeeklyLossR > 0 && weekR <= -settings.maxWeeklyLossR) {
+    breaches.push({
+      rule: "weekly_loss_r",
+      message: `Weekly loss ${weekR.toFixed(2)}R reached the ${settings.maxWeeklyLossR}R limit`,
+      resumeAt: nextWeek,
+    });
+  }
+  const weekPercent = weekR * settings.riskPercentPerTrade;
+  if (settings.maxWeeklyLossPercent > 0 && weekPercent <= -settings.maxWeeklyLossPercent) {
+    breaches.push({
+      rule: "weekly_loss_percent",
+      message: `Weekly loss ${weekPercent.toFixed(2)}% reached the ${settings.maxWeeklyLossPercent}% limit`,
+      resumeAt: nextWeek,
+    });
+  }
+  if (settings.maxDailyLossR > 0 && dayR <= -settings.maxDailyLossR) {
+    breaches.push({
+      rule: "daily_loss_r",
+      message: `Daily loss ${dayR.toFixed(2)}R reached the ${settings.maxDailyLossR}R limit`,
+      resumeAt: nextDay,
+    });
+  }
+  const dayPercent = dayR * settings.riskPercentPerTrade;
+  if (settings.maxDailyLossPercent > 0 && dayPercent <= -settings.maxDailyLossPercent) {
+    breaches.push({
+      rule: "daily_loss_percent",
+      message: `Daily loss ${dayPercent.toFixed(2)}% reached the ${settings.maxDailyLossPercent}% limit`,
+      resumeAt: nextDay,
+    });
+  }
+
+  if (settings.maxConsecutiveLosses > 0) {
+    const today = closedSince(dayStart);
+    let streak = 0;
+    for (let i = today.length - 1; i >= 0 && (today[i].netR ?? 0) < 0; i--) streak++;
+    if (streak >= settings.maxConsecutiveLosses) {
+      breaches.push({
+        rule: "consecutive_losses",
+        message: `${streak} consecutive losses today (limit ${settings.maxConsecutiveLosses}, ${tz} day)`,
+        resumeAt: nextDay,
+      });
+    }
+  }
+
+  if (settings.maxTradesPerDay > 0) {
+    const count = trades.filter((t) => new Date(t.entryTime).getTime() >= dayStart).length;
+    if (count >= settings.maxTradesPerDay) {
+      breaches.push({
+        rule: "trades_per_day",
+        message: `${count} trades today (limit ${settings.maxTradesPerDay}, ${tz} day)`,
+        resumeAt: nextDay,
+      });
+    }
+  }
+
+  const last = closed[closed.length - 1];
+  if (settings.lossCooldownMinutes > 0 && last && (last.netR ?? 0) < 0) {
+    const until = new Date(last.exitTime!).getTime() + settings.lossCooldownMinutes * 60_000;
+    if (until > now.getTime()) {
+      breaches.push({
+        rule: "loss_cooldown",
+        message: `Cooldown of ${settings.lossCooldownMinutes} min after the loss of ${last.signalKey}`,
+        resumeAt: new Date(until).toISOString(),
+      });
+    }
+  }
+
+  return breaches;
+}
+
+/**
+ * Trades that can trip a rule at `now`: entered or exited since the start of the
+ * week (or the cooldown window), across every instrument, limited to signals
+ * whose entry reached the broker queue.
+ */
+export async function loadGuardrailTrades(
+  supabase: SupabaseAdmin,
+  settings: GuardrailSettings,
+  now = new Date(),
+): Promise<GuardrailTrade[]> {
+  const since = new Date(Math.min(
+    guardrailPeriodStart(now, settings.timezone, "week").getTime(),
+    now.getTime() - settings.lossCooldownMinutes * 60_000,
+  )).toISOString();
+  const { data, error } = await supabase
+    .from("strategy_trades")
+    .select("signal_key,entry_time,exit_time,r_multiple,net_r_multiple,status")
+    .or(`entry_time.gte."${since}",exit_time.gte."${since}"`)
+    .order("entry_time", { ascending: true });
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const { data: requests, error: requestErr } = await supabase
+    .from("broker_order_requests")
+    .select("signal_key,status")
+    .eq("order_type", "MARKET")
+    .in("signal_key", data.map((t) => String(t.signal_key)));
+  if (requestErr) throw requestErr;
+  const traded = new Set(
+    (requests ?? []).filter((r) => !UNTRADED_STATUSES.includes(String(r.status))).map((r) => String(r.signal_key)),
+  );
+
+  return data.filter((t) => traded.has(String(t.signal_key))).map((t) => {
+    // Trades closed before the cost model have no net R; gross R stands in.
+    const r = t.net_r_multiple ?? t.r_multiple;
+    return {
+      signalKey: String(t.signal_key),
+      entryTime: String(t.entry_time),
+      exitTime: t.status === "CLOSED" && t.exit_time ? String(t.exit_time) : null,
+      netR: t.status === "CLOSED" && r != null ? Number(r) : null,
+    };
+  });
+}
+
+export type GuardrailCheck = {
+  candidates: string[]; // ready signals whose entry is not queued yet
+  breaches: GuardrailBreach[];
+};
+
+/**
+ * Checks the guardrails before the entries of `signalKeys` are queued. A ready
+ * signal is emitted again by later runs (the forming-candle preview, then the
+ * fill), so signals that already have a MARKET request are not held back a
+ * second time, and no candidate counts towards its own limits.
+ */
+export async function checkGuardrailsForSignals(
+  supabase: SupabaseAdmin,
+  settings: GuardrailSettings,
+  signalKeys: string[],
+  now = new Date(),
+): Promise<GuardrailCheck> {
+  if (signalKeys.length === 0) return { candidates: [], breaches: [] };
+  const { data, error } = await supabase
+    .from("broker_order_requests")
+    .select("signal_key")
+    .eq("order_type", "MARKET")
+    .in("signal_key", signalKeys);
+  if (error) throw error;
+  const queued = new Set((data ?? []).map((r) => String(r.signal_key)));
+  const candidates = signalKeys.filter((key) => !queued.has(key));
+  if (candidates.length === 0) return { candidates, breaches: [] };
+
+  const trades = (await loadGuardrailTrades(supabase, settings, now)).filter((t) => !candidates.includes(t.signalKey));
+  return { candidates, breaches: evaluateGuardrails(trades, settings, now) };
+}
@@ -0,0 +1,143 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { fakeSupabase, type FakeRow } from "./fakeSupabase.ts";
+import {
+  checkGuardrailsForSignals,
+  evaluateGuardrails,
+  type GuardrailSettings,
+  guardrailPeriodStart,
+  guardrailsEnabled,
+  type GuardrailTrade,
+} from "./guardrails.ts";
+
+const OFF: GuardrailSettings = {
+  maxDailyLossR: 0,
+  maxWeeklyLossR: 0,
+  maxDailyLossPercent: 0,
+  maxWeeklyLossPercent: 0,
+  riskPercentPerTrade: 1,
+  maxConsecutiveLosses: 0,
+  maxTradesPerDay: 0,
+  lossCooldownMinutes: 0,
+  timezone: "UTC",
+};
+
+// Wednesday.
+const NOW = new Date("2026-01-07T10:00:00.000Z");
+
+function trade(signalKey: string, exitTime: string | null, netR: number | null, entryTime = exitTime): GuardrailTrade {
+  return { signalKey, entryTime: entryTime ?? NOW.toISOString(), exitTime, netR };
+}
+
+Deno.test("guardrailPeriodStart starts days at midnight and weeks on Monday in the timezone", () => {
+  assertEquals(guardrailPeriodStart(NOW, "UTC", "day").toISOString(), "2026-01-07T00:00:00.000Z");
+  assertEquals(guardrailPeriodStart(NOW, "UTC", "week").toISOString(), "2026-01-05T00:00:00.000Z");
+  assertEquals(guardrailPeriodStart(NOW, "EAT", "day").toISOString(), "2026-01-06T21:00:00.000Z");
+  // Sunday 23:30 UTC is already Monday in EAT.
+  const sundayNight = new Date("2026-01-11T23:30:00.000Z");
+  assertEquals(guardrailPeriodStart(sundayNight, "UTC", "week").toISOString(), "2026-01-05T00:00:00.000Z");
+  assertEquals(guardrailPeriodStart(sundayNight, "EAT", "week").toISOString(), "2026-01-11T21:00:00.000Z");
+});
+
+Deno.test("no rule trips while every limit is off", () => {
+  const trades = [trade("a", "2026-01-07T08:00:00.000Z", -5)];
+  assertEquals(guardrailsEnabled(OFF), false);
+  assertEquals(evaluateGuardrails(trades, OFF, NOW), []);
+});
+
+Deno.test("loss limits sum net R per day and per week", () => {
+  const trades = [
+    trade("mon", "2026-01-05T12:00:00.000Z", -1.5),
+    trade("wed1", "2026-01-07T08:00:00.000Z", -1),
+    trade("wed2", "2026-01-07T09:00:00.000Z", 0.5),
+    trade("open", null, null, "2026-01-07T09:30:00.000Z"),
+  ];
+  const settings = { ...OFF, maxDailyLossR: 0.5, maxWeeklyLossR: 2, maxDailyLossPercent: 1, riskPercentPerTrade: 2 };
+  assertEquals(evaluateGuardrails(trades, settings, NOW).map((b) => [b.rule, b.resumeAt]), [
+    ["weekly_loss_r", "2026-01-12T00:00:00.000Z"],
+    ["daily_loss_r", "2026-01-08T00:00:00.000Z"],
+    ["daily_loss_percent", "2026-01-08T00:00:00.000Z"],
+  ]);
+  assertEquals(evaluateGuardrails(trades, { ...settings, maxDailyLossR: 0.6, maxWeeklyLossR: 2.5 }, NOW).length, 1);
+});
+
+Deno.test("consecutive losses only count today's latest streak", () => {
+  const settings = { ...OFF, maxConsecutiveLosses: 2 };
+  const losses = [
+    trade("tue", "2026-01-06T22:00:00.000Z", -1),
+    trade("win", "2026-01-07T07:00:00.000Z", 1),
+    trade("l1", "2026-01-07T08:00:00.000Z", -1),
+  ];
+  assertEquals(evaluateGuardrails(losses, settings, NOW), []);
+  const breaches = evaluateGuardrails([...losses, trade("l2", "2026-01-07T09:00:00.000Z", -0.2)], settings, NOW);
+  assertEquals(breaches.map((b) => b.rule), ["consecutive_losses"]);
+});
+
+Deno.test("the trade count includes entries still open", () => {
+  const trades = [
+    trade("a", "2026-01-07T08:00:00.000Z", 1),
+    trade("b", null, null, "2026-01-07T09:00:00.000Z"),
+    trade("old", "2026-01-06T09:00:00.000Z", 1),
+  ];
+  assertEquals(evaluateGuardrails(trades, { ...OFF, maxTradesPerDay: 2 }, NOW).map((b) => b.rule), ["trades_per_day"]);
+  assertEquals(evaluateGuardrails(trades, { ...OFF, maxTradesPerDay: 3 }, NOW), []);
+});
+
+Deno.test("a losing exit starts a cooldown that ends by itself", () => {
+  const trades = [trade("loss", "2026-01-07T09:30:00.000Z", -1)];
+  const [breach] = evaluateGuardrails(trades, { ...OFF, lossCooldownMinutes: 60 }, NOW);
+  assertEquals(breach.rule, "loss_cooldown");
+  assertEquals(breach.resumeAt, "2026-01-07T10:30:00.000Z");
+  assertEquals(evaluateGuardrails(trades, { ...OFF, lossCooldownMinutes: 30 }, NOW), []);
+  assertEquals(
+    evaluateGuardrails([...trades, trade("win", "2026-01-07T09:45:00.000Z", 0.5)], { ...OFF, lossCooldownMinutes: 60 }, NOW),
+    [],
+  );
+});
+
+function storedTrade(signalKey: string, entryTime: string): FakeRow {
+  return {
+    signal_key: signalKey,
+    entry_time: entryTime,
+    exit_time: null,
+    r_multiple: null,
+    net_r_multiple: null,
+    status: "OPEN",
+  };
+}
+
+const marketRequest = (signalKey: string, status = "sent"): FakeRow => ({
+  signal_key: signalKey,
+  order_type: "MARKET",
+  status,
+});
+
+Deno.test("a re-emitted signal whose entry is already queued is not held back", async () => {
+  const settings = { ...OFF, maxTradesPerDay: 2 };
+  const tables = {
+    strategy_trades: [storedTrade("a", "2026-01-07T08:00:00.000Z"), storedTrade("b", "2026-01-07T09:45:00.000Z")],
+    broker_order_requests: [marketRequest("a")],
+  };
+  // The preview run: b is the second trade of the day and may be queued.
+  const first = await checkGuardrailsForSignals(fakeSupabase(tables), settings, ["b"], NOW);
+  assertEquals(first, { candidates: ["b"], breaches: [] });
+
+  // The fill run emits b again after its request was queued.
+  tables.broker_order_requests.push(marketRequest("b"));
+  const second = await checkGuardrailsForSignals(fakeSupabase(tables), settings, ["b"], NOW);
+  assertEquals(second, { candidates: [], breaches: [] });
+
+  // A third signal is held back, and named as the one held.
+  tables.strategy_trades.push(storedTrade("c", "2026-01-07T10:00:00.000Z"));
+  const third = await checkGuardrailsForSignals(fakeSupabase(tables), settings, ["b", "c"], NOW);
+  assertEquals(third.candidates, ["c"]);
+  assertEquals(third.breaches.map((b) => b.rule), ["trades_per_day"]);
+});
+
+Deno.test("entries that never reached the broker do not count", async () => {
+  const tables = {
+    strategy_trades: [storedTrade("a", "2026-01-07T08:00:00.000Z"), storedTrade("b", "2026-01-07T09:00:00.000Z")],
+    broker_order_requests: [marketRequest("a", "rejected"), marketRequest("b", "awaiting_approval")],
+  };
+  const check = await checkGuardrailsForSignals(fakeSupabase(tables), { ...OFF, maxTradesPerDay: 1 }, ["c"], NOW);
+  assertEquals(check, { candidates: ["c"], breaches: [] });
+});
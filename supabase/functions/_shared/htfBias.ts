@@ -0,0 +1,177 @@
+import { type CandleProvider, fetchCandlesWithFailover } from "./candleProviders.ts";
+import { loadStoredCandles } from "./candleStore.ts";
+import type { RuntimeEnv } from "./env.ts";
+import { findFractals, type FractalRule } from "./fractals.ts";
+import { normalizeTimeframe, timeframeLabel, timeframeMs } from "./instruments.ts";
+import { groupIntrabarCandles } from "./intrabar.ts";
+import type { createSupabaseAdmin } from "./supabaseAdmin.ts";
+import type { Candle, Direction, Fractal, HtfBiasReading } from "./types.ts";
+
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+// Optional confluence layer: a signal only passes when the structure of every
+// configured higher timeframe points the same way. The HTF candles are built
+// from stored base-timeframe candles or fetched from the candle providers.
+export type HtfCandleSource = "aggregate" | "fetch";
+
+export type HtfBiasSettings = {
+  timeframes: string[]; // Twelve Data intervals above the instrument's; empty = filter off
+  source: HtfCandleSource;
+  lookbackCandles: number; // closed HTF candles the bias is read from
+  allowNeutral: boolean; // let signals through while a timeframe has no break yet
+};
+
+// Decision recorded on the signal (strategy_signals.htf_bias).
+export type HtfBiasDecision = {
+  direction: Direction;
+  readings: HtfBiasReading[];
+  aligned: boolean;
+  reason: string | null; // filtered_reason when not aligned
+};
+
+/** Settings from `HTF_BIAS_TIMEFRAMES`, `HTF_BIAS_SOURCE`, `HTF_BIAS_LOOKBACK_CANDLES` and `HTF_BIAS_NEUTRAL`. */
+export function htfBiasSettings(env: RuntimeEnv): HtfBiasSettings {
+  return {
+    timeframes: env.htfBiasTimeframes.map(normalizeTimeframe),
+    source: env.htfBiasSource,
+    lookbackCandles: env.htfBiasLookbackCandles,
+    allowNeutral: env.htfBiasNeutral === "allow",
+  };
+}
+
+/**
+ * The configured timeframes that can confirm `timeframe`, longest first: known
+ * intervals above it and, when aggregating, whole multiples of it.
+ */
+export function htfTimeframesFor(settings: HtfBiasSettings, timeframe: string): string[] {
+  const baseMs = timeframeMs(timeframe);
+  if (baseMs == null) return [];
+  return [...new Set(settings.timeframes)]
+    .filter((tf) => {
+      const ms = timeframeMs(tf);
+      return ms != null && ms > baseMs && (settings.source === "fetch" || ms % baseMs === 0);
+    })
+    .sort((a, b) => timeframeMs(b)! - timeframeMs(a)!);
+}
+
+/** Builds `intervalMs` candles (UTC-aligned) from lower-timeframe candles; the last one may be incomplete. */
+export function aggregateCandles(candles: Candle[], intervalMs: number): Candle[] {
+  return [...groupIntrabarCandles(candles, intervalMs)].map(([ts, bars]) => ({
+    ts,
+    open: bars[0].open,
+    high: Math.max(...bars.map((b) => b.high)),
+    low: Math.min(...bars.map((b) => b.low)),
+    close: bars[bars.length - 1].close,
+    volume: bars.some((b) => b.volume != null) ? bars.reduce((sum, b) => sum + (b.volume ?? 0), 0) : null,
+  }));
+}
+
+/**
+ * Bias of closed candles (ascending) from close-only breaks of confirmed
+ * fractals, the rule the strategy uses for its BOS. Each fractal is broken at
+ * most once, from the candle after the one confirming it.
+ */
+export function structureBias(candles: Candle[], rule: FractalRule): Omit<HtfBiasReading, "timeframe"> {
+  const fractals = findFractals(candles, rule);
+  let next = 0;
+  let lastFSH: Fractal | null = null;
+  let lastFSL: Fractal | null = null;
+  let bias: HtfBiasReading["bias"] = "NEUTRAL";
+  let breakLevel: number | null = null;
+  let breakTs: string | null = null;
+  for (let i = 0; i < candles.length; i++) {
+    while (next < fractals.length && fractals[next].confirmedAtIndex < i) {
+      const f = fractals[next++];
+      if (f.type === "FSH") lastFSH = f;
+      else lastFSL = f;
+    }
+    const c = candles[i];
+    if (lastFSL && c.close < lastFSL.price) {
+      bias = "BEARISH";
+      breakLevel = lastFSL.price;
+      breakTs = c.ts;
+      lastFSL = null;
+    } else if (lastFSH && c.close > lastFSH.price) {
+      bias = "BULLISH";
+      breakLevel = lastFSH.price;
+      breakTs = c.ts;
+      lastFSH = null;
+    }
+  }
+  return { bias, asOf: candles.at(-1)?.ts ?? null, breakLevel, breakTs, candles: candles.length };
+}
+
+/** The bias of each timeframe from the HTF candles that had closed at `at`. */
+export function htfBiasAt(
+  series: Map<string, Candle[]>,
+  settings: HtfBiasSettings,
+  rule: FractalRule,
+  at: Date,
+): HtfBiasReading[] {
+  return [...series].map(([timeframe, candles]) => {
+    const ms = timeframeMs(timeframe)!;
+    const closed = candles
+      .filter((c) => new Date(c.ts).getTime() + ms <= at.getTime())
+      .slice(-settings.lookbackCandles);
+    return { timeframe, ...structureBias(closed, rule) };
+  });
+}
+
+/** Whether a signal in `direction` agrees with every reading. */
+export function evaluateHtfBias(
+  direction: Direction,
+  readings: HtfBiasReading[],
+  settings: HtfBiasSettings,
+): HtfBiasDecision {
+  const wanted = direction === "LONG" ? "BULLISH" : "BEARISH";
+  const against = readings.filter((r) => r.bias !== wanted && !(settings.allowNeutral && r.bias === "NEUTRAL"));
+  return {
+    direction,
+    readings,
+    aligned: against.length === 0,
+    reason: against.length === 0
+      ? null
+      : `HTF bias against ${direction}: ${against.map((r) => `${timeframeLabel(r.timeframe)} ${r.bias}`).join(", ")}`,
+  };
+}
+
+/**
+ * HTF candles covering `lookbackCandles` before `from` up to `to`, keyed by
+ * timeframe. Aggregated series may end with an incomplete candle; `htfBiasAt`
+ * only reads candles closed at the decision time.
+ */
+export async function loadHtfCandles(
+  supabase: SupabaseAdmin,
+  providers: CandleProvider[],
+  params: { symbol: string; timeframe: string; settings: HtfBiasSettings; from: Date; to: Date },
+): Promise<Map<string, Candle[]>> {
+  const series = new Map<string, Candle[]>();
+  const timeframes = htfTimeframesFor(params.settings, params.timeframe);
+  if (timeframes.length === 0) return series;
+  const lookbackMs = (ms: number) => params.settings.lookbackCandles * ms;
+
+  if (params.settings.source === "aggregate") {
+    const base = await loadStoredCandles(supabase, {
+      symbol: params.symbol,
+      timeframe: params.timeframe,
+      from: new Date(params.from.getTime() - lookbackMs(timeframeMs(timeframes[0])!)).toISOString(),
+      to: params.to.toISOString(),
+    });
+    for (const tf of timeframes) series.set(tf, aggregateCandles(base, timeframeMs(tf)!));
+    return series;
+  }
+
+  for (const tf of timeframes) {
+    const ms = timeframeMs(tf)!;
+    const start = params.from.getTime() - lookbackMs(ms);
+    const { candles } = await fetchCandlesWithFailover(providers, {
+      symbol: params.symbol,
+      interval: tf,
+      outputsize: Math.ceil((params.to.getTime() - start) / ms) + 1,
+      start: new Date(start).toISOString(),
+      end: params.to.toISOString(),
+    });
+    series.set(tf, candles.filter((c) => c.isClosed !== false));
+  }
+  return series;
+}
@@ -0,0 +1,105 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import type { FractalRule } from "./fractals.ts";
+import {
+  aggregateCandles,
+  evaluateHtfBias,
+  htfBiasAt,
+  type HtfBiasSettings,
+  htfTimeframesFor,
+  structureBias,
+} from "./htfBias.ts";
+import type { Candle, HtfBiasReading } from "./types.ts";
+
+const H1 = 3_600_000;
+const START = Date.UTC(2026, 0, 5, 8);
+const RULE: FractalRule = { width: 3, tieMode: "strict", source: "wick" };
+const SETTINGS: HtfBiasSettings = { timeframes: ["1h"], source: "aggregate", lookbackCandles: 50, allowNeutral: false };
+
+function hourly(rows: number[][]): Candle[] {
+  return rows.map(([open, high, low, close], i) => ({ ts: new Date(START + i * H1).toISOString(), open, high, low, close }));
+}
+
+// FSH at 5 (candle 1, confirmed on candle 2) and FSL at 1.5 (candle 2, confirmed
+// on candle 3). Candle 3 only wicks through the FSH; candle 4 closes above it.
+const BULL_BREAK = hourly([
+  [1.5, 2, 1, 1.5],
+  [1.5, 5, 2, 3],
+  [3, 4, 1.5, 2],
+  [2, 6, 3, 4.9],
+  [4.9, 6.5, 4, 5.5],
+]);
+
+Deno.test("htfTimeframesFor keeps known higher timeframes, longest first", () => {
+  const settings = { ...SETTINGS, timeframes: ["1h", "4h", "40min", "1h", "5min", "weekly"] };
+  assertEquals(htfTimeframesFor(settings, "15min"), ["4h", "1h"]);
+  // Fetched candles do not need to be a multiple of the base timeframe.
+  assertEquals(htfTimeframesFor({ ...settings, source: "fetch" }, "15min"), ["4h", "1h", "40min"]);
+  assertEquals(htfTimeframesFor(settings, "unknown"), []);
+});
+
+Deno.test("aggregateCandles builds UTC-aligned candles, keeping the incomplete last one", () => {
+  const m15 = [
+    [1.1, 1.2, 1.0, 1.15, 5],
+    [1.15, 1.3, 1.1, 1.25, 5],
+    [1.25, 1.26, 0.9, 1.0, 5],
+    [1.0, 1.05, 0.95, 1.02, 5],
+    [1.02, 1.4, 1.01, 1.35, 5],
+  ].map(([open, high, low, close, volume], i) => ({
+    ts: new Date(START + i * 15 * 60_000).toISOString(),
+    open,
+    high,
+    low,
+    close,
+    volume,
+  }));
+  assertEquals(aggregateCandles(m15, H1), [
+    { ts: new Date(START).toISOString(), open: 1.1, high: 1.3, low: 0.9, close: 1.02, volume: 20 },
+    { ts: new Date(START + H1).toISOString(), open: 1.02, high: 1.4, low: 1.01, close: 1.35, volume: 5 },
+  ]);
+});
+
+Deno.test("structureBias counts close-only breaks after the confirming candle", () => {
+  assertEquals(structureBias(BULL_BREAK, RULE), {
+    bias: "BULLISH",
+    asOf: BULL_BREAK[4].ts,
+    breakLevel: 5,
+    breakTs: BULL_BREAK[4].ts,
+    candles: 5,
+  });
+  // The wick through the FSH alone leaves the structure neutral.
+  assertEquals(structureBias(BULL_BREAK.slice(0, 4), RULE).bias, "NEUTRAL");
+
+  // A later close below the FSL turns it bearish.
+  const bearish = hourly([...BULL_BREAK.map((c) => [c.open, c.high, c.low, c.close]), [5.5, 5.6, 1, 1.2]]);
+  const reading = structureBias(bearish, RULE);
+  assertEquals([reading.bias, reading.breakLevel, reading.breakTs], ["BEARISH", 1.5, bearish[5].ts]);
+});
+
+Deno.test("htfBiasAt only reads HTF candles closed at the decision time", () => {
+  const series = new Map([["1h", BULL_BREAK]]);
+  const before = htfBiasAt(series, SETTINGS, RULE, new Date(START + 4.5 * H1));
+  assertEquals(before.map((r) => [r.timeframe, r.bias, r.asOf, r.candles]), [["1h", "NEUTRAL", BULL_BREAK[3].ts, 4]]);
+  const after = htfBiasAt(series, SETTINGS, RULE, new Date(START + 5 * H1));
+  assertEquals(after.map((r) => [r.bias, r.breakTs]), [["BULLISH", BULL_BREAK[4].ts]]);
+  // The lookback keeps the latest closed candles only: too few for a fractal.
+  assertEquals(htfBiasAt(series, { ...SETTINGS, lookbackCandles: 2 }, RULE, new Date(START + 5 * H1))[0].bias, "NEUTRAL");
+});
+
+Deno.test("evaluateHtfBias needs every timeframe aligned, neutral only when allowed", () => {
+  const reading = (timeframe: string, bias: HtfBiasReading["bias"]): HtfBiasReading =>
+    ({ timeframe, bias, asOf: null, breakLevel: null, breakTs: null, candles: 0 });
+  const readings = [reading("4h", "BULLISH"), reading("1h", "NEUTRAL")];
+
+  assertEquals(evaluateHtfBias("LONG", readings, SETTINGS), {
+    direction: "LONG",
+    readings,
+    aligned: false,
+    reason: "HTF bias against LONG: H1 NEUTRAL",
+  });
+  assertEquals(evaluateHtfBias("LONG", readings, { ...SETTINGS, allowNeutral: true }).aligned, true);
+  assertEquals(
+    evaluateHtfBias("SHORT", readings, { ...SETTINGS, allowNeutral: true }).reason,
+    "HTF bias against SHORT: H4 BULLISH",
+  );
+  assertEquals(evaluateHtfBias("SHORT", [], SETTINGS).aligned, true);
+});
@@ -0,0 +1,92 @@
+import type { RuntimeEnv } from "./env.ts";
+import { STRATEGY_CODE } from "./strategy.ts";
+import type { createSupabaseAdmin } from "./supabaseAdmin.ts";
+
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+export type Instrument = {
+  strategyCode: string;
+  symbol: string; // Twelve Data notation, e.g. "EUR/USD"
+  timeframe: string; // Twelve Data interval, e.g. "15min"
+};
+
+const TIMEFRAME_ALIASES: Record<string, string> = {
+  M1: "1min",
+  M5: "5min",
+  M15: "15min",
+  M30: "30min",
+  H1: "1h",
+  H4: "4h",
+  D1: "1day",
+};
+
+function compactSymbol(symbol: string): string {
+  return symbol.replace(/[^A-Za-z0-9]/g, "").toUpperCase();
+}
+
+/** "GBPUSD", "gbp/usd" and "GBP-USD" all become "GBP/USD"; other symbols are upper-cased. */
+export function normalizeSymbol(input: string): string {
+  const compact = compactSymbol(input);
+  if (/^[A-Z]{6}$/.test(compact)) return `${compact.slice(0, 3)}/${compact.slice(3)}`;
+  return input.trim().toUpperCase();
+}
+
+/** Accepts "M15"/"H1" style labels as well as Twelve Data intervals ("15min", "1h"). */
+export function normalizeTimeframe(input: string): string {
+  const upper = input.trim().toUpperCase();
+  return TIMEFRAME_ALIASES[upper] ?? input.trim().toLowerCase();
+}
+
+/** "15min" -> "M15", "1h" -> "H1"; unknown intervals are returned unchanged. */
+export function timeframeLabel(timeframe: string): string {
+  const entry = Object.entries(TIMEFRAME_ALIASES).find(([, interval]) => interval === timeframe);
+  return entry ? entry[0] : timeframe;
+}
+
+/** Bar length of a Twelve Data interval ("15min", "1h", "1day"); null when unknown. */
+export function timeframeMs(timeframe: string): number | null {
+  const m = /^(\d+)(min|h|day)$/.exec(normalizeTimeframe(timeframe));
+  if (!m) return null;
+  const unitMs = m[2] === "min" ? 60_000 : m[2] === "h" ? 3_600_000 : 86_400_000;
+  return Number(m[1]) * unitMs;
+}
+
+export function instrumentLabel(symbol: string, timeframe: string): string {
+  return `${compactSymbol(symbol)} • ${timeframeLabel(timeframe)}`;
+}
+
+/**
+ * Enabled rows of `strategy_instruments`, in `sort_order`. Falls back to the
+ * single `SIGNAL_SYMBOL`/`SIGNAL_TIMEFRAME` instrument when the registry is empty.
+ */
+export async function loadInstruments(supabase: SupabaseAdmin, env: RuntimeEnv): Promise<Instrument[]> {
+  const { data, error } = await supabase
+    .from("strategy_instruments")
+    .select("strategy_code,symbol,timeframe")
+    .eq("enabled", true)
+    .order("sort_order", { ascending: true })
+    .order("symbol", { ascending: true });
+  if (error) throw error;
+
+  const instruments = (data ?? []).map((r) => ({
+    strategyCode: String(r.strategy_code),
+    symbol: String(r.symbol),
+    timeframe: String(r.timeframe),
+  }));
+  if (instruments.length > 0) return instruments;
+  return [{ strategyCode: STRATEGY_CODE, symbol: env.signalSymbol, timeframe: env.signalTimeframe }];
+}
+
+/**
+ * Picks the instrument addressed by command arguments such as `GBPUSD` or
+ * `GBPUSD H1`. Without arguments the first registered instrument is used.
+ * Returns null when no registered instrument matches.
+ */
+export function resolveInstrument(instruments: Instrument[], args: string[]): Instrument | null {
+  if (args.length === 0) return instruments[0] ?? null;
+  const symbol = compactSymbol(args[0]);
+  const timeframe = args[1] ? normalizeTimeframe(args[1]) : null;
+  return instruments.find((i) =>
+    compactSymbol(i.symbol) === symbol && (timeframe == null || i.timeframe === timeframe)
+  ) ?? null;
+}
@@ -0,0 +1,57 @@
+import { type CandleProvider, fetchCandlesWithFailover } from "./candleProviders.ts";
+import type { Candle } from "./types.ts";
+
+// Twelve Data caps outputsize at 5000 bars.
+const MAX_INTRABAR_OUTPUTSIZE = 5000;
+
+/** Groups lower-timeframe bars by the open time of the `intervalMs` candle containing them. */
+export function groupIntrabarCandles(candles: Candle[], intervalMs: number): Map<string, Candle[]> {
+  const byCandle = new Map<string, Candle[]>();
+  for (const c of [...candles].sort((a, b) => a.ts.localeCompare(b.ts))) {
+    const ms = new Date(c.ts).getTime();
+    const parent = new Date(ms - (ms % intervalMs)).toISOString();
+    byCandle.set(parent, [...(byCandle.get(parent) ?? []), c]);
+  }
+  return byCandle;
+}
+
+/**
+ * Fetches the `interval` bars inside each candle of `candleTimes` (candles of
+ * `parentIntervalMs`). Candles whose bars cannot be fetched are left out, so the
+ * strategy resolves them as "unknown". Providers without range support answer
+ * with their latest bars, which only cover recent candles.
+ */
+export async function fetchIntrabarCandles(providers: CandleProvider[], params: {
+  symbol: string;
+  interval: string;
+  intervalMs: number;
+  parentIntervalMs: number;
+  candleTimes: string[];
+  nowMs?: number;
+}): Promise<Map<string, Candle[]>> {
+  const out = new Map<string, Candle[]>();
+  if (params.intervalMs >= params.parentIntervalMs) return out;
+  const nowMs = params.nowMs ?? Date.now();
+
+  for (const ts of params.candleTimes) {
+    const startMs = new Date(ts).getTime();
+    const endMs = startMs + params.parentIntervalMs;
+    try {
+      const { candles } = await fetchCandlesWithFailover(providers, {
+        symbol: params.symbol,
+        interval: params.interval,
+        outputsize: Math.min(MAX_INTRABAR_OUTPUTSIZE, Math.ceil((nowMs - startMs) / params.intervalMs) + 1),
+        start: ts,
+        end: new Date(endMs - params.intervalMs).toISOString(),
+      });
+      const bars = candles.filter((c) => {
+        const ms = new Date(c.ts).getTime();
+        return ms >= startMs && ms < endMs && c.isClosed !== false;
+      });
+      if (bars.length > 0) out.set(ts, bars);
+    } catch (e) {
+      console.error(`Intrabar fetch failed for ${params.symbol} ${params.interval} @ ${ts}`, e);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,65 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import type { CandleProvider, CandleRequest } from "./candleProviders.ts";
+import { fetchIntrabarCandles, groupIntrabarCandles } from "./intrabar.ts";
+import type { Candle } from "./types.ts";
+
+const MINUTE = 60_000;
+const bar = (ts: string, close = 1.1): Candle => ({ ts, open: close, high: close, low: close, close });
+
+Deno.test("groupIntrabarCandles buckets bars by the open of their parent candle", () => {
+  const grouped = groupIntrabarCandles([
+    bar("2026-01-05T00:16:00.000Z"),
+    bar("2026-01-05T00:00:00.000Z"),
+    bar("2026-01-05T00:14:00.000Z"),
+    bar("2026-01-05T00:15:00.000Z"),
+  ], 15 * MINUTE);
+  assertEquals([...grouped.keys()], ["2026-01-05T00:00:00.000Z", "2026-01-05T00:15:00.000Z"]);
+  assertEquals(grouped.get("2026-01-05T00:00:00.000Z")!.map((c) => c.ts), [
+    "2026-01-05T00:00:00.000Z",
+    "2026-01-05T00:14:00.000Z",
+  ]);
+});
+
+Deno.test("fetchIntrabarCandles keeps the bars inside each candle and skips failed fetches", async () => {
+  const requests: CandleRequest[] = [];
+  const provider: CandleProvider = {
+    name: "fake",
+    fetchCandles(request) {
+      requests.push(request);
+      if (request.start === "2026-01-05T00:30:00.000Z") return Promise.reject(new Error("rate limited"));
+      // Ignores the range like a provider without range support would.
+      return Promise.resolve([
+        bar("2026-01-04T23:59:00.000Z"),
+        bar("2026-01-05T00:00:00.000Z"),
+        bar("2026-01-05T00:14:00.000Z"),
+        bar("2026-01-05T00:15:00.000Z"),
+      ]);
+    },
+  };
+  const result = await fetchIntrabarCandles([provider], {
+    symbol: "EUR/USD",
+    interval: "1min",
+    intervalMs: MINUTE,
+    parentIntervalMs: 15 * MINUTE,
+    candleTimes: ["2026-01-05T00:00:00.000Z", "2026-01-05T00:30:00.000Z"],
+    nowMs: new Date("2026-01-05T01:00:00.000Z").getTime(),
+  });
+  assertEquals([...result.keys()], ["2026-01-05T00:00:00.000Z"]);
+  assertEquals(result.get("2026-01-05T00:00:00.000Z")!.map((c) => c.ts), [
+    "2026-01-05T00:00:00.000Z",
+    "2026-01-05T00:14:00.000Z",
+  ]);
+  assertEquals(requests[0].end, "2026-01-05T00:14:00.000Z");
+  assertEquals(requests[0].outputsize, 61);
+});
+
+Deno.test("fetchIntrabarCandles does nothing for bars not below the candle timeframe", async () => {
+  const result = await fetchIntrabarCandles([], {
+    symbol: "EUR/USD",
+    interval: "15min",
+    intervalMs: 15 * MINUTE,
+    parentIntervalMs: 15 * MINUTE,
+    candleTimes: ["2026-01-05T00:00:00.000Z"],
+  });
+  assertEquals(result.size, 0);
+});
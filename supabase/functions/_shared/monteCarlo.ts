@@ -0,0 +1,192 @@
+import { seededRandom } from "./backtest.ts";
+
+// Monte Carlo over a trade history: the R-multiples are re-ordered (shuffle) or
+// drawn with replacement (bootstrap), and each path is compounded at a fixed
+// risk per trade to see which drawdowns the same edge can produce.
+
+export type MonteCarloMethod = "shuffle" | "bootstrap";
+
+export type MonteCarloSettings = {
+  method: MonteCarloMethod;
+  iterations: number;
+  riskPercent: number; // account % lost at -1R
+  ruinDrawdownPercent: number; // a path that draws down this far counts as ruined
+  horizonTrades: number; // bootstrap path length (0 = as many trades as the history)
+  seed: number;
+};
+
+export type Percentiles = {
+  mean: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  p99: number;
+};
+
+export type PathStats = {
+  maxDrawdownPercent: number;
+  maxDrawdownR: number;
+  longestLosingStreak: number;
+  longestRecoveryTrades: number; // longest run of trades below the previous equity peak
+  finalReturnPercent: number;
+  endsBelowPeak: boolean;
+};
+
+export type MonteCarloReport = {
+  method: MonteCarloMethod;
+  iterations: number;
+  trades: number; // size of the history
+  pathTrades: number;
+  riskPercent: number;
+  observed: PathStats; // the history in its real order
+  maxDrawdownPercent: Percentiles;
+  maxDrawdownR: Percentiles;
+  longestLosingStreak: Percentiles;
+  longestRecoveryTrades: Percentiles;
+  finalReturnPercent: Percentiles;
+  drawdownExceedance: { drawdownPercent: number; probabilityPct: number }[];
+  ruinDrawdownPercent: number;
+  riskOfRuinPct: number;
+  unrecoveredPct: number; // paths ending below their peak
+};
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  method: "bootstrap",
+  iterations: 2000,
+  riskPercent: 1,
+  ruinDrawdownPercent: 50,
+  horizonTrades: 0,
+  seed: 1,
+};
+
+const EXCEEDANCE_LEVELS = [10, 20, 30];
+
+function round2(n: number): number {
+  return Number(n.toFixed(2));
+}
+
+/** Drawdown, streak and recovery statistics of one ordered sequence of R-multiples. */
+export function pathStats(rs: number[], riskPercent: number): PathStats {
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  let r = 0;
+  let peakR = 0;
+  let maxDrawdownR = 0;
+  let streak = 0;
+  let longestLosingStreak = 0;
+  let underwater = 0;
+  let longestRecoveryTrades = 0;
+  for (const x of rs) {
+    // A loss larger than the whole account (risk x R <= -100%) ends the path at zero.
+    equity = Math.max(0, equity * (1 + (x * riskPercent) / 100));
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - equity) / peak : 0);
+    r += x;
+    peakR = Math.max(peakR, r);
+    maxDrawdownR = Math.max(maxDrawdownR, peakR - r);
+    streak = x <= 0 ? streak + 1 : 0;
+    longestLosingStreak = Math.max(longestLosingStreak, streak);
+    underwater = equity < peak ? underwater + 1 : 0;
+    longestRecoveryTrades = Math.max(longestRecoveryTrades, underwater);
+  }
+  return {
+    maxDrawdownPercent: maxDrawdown * 100,
+    maxDrawdownR,
+    longestLosingStreak,
+    longestRecoveryTrades,
+    finalReturnPercent: (equity - 1) * 100,
+    endsBelowPeak: equity < peak,
+  };
+}
+
+function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    mean: round2(sorted.reduce((sum, v) => sum + v, 0) / Math.max(1, sorted.length)),
+    p5: round2(at(0.05)),
+    p50: round2(at(0.5)),
+    p95: round2(at(0.95)),
+    p99: round2(at(0.99)),
+  };
+}
+
+/**
+ * Simulates `iterations` paths from closed-trade R-multiples (in exit order).
+ * Shuffle keeps every trade exactly once, so only the order (drawdowns, streaks)
+ * varies; bootstrap also varies the mix of trades and the final return.
+ */
+export function runMonteCarlo(rs: number[], settings: Partial<MonteCarloSettings> = {}): MonteCarloReport {
+  const s = { ...DEFAULT_MONTE_CARLO_SETTINGS, ...settings };
+  const random = seededRandom(s.seed);
+  const pathTrades = s.method === "bootstrap" && s.horizonTrades > 0 ? s.horizonTrades : rs.length;
+  const paths: PathStats[] = [];
+  for (let i = 0; i < s.iterations && rs.length > 0; i++) {
+    let path: number[];
+    if (s.method === "shuffle") {
+      path = [...rs];
+      for (let j = path.length - 1; j > 0; j--) {
+        const k = Math.floor(random() * (j + 1));
+        [path[j], path[k]] = [path[k], path[j]];
+      }
+    } else {
+      path = Array.from({ length: pathTrades }, () => rs[Math.floor(random() * rs.length)]);
+    }
+    paths.push(pathStats(path, s.riskPercent));
+  }
+
+  const share = (predicate: (p: PathStats) => boolean) =>
+    paths.length === 0 ? 0 : round2((paths.filter(predicate).length / paths.length) * 100);
+  const observed = pathStats(rs, s.riskPercent);
+  return {
+    method: s.method,
+    iterations: paths.length,
+    trades: rs.length,
+    pathTrades,
+    riskPercent: s.riskPercent,
+    observed: {
+      maxDrawdownPercent: round2(observed.maxDrawdownPercent),
+      maxDrawdownR: round2(observed.maxDrawdownR),
+      longestLosingStreak: observed.longestLosingStreak,
+      longestRecoveryTrades: observed.longestRecoveryTrades,
+      finalReturnPercent: round2(observed.finalReturnPercent),
+      endsBelowPeak: observed.endsBelowPeak,
+    },
+    maxDrawdownPercent: percentiles(paths.map((p) => p.maxDrawdownPercent)),
+    maxDrawdownR: percentiles(paths.map((p) => p.maxDrawdownR)),
+    longestLosingStreak: percentiles(paths.map((p) => p.longestLosingStreak)),
+    longestRecoveryTrades: percentiles(paths.map((p) => p.longestRecoveryTrades)),
+    finalReturnPercent: percentiles(paths.map((p) => p.finalReturnPercent)),
+    drawdownExceedance: EXCEEDANCE_LEVELS.map((level) => ({
+      drawdownPercent: level,
+      probabilityPct: share((p) => p.maxDrawdownPercent >= level),
+    })),
+    ruinDrawdownPercent: s.ruinDrawdownPercent,
+    riskOfRuinPct: share((p) => p.maxDrawdownPercent >= s.ruinDrawdownPercent),
+    unrecoveredPct: share((p) => p.endsBelowPeak),
+  };
+}
+
+export function formatMonteCarloReport(report: MonteCarloReport): string {
+  const row = (label: string, p: Percentiles, observed: number, unit: string) =>
+    [
+      label.padEnd(20),
+      `${p.p50}${unit}`.padStart(9),
+      `${p.p95}${unit}`.padStart(9),
+      `${p.p99}${unit}`.padStart(9),
+      `${observed}${unit}`.padStart(9),
+    ].join(" ");
+  return [
+    `Monte Carlo (${report.method}, ${report.iterations} paths of ${report.pathTrades} trades, ${report.riskPercent}% risk per trade)`,
+    `${"".padEnd(20)} ${"median".padStart(9)} ${"p95".padStart(9)} ${"p99".padStart(9)} ${"history".padStart(9)}`,
+    row("Max drawdown", report.maxDrawdownPercent, report.observed.maxDrawdownPercent, "%"),
+    row("Max drawdown (R)", report.maxDrawdownR, report.observed.maxDrawdownR, "R"),
+    row("Losing streak", report.longestLosingStreak, report.observed.longestLosingStreak, ""),
+    row("Trades to recover", report.longestRecoveryTrades, report.observed.longestRecoveryTrades, ""),
+    `Final return: p5 ${report.finalReturnPercent.p5}%  median ${report.finalReturnPercent.p50}%  p95 ${report.finalReturnPercent.p95}%`,
+    `P(drawdown >= X%): ${report.drawdownExceedance.map((d) => `${d.drawdownPercent}%: ${d.probabilityPct}%`).join("  ")}`,
+    `Risk of ruin (drawdown >= ${report.ruinDrawdownPercent}%): ${report.riskOfRuinPct}%`,
+    `Paths still below their peak at the end: ${report.unrecoveredPct}%`,
+  ].join("\n");
+}
@@ -0,0 +1,55 @@
+import { assert, assertAlmostEquals, assertEquals, assertNotEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { pathStats, runMonteCarlo } from "./monteCarlo.ts";
+
+const HISTORY = [2, -1, -1, 0, 3, -1, 1.5, -1, -1, 2.2, -0.4, 1];
+
+Deno.test("pathStats compounds a known sequence", () => {
+  // At 10% risk: equity 1.2, 1.08, 0.972, 0.972, 1.2636.
+  const stats = pathStats([2, -1, -1, 0, 3], 10);
+  assertAlmostEquals(stats.maxDrawdownPercent, 19, 1e-9);
+  assertEquals(stats.maxDrawdownR, 2);
+  // Break-even trades extend a losing streak.
+  assertEquals(stats.longestLosingStreak, 3);
+  assertEquals(stats.longestRecoveryTrades, 3);
+  assertAlmostEquals(stats.finalReturnPercent, 26.36, 1e-9);
+  assertEquals(stats.endsBelowPeak, false);
+});
+
+Deno.test("pathStats stops at zero when a loss exceeds the account", () => {
+  const stats = pathStats([1, -150, 2], 1);
+  assertEquals(stats.maxDrawdownPercent, 100);
+  assertEquals(stats.finalReturnPercent, -100);
+  assertEquals(stats.endsBelowPeak, true);
+});
+
+Deno.test("runMonteCarlo is reproducible for a seed", () => {
+  const settings = { iterations: 200, riskPercent: 2, seed: 7 };
+  assertEquals(runMonteCarlo(HISTORY, settings), runMonteCarlo(HISTORY, settings));
+  assertNotEquals(
+    runMonteCarlo(HISTORY, settings).maxDrawdownPercent,
+    runMonteCarlo(HISTORY, { ...settings, seed: 8 }).maxDrawdownPercent,
+  );
+});
+
+Deno.test("shuffled paths keep the final return and only vary the order", () => {
+  const report = runMonteCarlo(HISTORY, { method: "shuffle", iterations: 300, riskPercent: 2 });
+  const final = report.observed.finalReturnPercent;
+  assertEquals([report.finalReturnPercent.p5, report.finalReturnPercent.p99], [final, final]);
+  assertEquals(report.pathTrades, HISTORY.length);
+  assert(report.maxDrawdownPercent.p5 < report.maxDrawdownPercent.p99);
+});
+
+Deno.test("bootstrap paths use the horizon length", () => {
+  const report = runMonteCarlo(HISTORY, { method: "bootstrap", iterations: 300, horizonTrades: 50 });
+  assertEquals(report.pathTrades, 50);
+  assertEquals(report.trades, HISTORY.length);
+  assert(report.finalReturnPercent.p5 < report.finalReturnPercent.p95);
+  assert(report.riskOfRuinPct <= report.drawdownExceedance[0].probabilityPct);
+});
+
+Deno.test("an empty history yields no paths", () => {
+  const report = runMonteCarlo([], { iterations: 100 });
+  assertEquals(report.iterations, 0);
+  assertEquals(report.maxDrawdownPercent, { mean: 0, p5: 0, p50: 0, p95: 0, p99: 0 });
+  assertEquals(report.riskOfRuinPct, 0);
+});
@@ -0,0 +1,339 @@
+import { seededRandom, summarizeTrades, type PerformanceSummary } from "./backtest.ts";
+import { resolveStrategyConfig, runContinuationStrategy, STRATEGY_CODE } from "./strategy.ts";
+import type { createSupabaseAdmin } from "./supabaseAdmin.ts";
+import type { Candle, EngineTrade, StrategyConfig, TakeProfitMode } from "./types.ts";
+
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+// Walk-forward optimization: every parameter set is replayed over rolling
+// in-sample/out-of-sample windows and ranked on its out-of-sample trades only.
+
+/** Values tried for each optimized parameter; every other config key keeps the base value. */
+export type OptimizerSpace = {
+  minImpulsePips: number[];
+  slBufferPips: number[];
+  tpMode: TakeProfitMode[];
+  fractalWidth: number[];
+};
+
+export type OptimizerParams = {
+  minImpulsePips: number;
+  slBufferPips: number;
+  tpMode: TakeProfitMode;
+  fractalWidth: number;
+};
+
+export type OptimizerSettings = {
+  search: "grid" | "random";
+  samples: number; // parameter sets drawn in random search
+  seed: number; // random search is reproducible for a given seed
+  inSampleDays: number;
+  outOfSampleDays: number; // also the step between folds
+  minOutOfSampleTrades: number; // sets with fewer OOS trades rank last
+  afterCosts: boolean; // rank on net R instead of gross R
+};
+
+export type WalkForwardFold = {
+  index: number;
+  inSampleFrom: string;
+  outOfSampleFrom: string;
+  outOfSampleTo: string; // exclusive
+};
+
+export type OptimizerResult = {
+  rank: number;
+  params: OptimizerParams;
+  config: StrategyConfig;
+  inSample: PerformanceSummary; // pooled over folds; rolling in-sample windows overlap
+  outOfSample: PerformanceSummary;
+  foldNetR: { inSample: number; outOfSample: number }[]; // per fold, same order as folds
+  qualified: boolean; // enough OOS trades to be ranked on expectancy
+};
+
+export type OptimizationReport = {
+  symbol: string;
+  timeframe: string;
+  from: string | null;
+  to: string | null;
+  candles: number;
+  settings: OptimizerSettings;
+  space: OptimizerSpace;
+  baseConfig: StrategyConfig;
+  folds: WalkForwardFold[];
+  // The set picked on each fold's in-sample window, judged on the window after it.
+  walkForward: { fold: number; params: OptimizerParams; outOfSampleNetR: number; outOfSampleTrades: number }[];
+  results: OptimizerResult[];
+};
+
+export const DEFAULT_OPTIMIZER_SPACE: OptimizerSpace = {
+  minImpulsePips: [10, 15, 20, 25, 30],
+  slBufferPips: [1, 2, 3, 5],
+  tpMode: ["pullback_swing", "fixed_r", "pullback_min_rr", "two_target"],
+  fractalWidth: [3, 5],
+};
+
+export const DEFAULT_OPTIMIZER_SETTINGS: OptimizerSettings = {
+  search: "grid",
+  samples: 40,
+  seed: 1,
+  inSampleDays: 28,
+  outOfSampleDays: 7,
+  minOutOfSampleTrades: 5,
+  afterCosts: true,
+};
+
+const DAY_MS = 86_400_000;
+
+/** Cartesian product of the space, in a stable order. */
+export function gridParams(space: OptimizerSpace): OptimizerParams[] {
+  const out: OptimizerParams[] = [];
+  for (const minImpulsePips of space.minImpulsePips) {
+    for (const slBufferPips of space.slBufferPips) {
+      for (const tpMode of space.tpMode) {
+        for (const fractalWidth of space.fractalWidth) {
+          out.push({ minImpulsePips, slBufferPips, tpMode, fractalWidth });
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/** `samples` distinct sets drawn from the grid (the whole grid when it is smaller). */
+export function randomParams(space: OptimizerSpace, samples: number, seed: number): OptimizerParams[] {
+  const grid = gridParams(space);
+  const random = seededRandom(seed);
+  // Partial Fisher-Yates shuffle.
+  for (let i = 0; i < Math.min(samples, grid.length); i++) {
+    const j = i + Math.floor(random() * (grid.length - i));
+    [grid[i], grid[j]] = [grid[j], grid[i]];
+  }
+  return grid.slice(0, samples);
+}
+
+/**
+ * Rolling folds over the candle range: `inSampleDays` of history followed by
+ * `outOfSampleDays` of unseen data, advanced by the out-of-sample length.
+ */
+export function walkForwardFolds(candles: Candle[], settings: OptimizerSettings): WalkForwardFold[] {
+  if (candles.length === 0) return [];
+  const start = new Date(candles[0].ts).getTime();
+  const end = new Date(candles[candles.length - 1].ts).getTime();
+  const folds: WalkForwardFold[] = [];
+  for (
+    let isFrom = start;
+    isFrom + (settings.inSampleDays + settings.outOfSampleDays) * DAY_MS <= end + DAY_MS;
+    isFrom += settings.outOfSampleDays * DAY_MS
+  ) {
+    const oosFrom = isFrom + settings.inSampleDays * DAY_MS;
+    folds.push({
+      index: folds.length,
+      inSampleFrom: new Date(isFrom).toISOString(),
+      outOfSampleFrom: new Date(oosFrom).toISOString(),
+      outOfSampleTo: new Date(oosFrom + settings.outOfSampleDays * DAY_MS).toISOString(),
+    });
+  }
+  return folds;
+}
+
+function byExitTime(trades: EngineTrade[]): EngineTrade[] {
+  return trades
+    .filter((t) => t.status === "CLOSED")
+    .sort((a, b) => (a.exitTime ?? "").localeCompare(b.exitTime ?? ""));
+}
+
+// Higher OOS expectancy first, then the shallower OOS drawdown.
+function compareResults(a: OptimizerResult, b: OptimizerResult): number {
+  if (a.qualified !== b.qualified) return a.qualified ? -1 : 1;
+  return b.outOfSample.expectancyR - a.outOfSample.expectancyR ||
+    a.outOfSample.maxDrawdownR - b.outOfSample.maxDrawdownR ||
+    b.outOfSample.netR - a.outOfSample.netR;
+}
+
+/**
+ * Runs every parameter set over every fold. Each fold is replayed once from the
+ * start of its in-sample window so the out-of-sample part starts with warmed-up
+ * structure; trades are assigned to a window by entry time.
+ */
+export function runWalkForwardOptimization(params: {
+  symbol: string;
+  timeframe: string;
+  candles: Candle[];
+  baseConfig: StrategyConfig;
+  space?: OptimizerSpace;
+  settings?: Partial<OptimizerSettings>;
+}): OptimizationReport {
+  const settings = { ...DEFAULT_OPTIMIZER_SETTINGS, ...params.settings };
+  const space = params.space ?? DEFAULT_OPTIMIZER_SPACE;
+  const candidates = settings.search === "random"
+    ? randomParams(space, settings.samples, settings.seed)
+    : gridParams(space);
+  const folds = walkForwardFolds(params.candles, settings);
+  const summarize = (trades: EngineTrade[]) => summarizeTrades(trades, { afterCosts: settings.afterCosts });
+
+  const evaluated = candidates.map((p): {
+    params: OptimizerParams;
+    foldTrades: { ins: EngineTrade[]; oos: EngineTrade[] }[];
+    result: OptimizerResult;
+  } => {
+    // resolveStrategyConfig drops invalid values (e.g. an even fractal width).
+    const config = resolveStrategyConfig({ ...params.baseConfig, ...p });
+    const inSampleTrades: EngineTrade[] = [];
+    const outOfSampleTrades: EngineTrade[] = [];
+    const foldTrades = folds.map((fold) => {
+      const candles = params.candles.filter((c) => c.ts >= fold.inSampleFrom && c.ts < fold.outOfSampleTo);
+      const engine = runContinuationStrategy({
+        symbol: params.symbol,
+        timeframe: params.timeframe,
+        candles,
+        config,
+      });
+      // Trades still open at the end of the window are not judged.
+      const closed = byExitTime(engine.trades);
+      const ins = closed.filter((t) => t.entryTime < fold.outOfSampleFrom);
+      const oos = closed.filter((t) => t.entryTime >= fold.outOfSampleFrom);
+      inSampleTrades.push(...ins);
+      outOfSampleTrades.push(...oos);
+      return { ins, oos };
+    });
+    const outOfSample = summarize(byExitTime(outOfSampleTrades));
+    return {
+      params: p,
+      foldTrades,
+      result: {
+        rank: 0,
+        params: p,
+        config,
+        inSample: summarize(byExitTime(inSampleTrades)),
+        outOfSample,
+        foldNetR: foldTrades.map((f) => ({ inSample: summarize(f.ins).netR, outOfSample: summarize(f.oos).netR })),
+        qualified: outOfSample.trades >= settings.minOutOfSampleTrades,
+      },
+    };
+  });
+
+  // Per fold: the set with the best in-sample expectancy, then its out-of-sample outcome.
+  const walkForward = folds.flatMap((fold) => {
+    let best: { e: typeof evaluated[number]; is: PerformanceSummary } | null = null;
+    for (const e of evaluated) {
+      const is = summarize(e.foldTrades[fold.index].ins);
+      // A set that did not trade in-sample has nothing to be picked on.
+      if (is.trades === 0) continue;
+      if (
+        !best || is.expectancyR > best.is.expectancyR ||
+        (is.expectancyR === best.is.expectancyR && is.maxDrawdownR < best.is.maxDrawdownR)
+      ) {
+        best = { e, is };
+      }
+    }
+    if (!best) return [];
+    const oos = summarize(best.e.foldTrades[fold.index].oos);
+    return [{ fold: fold.index, params: best.e.params, outOfSampleNetR: oos.netR, outOfSampleTrades: oos.trades }];
+  });
+
+  const results = evaluated.map((e) => e.result).sort(compareResults);
+  results.forEach((r, i) => r.rank = i + 1);
+
+  return {
+    symbol: params.symbol,
+    timeframe: params.timeframe,
+    from: params.candles[0]?.ts ?? null,
+    to: params.candles[params.candles.length - 1]?.ts ?? null,
+    candles: params.candles.length,
+    settings,
+    space,
+    baseConfig: params.baseConfig,
+    folds,
+    walkForward,
+    results,
+  };
+}
+
+/**
+ * Stores a run in `optimization_runs` and its ranked parameter sets in
+ * `optimization_results`; returns the run id.
+ */
+export async function saveOptimizationRun(
+  supabase: SupabaseAdmin,
+  report: OptimizationReport,
+  options: { label?: string | null } = {},
+): Promise<number> {
+  const { data: run, error } = await supabase
+    .from("optimization_runs")
+    .insert({
+      strategy_code: STRATEGY_CODE,
+      symbol: report.symbol,
+      timeframe: report.timeframe,
+      label: options.label ?? null,
+      range_from: report.from,
+      range_to: report.to,
+      candles: report.candles,
+      settings: report.settings,
+      space: report.space,
+      base_config: report.baseConfig,
+      folds: report.folds,
+      walk_forward: report.walkForward,
+      parameter_sets: report.results.length,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  // Inserted in chunks to stay under request size limits on large grids.
+  for (let i = 0; i < report.results.length; i += 200) {
+    const { error: resultErr } = await supabase
+      .from("optimization_results")
+      .insert(report.results.slice(i, i + 200).map((r) => ({
+        run_id: run.id,
+        rank: r.rank,
+        params: r.params,
+        config: r.config,
+        qualified: r.qualified,
+        oos_trades: r.outOfSample.trades,
+        oos_expectancy_r: r.outOfSample.expectancyR,
+        oos_net_r: r.outOfSample.netR,
+        oos_max_drawdown_r: r.outOfSample.maxDrawdownR,
+        in_sample: r.inSample,
+        out_of_sample: r.outOfSample,
+        fold_net_r: r.foldNetR,
+      })));
+    if (resultErr) throw resultErr;
+  }
+  return Number(run.id);
+}
+
+function describeParams(p: OptimizerParams): string {
+  return `D>=${p.minImpulsePips} buf=${p.slBufferPips} ${p.tpMode} w=${p.fractalWidth}`;
+}
+
+export function formatOptimizationReport(report: OptimizationReport, options: { top?: number } = {}): string {
+  const top = report.results.slice(0, options.top ?? 10);
+  const s = report.settings;
+  return [
+    `Walk-forward optimization ${report.symbol} ${report.timeframe}`,
+    `Range: ${report.from ?? "-"} -> ${report.to ?? "-"} (${report.candles} candles)`,
+    `Search: ${s.search} (${report.results.length} sets)  Folds: ${report.folds.length} x ${s.inSampleDays}d in-sample / ${s.outOfSampleDays}d out-of-sample`,
+    `Ranked on ${s.afterCosts ? "net" : "gross"} R, at least ${s.minOutOfSampleTrades} out-of-sample trades`,
+    ``,
+    `Rank  OOS trades  OOS exp   OOS DD  OOS netR   IS exp  Params`,
+    ...top.map((r) =>
+      [
+        String(r.rank).padStart(4),
+        String(r.outOfSample.trades).padStart(10),
+        `${r.outOfSample.expectancyR.toFixed(2)}R`.padStart(8),
+        `${r.outOfSample.maxDrawdownR.toFixed(2)}R`.padStart(7),
+        r.outOfSample.netR.toFixed(2).padStart(8),
+        `${r.inSample.expectancyR.toFixed(2)}R`.padStart(7),
+        `${describeParams(r.params)}${r.qualified ? "" : " (few trades)"}`,
+      ].join("  ")
+    ),
+    ``,
+    `Walk-forward (best in-sample set per fold):`,
+    ...report.walkForward.map((w) =>
+      `  fold ${w.fold} ${report.folds[w.fold].outOfSampleFrom.slice(0, 10)}: ${describeParams(w.params)} -> ${
+        w.outOfSampleNetR.toFixed(2)
+      }R over ${w.outOfSampleTrades} trades`
+    ),
+    `  total: ${report.walkForward.reduce((sum, w) => sum + w.outOfSampleNetR, 0).toFixed(2)}R`,
+  ].join("\n");
+}
@@ -0,0 +1,87 @@
+import { assert, assertAlmostEquals, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { parseCandlesCsv } from "./backtest.ts";
+import {
+  DEFAULT_OPTIMIZER_SETTINGS,
+  gridParams,
+  type OptimizerSpace,
+  randomParams,
+  runWalkForwardOptimization,
+  walkForwardFolds,
+} from "./optimizer.ts";
+import { resolveStrategyConfig } from "./strategy.ts";
+import type { Candle } from "./types.ts";
+
+const SPACE: OptimizerSpace = {
+  minImpulsePips: [10, 20, 30],
+  slBufferPips: [1, 3],
+  tpMode: ["pullback_swing", "fixed_r"],
+  fractalWidth: [3, 5],
+};
+
+const dailyCandles = (days: number): Candle[] =>
+  Array.from({ length: days }, (_, i) => ({
+    ts: new Date(Date.UTC(2026, 0, 5 + i)).toISOString(),
+    open: 1.1,
+    high: 1.1,
+    low: 1.1,
+    close: 1.1,
+  }));
+
+Deno.test("gridParams enumerates the space in a stable order", () => {
+  const grid = gridParams(SPACE);
+  assertEquals(grid.length, 24);
+  assertEquals(grid[0], { minImpulsePips: 10, slBufferPips: 1, tpMode: "pullback_swing", fractalWidth: 3 });
+  assertEquals(grid[1], { minImpulsePips: 10, slBufferPips: 1, tpMode: "pullback_swing", fractalWidth: 5 });
+  assertEquals(grid[23], { minImpulsePips: 30, slBufferPips: 3, tpMode: "fixed_r", fractalWidth: 5 });
+});
+
+Deno.test("randomParams draws distinct sets, reproducibly per seed", () => {
+  const key = (p: object) => JSON.stringify(p);
+  const sample = randomParams(SPACE, 10, 3);
+  assertEquals(sample.length, 10);
+  assertEquals(new Set(sample.map(key)).size, 10);
+  const grid = new Set(gridParams(SPACE).map(key));
+  assert(sample.every((p) => grid.has(key(p))));
+  assertEquals(randomParams(SPACE, 10, 3), sample);
+  assert(key(randomParams(SPACE, 10, 4)) !== key(sample));
+  // Asking for more than the grid returns all of it.
+  assertEquals(randomParams(SPACE, 100, 3).length, 24);
+});
+
+Deno.test("walkForwardFolds rolls by the out-of-sample length while a full fold fits", () => {
+  const settings = { ...DEFAULT_OPTIMIZER_SETTINGS, inSampleDays: 4, outOfSampleDays: 2 };
+  const folds = walkForwardFolds(dailyCandles(10), settings);
+  const day = (ts: string) => ts.slice(0, 10);
+  assertEquals(folds.map((f) => [day(f.inSampleFrom), day(f.outOfSampleFrom), day(f.outOfSampleTo)]), [
+    ["2026-01-05", "2026-01-09", "2026-01-11"],
+    ["2026-01-07", "2026-01-11", "2026-01-13"],
+    ["2026-01-09", "2026-01-13", "2026-01-15"],
+  ]);
+  assertEquals(walkForwardFolds(dailyCandles(5), settings), []);
+  assertEquals(walkForwardFolds([], settings), []);
+});
+
+Deno.test("results rank on out-of-sample expectancy and fold totals add up", async () => {
+  const csv = await Deno.readTextFile(new URL("../../../scripts/fixtures/eurusd_m15_sample.csv", import.meta.url));
+  const report = runWalkForwardOptimization({
+    symbol: "EUR/USD",
+    timeframe: "15min",
+    candles: parseCandlesCsv(csv),
+    baseConfig: resolveStrategyConfig(null),
+    space: { ...SPACE, minImpulsePips: [10, 20], slBufferPips: [3], fractalWidth: [3] },
+    settings: { inSampleDays: 14, outOfSampleDays: 7, minOutOfSampleTrades: 1 },
+  });
+  assertEquals(report.results.map((r) => r.rank), [1, 2, 3, 4]);
+  for (let i = 1; i < report.results.length; i++) {
+    const [a, b] = [report.results[i - 1], report.results[i]];
+    if (a.qualified === b.qualified) assert(a.outOfSample.expectancyR >= b.outOfSample.expectancyR);
+    else assert(a.qualified);
+  }
+  for (const result of report.results) {
+    const foldSum = result.foldNetR.reduce((sum, f) => sum + f.outOfSample, 0);
+    assertAlmostEquals(foldSum, result.outOfSample.netR, 0.05);
+    assertEquals(result.foldNetR.length, report.folds.length);
+  }
+  assert(report.folds.length >= 2);
+  assert(report.walkForward.every((w) => w.fold < report.folds.length));
+});
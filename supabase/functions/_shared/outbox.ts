@@ -0,0 +1,169 @@
+import type { createSupabaseAdmin } from "./supabaseAdmin.ts";
+import { sendTelegramMessage, TelegramApiError } from "./telegram.ts";
+
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+// Alerts are written to notification_outbox next to the rows they describe and
+// sent later by dispatchOutbox, so a Telegram failure never aborts an engine run.
+
+export type OutboxMessage = {
+  dedupeKey: string; // one message per key, e.g. "signal:<signal_key>:detected"
+  chatId: string;
+  text: string;
+  replyMarkup?: Record<string, unknown>;
+};
+
+export type DispatchResult = {
+  sent: number;
+  retried: number;
+  dead: number;
+  rateLimited: boolean;
+};
+
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 30 * 60_000;
+// A claimed message whose sender died is retried after this lease.
+const CLAIM_LEASE_MS = 2 * 60_000;
+
+/** Queues messages; a dedupe key that is already queued (or sent) is ignored. */
+export async function enqueueNotifications(supabase: SupabaseAdmin, messages: OutboxMessage[]): Promise<void> {
+  if (messages.length === 0) return;
+  const { error } = await supabase
+    .from("notification_outbox")
+    .upsert(
+      messages.map((m) => ({
+        dedupe_key: m.dedupeKey,
+        chat_id: m.chatId,
+        text: m.text,
+        reply_markup: m.replyMarkup ?? null,
+      })),
+      { onConflict: "dedupe_key", ignoreDuplicates: true },
+    );
+  if (error) throw error;
+}
+
+export async function enqueueNotification(supabase: SupabaseAdmin, message: OutboxMessage): Promise<void> {
+  await enqueueNotifications(supabase, [message]);
+}
+
+function backoffMs(attempts: number): number {
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+// 400/403 (bad Markdown, bot blocked, chat not found) will fail the same way again.
+function isPermanent(e: unknown): boolean {
+  return e instanceof TelegramApiError && (e.status === 400 || e.status === 403);
+}
+
+/**
+ * Sends due messages oldest first. Each message is claimed before sending so
+ * concurrent dispatchers never send it twice. Failures are retried with
+ * exponential backoff (Telegram's `retry_after` on 429, which also ends the
+ * batch); permanent failures and messages out of attempts are dead-lettered.
+ */
+export async function dispatchOutbox(
+  supabase: SupabaseAdmin,
+  botToken: string,
+  options: { limit?: number; deadline?: number } = {},
+): Promise<DispatchResult> {
+  const result: DispatchResult = { sent: 0, retried: 0, dead: 0, rateLimited: false };
+  const { data, error } = await supabase
+    .from("notification_outbox")
+    .select("id,chat_id,text,reply_markup,attempts,next_attempt_at")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("id", { ascending: true })
+    .limit(options.limit ?? 50);
+  if (error) throw error;
+
+  for (const row of data ?? []) {
+    if (options.deadline != null && Date.now() > options.deadline) break;
+    const attempts = Number(row.attempts) + 1;
+    const { data: claimed, error: claimErr } = await supabase
+      .from("notification_outbox")
+      .update({ attempts, next_attempt_at: new Date(Date.now() + CLAIM_LEASE_MS).toISOString() })
+      .eq("id", row.id)
+      .eq("status", "pending")
+      .eq("attempts", row.attempts)
+      .select("id");
+    if (claimErr) throw claimErr;
+    if (!claimed || claimed.length === 0) continue;
+
+    try {
+      await sendTelegramMessage({
+        botToken,
+        chatId: String(row.chat_id),
+        text: String(row.text),
+        replyMarkup: (row.reply_markup ?? undefined) as Record<string, unknown> | undefined,
+      });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      const retryAfterMs = e instanceof TelegramApiError && e.retryAfterSeconds != null
+        ? (e.retryAfterSeconds + 1) * 1000
+        : null;
+      const dead = isPermanent(e) || attempts >= MAX_ATTEMPTS;
+      const { error: failErr } = await supabase
+        .from("notification_outbox")
+        .update({
+          status: dead ? "dead" : "pending",
+          last_error: message,
+          next_attempt_at: new Date(Date.now() + (retryAfterMs ?? backoffMs(attempts))).toISOString(),
+        })
+        .eq("id", row.id);
+      if (failErr) throw failErr;
+      if (dead) result.dead++;
+      else result.retried++;
+      if (retryAfterMs != null) {
+        // Flood control applies to the whole bot: stop until retry_after has passed.
+        result.rateLimited = true;
+        break;
+      }
+      continue;
+    }
+
+    // Delivered: a failed status write is not a send failure and must not be
+    // retried as one, which would send the message twice.
+    const { error: sentErr } = await supabase
+      .from("notification_outbox")
+      .update({ status: "sent", sent_at: new Date().toISOString(), last_error: null })
+      .eq("id", row.id);
+    if (sentErr) throw sentErr;
+    result.sent++;
+  }
+  return result;
+}
+
+export type OutboxHealth = {
+  pending: number;
+  dead: number;
+  recentDead: { dedupeKey: string; lastError: string | null; createdAt: string }[];
+};
+
+/** Backlog and dead letters for `/debug`. */
+export async function loadOutboxHealth(supabase: SupabaseAdmin): Promise<OutboxHealth> {
+  const count = async (status: string) => {
+    const { count, error } = await supabase
+      .from("notification_outbox")
+      .select("id", { count: "exact", head: true })
+      .eq("status", status);
+    if (error) throw error;
+    return count ?? 0;
+  };
+  const { data, error } = await supabase
+    .from("notification_outbox")
+    .select("dedupe_key,last_error,created_at")
+    .eq("status", "dead")
+    .order("id", { ascending: false })
+    .limit(3);
+  if (error) throw error;
+  return {
+    pending: await count("pending"),
+    dead: await count("dead"),
+    recentDead: (data ?? []).map((r) => ({
+      dedupeKey: String(r.dedupe_key),
+      lastError: r.last_error ? String(r.last_error) : null,
+      createdAt: String(r.created_at),
+    })),
+  };
+}
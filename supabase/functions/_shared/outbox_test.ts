@@ -0,0 +1,108 @@
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { fakeSupabase, type FakeRow } from "./fakeSupabase.ts";
+import { dispatchOutbox } from "./outbox.ts";
+
+type Row = FakeRow;
+
+const outbox = (rows: Row[], options?: Parameters<typeof fakeSupabase>[1]) =>
+  fakeSupabase({ notification_outbox: rows }, options);
+
+function pendingRow(id: number, attempts = 0): Row {
+  return {
+    id,
+    chat_id: "42",
+    text: `message ${id}`,
+    reply_markup: null,
+    attempts,
+    status: "pending",
+    next_attempt_at: "2026-01-01T00:00:00.000Z",
+    last_error: null,
+  };
+}
+
+// Answers each Telegram call with the next response; success once they run out.
+async function withTelegram<T>(responses: Response[], fn: () => Promise<T>): Promise<T> {
+  const original = globalThis.fetch;
+  globalThis.fetch = (() => Promise.resolve(responses.shift() ?? Response.json({ ok: true }))) as typeof fetch;
+  try {
+    return await fn();
+  } finally {
+    globalThis.fetch = original;
+  }
+}
+
+const telegramError = (status: number, parameters?: Record<string, unknown>) =>
+  Response.json({ ok: false, description: `error ${status}`, parameters }, { status });
+
+// Delay between now and the row's next attempt, within the test's run time.
+function assertRetryIn(row: Row, delayMs: number, startedAt: number) {
+  const due = new Date(String(row.next_attempt_at)).getTime();
+  assert(due >= startedAt + delayMs && due <= Date.now() + delayMs, `retry at ${row.next_attempt_at}`);
+}
+
+Deno.test("sent messages are marked sent", async () => {
+  const rows = [pendingRow(1), pendingRow(2)];
+  const result = await withTelegram([], () => dispatchOutbox(outbox(rows), "token"));
+  assertEquals(result, { sent: 2, retried: 0, dead: 0, rateLimited: false });
+  assertEquals(rows.map((r) => [r.status, r.attempts]), [["sent", 1], ["sent", 1]]);
+});
+
+Deno.test("failed sends back off exponentially up to the cap", async () => {
+  const startedAt = Date.now();
+  const rows = [pendingRow(1), pendingRow(2, 3), pendingRow(3, 6)];
+  const result = await withTelegram(
+    [telegramError(500), telegramError(502), telegramError(500)],
+    () => dispatchOutbox(outbox(rows), "token"),
+  );
+  assertEquals(result, { sent: 0, retried: 3, dead: 0, rateLimited: false });
+  assertEquals(rows.map((r) => r.status), ["pending", "pending", "pending"]);
+  assertEquals(rows[1].last_error, "Telegram HTTP 502: error 502");
+  assertRetryIn(rows[0], 30_000, startedAt);
+  assertRetryIn(rows[1], 240_000, startedAt);
+  // 30s * 2^6 = 32 minutes, capped at 30.
+  assertRetryIn(rows[2], 30 * 60_000, startedAt);
+});
+
+Deno.test("permanent errors and the last attempt are dead-lettered", async () => {
+  const rows = [pendingRow(1), pendingRow(2, 7)];
+  const result = await withTelegram(
+    [telegramError(403), telegramError(500)],
+    () => dispatchOutbox(outbox(rows), "token"),
+  );
+  assertEquals(result, { sent: 0, retried: 0, dead: 2, rateLimited: false });
+  assertEquals(rows.map((r) => [r.status, r.attempts]), [["dead", 1], ["dead", 8]]);
+});
+
+Deno.test("a 429 waits for retry_after and ends the batch", async () => {
+  const startedAt = Date.now();
+  const rows = [pendingRow(1), pendingRow(2)];
+  const result = await withTelegram(
+    [telegramError(429, { retry_after: 5 })],
+    () => dispatchOutbox(outbox(rows), "token"),
+  );
+  assertEquals(result, { sent: 0, retried: 1, dead: 0, rateLimited: true });
+  assertRetryIn(rows[0], 6_000, startedAt);
+  assertEquals(rows[1].attempts, 0);
+});
+
+Deno.test("messages not yet due or no longer pending are skipped", async () => {
+  const rows: Row[] = [
+    { ...pendingRow(1), next_attempt_at: "2999-01-01T00:00:00.000Z" },
+    { ...pendingRow(2), status: "sent" },
+  ];
+  const result = await withTelegram([], () => dispatchOutbox(outbox(rows), "token"));
+  assertEquals(result, { sent: 0, retried: 0, dead: 0, rateLimited: false });
+  assertEquals(rows.map((r) => r.attempts), [0, 0]);
+});
+
+Deno.test("a delivered message whose status write fails is not retried", async () => {
+  const rows = [pendingRow(1), pendingRow(2)];
+  const responses = [Response.json({ ok: true }), Response.json({ ok: true })];
+  const supabase = outbox(rows, { failWrite: (_table, values) => values.status === "sent" });
+  const error = await withTelegram(responses, () => dispatchOutbox(supabase, "token").then(() => null, (e) => e));
+  assertEquals(error, { message: "write to notification_outbox failed" });
+  // One send, and the row stays claimed under its lease rather than marked failed.
+  assertEquals(responses.length, 1);
+  assertEquals([rows[0].status, rows[0].attempts, rows[0].last_error], ["pending", 1, null]);
+  assertEquals(rows[1].attempts, 0);
+});
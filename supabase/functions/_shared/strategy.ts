@@ -1,35 +1,64 @@
+import { closedTradeCosts, resolveSessionSpreads } from "./costs.ts";
+import { confirmFractalAt, FRACTAL_SOURCES, FRACTAL_TIE_MODES, fractalLag, fractalRuleOf } from "./fractals.ts";
 import type {
   Candle,
+  CyclePhase,
+  Direction,
+  EngineCycleState,
   EngineEvent,
   EngineRunResult,
   EngineRuntimeSnapshot,
   EngineSignal,
+  EngineState,
   EngineTrade,
   Fractal,
-  FractalType,
+  FractalSource,
+  FractalTieMode,
+  IntrabarTimeframe,
+  StopAdjustment,
+  StrategyConfig,
+  TakeProfitMode,
+  TraceFractal,
+  TraceStep,
+  TrailMode,
 } from "./types.ts";
 
-const PIP = 0.0001;
-const SL_BUFFER = 3 * PIP;
-const D_MIN = 20 * PIP;
-const STRATEGY_CODE = "eurusd_m15_continuation_v1";
-
-type State =
-  | "WAIT_SWING_BOS"
-  | "BEAR_WAIT_PULLBACK_START"
-  | "BEAR_TRACK_PULLBACK"
-  | "BEAR_WAIT_CONTINUATION_TRIGGER"
-  | "BULL_WAIT_PULLBACK_START"
-  | "BULL_TRACK_PULLBACK"
-  | "BULL_WAIT_CONTINUATION_TRIGGER"
-  | "IN_TRADE";
-
-type OpenTradeRuntime = {
-  trade: EngineTrade;
-  signal: EngineSignal;
-  entryIndex: number;
+export const STRATEGY_CODE = "eurusd_m15_continuation_v1";
+
+export const DEFAULT_STRATEGY_CONFIG: StrategyConfig = {
+  pipSize: 0.0001,
+  slBufferPips: 3,
+  minImpulsePips: 20,
+  fractalWidth: 3,
+  fractalTieMode: "strict",
+  fractalSource: "wick",
+  tpMode: "pullback_swing",
+  tpRMultiple: 2,
+  minRewardRisk: 1,
+  tp1CloseFraction: 0.5,
+  tp2RMultiple: 2,
+  breakevenAtR: 0,
+  trailMode: "off",
+  maxHoldingCandles: 0,
+  intrabarTimeframe: "off",
+  spreadPips: 0,
+  sessionSpreads: [],
+  slippagePips: 0,
+  commissionPerLot: 0,
+  pipValuePerLot: 10,
 };
 
+const TP_MODES: TakeProfitMode[] = ["pullback_swing", "fixed_r", "pullback_min_rr", "two_target"];
+const TRAIL_MODES: TrailMode[] = ["off", "fractal"];
+const INTRABAR_TIMEFRAMES: IntrabarTimeframe[] = ["off", "1min", "5min"];
+
+const ENGINE_STATE_VERSION = 1;
+const MAX_RETAINED_FRACTALS = 50;
+// Hard cap on retained candles; cycle lookbacks older than this are clipped.
+const MAX_RETAINED_CANDLES = 5000;
+// Trace steps kept between two signals; older ones are dropped first.
+const MAX_TRACE_STEPS = 40;
+
 function roundPx(n: number): number {
   return Number(n.toFixed(6));
 }
@@ -38,47 +67,179 @@ function roundPips(n: number): number {
   return Number(n.toFixed(2));
 }
 
-function confirmFractalAt(candles: Candle[], pivotIndex: number): Fractal | null {
-  if (pivotIndex - 1 < 0 || pivotIndex + 1 >= candles.length) return null;
-  const prev = candles[pivotIndex - 1];
-  const cur = candles[pivotIndex];
-  const next = candles[pivotIndex + 1];
+function positiveNumber(value: unknown, fallback: number): number {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) && n > 0 ? n : fallback;
+}
 
-  if (cur.high > prev.high && cur.high > next.high) {
-    return {
-      type: "FSH",
-      index: pivotIndex,
-      price: cur.high,
-      confirmedAtIndex: pivotIndex + 1,
-    };
-  }
-  if (cur.low < prev.low && cur.low < next.low) {
-    return {
-      type: "FSL",
-      index: pivotIndex,
-      price: cur.low,
-      confirmedAtIndex: pivotIndex + 1,
-    };
+function nonNegativeNumber(value: unknown, fallback: number): number {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * Builds a full strategy config from a partial/untrusted object (e.g. the
+ * `strategy_controls.config` jsonb column). Invalid values fall back to defaults.
+ */
+export function resolveStrategyConfig(raw?: unknown): StrategyConfig {
+  const o = raw && typeof raw === "object" ? raw as Record<string, unknown> : {};
+  const d = DEFAULT_STRATEGY_CONFIG;
+  const width = Math.floor(positiveNumber(o.fractalWidth, d.fractalWidth));
+  const fraction = positiveNumber(o.tp1CloseFraction, d.tp1CloseFraction);
+  return {
+    pipSize: positiveNumber(o.pipSize, d.pipSize),
+    slBufferPips: nonNegativeNumber(o.slBufferPips, d.slBufferPips),
+    minImpulsePips: nonNegativeNumber(o.minImpulsePips, d.minImpulsePips),
+    // Fractal windows are symmetric around the pivot, so the width must be odd and >= 3.
+    fractalWidth: width >= 3 && width % 2 === 1 ? width : d.fractalWidth,
+    fractalTieMode: FRACTAL_TIE_MODES.includes(o.fractalTieMode as FractalTieMode)
+      ? o.fractalTieMode as FractalTieMode
+      : d.fractalTieMode,
+    fractalSource: FRACTAL_SOURCES.includes(o.fractalSource as FractalSource)
+      ? o.fractalSource as FractalSource
+      : d.fractalSource,
+    tpMode: TP_MODES.includes(o.tpMode as TakeProfitMode) ? o.tpMode as TakeProfitMode : d.tpMode,
+    tpRMultiple: positiveNumber(o.tpRMultiple, d.tpRMultiple),
+    minRewardRisk: nonNegativeNumber(o.minRewardRisk, d.minRewardRisk),
+    tp1CloseFraction: fraction < 1 ? fraction : d.tp1CloseFraction,
+    tp2RMultiple: positiveNumber(o.tp2RMultiple, d.tp2RMultiple),
+    breakevenAtR: nonNegativeNumber(o.breakevenAtR, d.breakevenAtR),
+    trailMode: TRAIL_MODES.includes(o.trailMode as TrailMode) ? o.trailMode as TrailMode : d.trailMode,
+    maxHoldingCandles: Math.floor(nonNegativeNumber(o.maxHoldingCandles, d.maxHoldingCandles)),
+    intrabarTimeframe: INTRABAR_TIMEFRAMES.includes(o.intrabarTimeframe as IntrabarTimeframe)
+      ? o.intrabarTimeframe as IntrabarTimeframe
+      : d.intrabarTimeframe,
+    spreadPips: nonNegativeNumber(o.spreadPips, d.spreadPips),
+    sessionSpreads: resolveSessionSpreads(o.sessionSpreads),
+    slippagePips: nonNegativeNumber(o.slippagePips, d.slippagePips),
+    commissionPerLot: nonNegativeNumber(o.commissionPerLot, d.commissionPerLot),
+    pipValuePerLot: positiveNumber(o.pipValuePerLot, d.pipValuePerLot),
+  };
+}
+
+/** Reward-to-risk of a target from `entry`; null when the stop is not beyond the entry. */
+export function rewardRiskRatio(direction: Direction, entry: number, stopLoss: number, target: number): number | null {
+  const sign = direction === "LONG" ? 1 : -1;
+  const risk = (entry - stopLoss) * sign;
+  return risk > 0 ? ((target - entry) * sign) / risk : null;
+}
+
+/**
+ * Take-profit levels for an entry according to `config.tpMode`. R-multiple
+ * targets depend on the entry, so they are estimated from the trigger close when
+ * the signal is created and recomputed from the actual open on fill.
+ */
+export function planTakeProfits(
+  config: StrategyConfig,
+  direction: Direction,
+  entry: number,
+  stopLoss: number,
+  swingTarget: number,
+): { takeProfit: number; takeProfit2: number | null } {
+  const sign = direction === "LONG" ? 1 : -1;
+  const risk = (entry - stopLoss) * sign;
+  const atR = (r: number) => roundPx(entry + sign * r * risk);
+  const swing = roundPx(swingTarget);
+  // Without a valid risk distance R-based targets are meaningless; keep the swing.
+  if (risk <= 0) return { takeProfit: swing, takeProfit2: null };
+  switch (config.tpMode) {
+    case "fixed_r":
+      return { takeProfit: atR(config.tpRMultiple), takeProfit2: null };
+    case "two_target": {
+      // TP2 is never placed before TP1.
+      const extension = atR(config.tp2RMultiple);
+      return { takeProfit: swing, takeProfit2: sign > 0 ? Math.max(extension, swing) : Math.min(extension, swing) };
+    }
+    default:
+      return { takeProfit: swing, takeProfit2: null };
   }
-  return null;
 }
 
-function lastConfirmedOfType(
-  confirmedFractals: Fractal[],
-  type: FractalType,
-  currentCandleIndex: number,
-  pivotStrictlyBeforeCurrent = false,
-): Fractal | null {
-  for (let i = confirmedFractals.length - 1; i >= 0; i--) {
-    const f = confirmedFractals[i];
-    if (f.type !== type) continue;
-    if (f.confirmedAtIndex > currentCandleIndex) continue;
-    if (pivotStrictlyBeforeCurrent && f.index >= currentCandleIndex) continue;
-    return f;
+type IntrabarOrder = "SL" | "TP1_SL" | "TP";
+
+// Replays the lower-timeframe bars of an ambiguous candle with the same touch
+// rules. Returns null when they cannot tell the order: both levels inside one
+// bar, or bars that never reach the levels the candle itself reached.
+function intrabarOrder(
+  bars: Candle[],
+  long: boolean,
+  stopLoss: number,
+  tp1: number | null,
+  finalTarget: number | null,
+): IntrabarOrder | null {
+  let tookTp1 = false;
+  for (const b of bars) {
+    const sl = long ? b.low <= stopLoss : b.high >= stopLoss;
+    const t1 = tp1 != null && !tookTp1 && (long ? b.high >= tp1 : b.low <= tp1);
+    const fin = finalTarget != null && (long ? b.high >= finalTarget : b.low <= finalTarget);
+    if (sl && (t1 || fin)) return null;
+    if (sl) return tookTp1 ? "TP1_SL" : "SL";
+    if (fin) return "TP";
+    if (t1) tookTp1 = true;
   }
   return null;
 }
 
+function configKey(config: StrategyConfig): string {
+  return JSON.stringify(config);
+}
+
+function emptyCycle(): EngineCycleState {
+  return {
+    phase: "WAIT_SWING_BOS",
+    bosIndex: -1,
+    bosTs: null,
+    anchorLine: 0,
+    anchorIndex: -1,
+    causalExtreme: 0,
+    causalExtremeIndex: -1,
+    pbLevel: 0,
+    impulsePips: 0,
+    pullbackStartIndex: -1,
+    pullbackConfirmIndex: -1,
+    pbLow: null,
+    pbHigh: null,
+    sLow: null,
+    sHigh: null,
+  };
+}
+
+export function createEngineState(config: StrategyConfig = DEFAULT_STRATEGY_CONFIG): EngineState {
+  return {
+    version: ENGINE_STATE_VERSION,
+    configKey: configKey(config),
+    nextIndex: 0,
+    lastCandleTs: null,
+    bufferStart: 0,
+    candles: [],
+    fractals: [],
+    lastFSH: null,
+    lastFSL: null,
+    cycle: emptyCycle(),
+    pendingSignal: null,
+    openTrade: null,
+  };
+}
+
+/**
+ * Validates a persisted state (e.g. `strategy_runtime_state.payload.engine`).
+ * Returns null when it is missing, from another engine version, or was produced
+ * with a different config, in which case the caller should replay from scratch.
+ */
+export function restoreEngineState(raw: unknown, config: StrategyConfig): EngineState | null {
+  if (!raw || typeof raw !== "object") return null;
+  const state = raw as EngineState;
+  if (state.version !== ENGINE_STATE_VERSION) return null;
+  if (state.configKey !== configKey(config)) return null;
+  if (!Array.isArray(state.candles) || !Array.isArray(state.fractals) || !state.cycle) return null;
+  return state;
+}
+
+/** Drops the current cycle (back to WAIT_SWING_BOS) while keeping fractals and any open trade. */
+export function resetEngineCycle(state: EngineState): EngineState {
+  return { ...state, cycle: emptyCycle(), pendingSignal: null };
+}
+
 function buildSignalKey(symbol: string, timeframe: string, direction: string, triggerTime: string): string {
   return `${STRATEGY_CODE}:${symbol}:${timeframe}:${direction}:${triggerTime}`;
 }
@@ -87,80 +248,119 @@ function buildTradeKey(signalKey: string): string {
   return `${signalKey}:trade`;
 }
 
-function computeBias(state: State): "BULLISH" | "BEARISH" | "NEUTRAL" {
-  if (state.startsWith("BEAR")) return "BEARISH";
-  if (state.startsWith("BULL")) return "BULLISH";
+/** Deterministic key of an engine event, stable across replays of the same candles. */
+export function buildEventKey(symbol: string, timeframe: string, event: EngineEvent): string {
+  const base = `${STRATEGY_CODE}:${symbol}:${timeframe}:${event.type}:${event.at}`;
+  return event.type === "STOP_MOVED" ? `${base}:${event.tradeKey}` : base;
+}
+
+function computeBias(phase: CyclePhase): "BULLISH" | "BEARISH" | "NEUTRAL" {
+  if (phase.startsWith("BEAR")) return "BEARISH";
+  if (phase.startsWith("BULL")) return "BULLISH";
   return "NEUTRAL";
 }
 
+/**
+ * Advances the continuation state machine over `candles` (ascending). Only closed
+ * candles are processed; a trailing candle with `isClosed: false` is used solely
+ * to report the entry of a pending signal. When `state` is given, candles at or
+ * before `state.lastCandleTs` are skipped and processing resumes exactly where the
+ * previous run stopped, so results do not depend on how many candles each run loads.
+ */
 export function runContinuationStrategy(params: {
   symbol: string;
   timeframe: string;
   candles: Candle[];
+  config?: StrategyConfig;
+  state?: EngineState | null;
+  intrabarCandles?: Map<string, Candle[]>; // lower-timeframe bars keyed by the open time of their candle
+  trace?: boolean; // record the decisions of the state machine and attach them to signals
+  signalFilter?: (signal: EngineSignal) => string | null; // reason to drop a new signal, null to let it through
 }): EngineRunResult {
-  const { symbol, timeframe, candles } = params;
-  const signals: EngineSignal[] = [];
-  const trades: EngineTrade[] = [];
+  const { symbol, timeframe } = params;
+  const config = params.config ?? DEFAULT_STRATEGY_CONFIG;
+  const PIP = config.pipSize;
+  const SL_BUFFER = config.slBufferPips * PIP;
+  const D_MIN = config.minImpulsePips * PIP;
+  const fractalRule = fractalRuleOf(config);
+  const lag = fractalLag(config.fractalWidth);
+
+  const s: EngineState = params.state && params.state.configKey === configKey(config)
+    ? structuredClone(params.state)
+    : createEngineState(config);
+  let cy = s.cycle;
+
+  const signals = new Map<string, EngineSignal>();
+  const trades = new Map<string, EngineTrade>();
   const events: EngineEvent[] = [];
+  const missingIntrabar: string[] = [];
+
+  const candleAt = (i: number): Candle => s.candles[i - s.bufferStart];
+  const px = (n: number) => String(roundPx(n));
 
-  let state: State = "WAIT_SWING_BOS";
-  let tradeRuntime: OpenTradeRuntime | null = null;
-
-  const confirmedFractals: Fractal[] = [];
-  let lastFSH: Fractal | null = null;
-  let lastFSL: Fractal | null = null;
-
-  // Cycle runtime
-  let tBos = -1;
-  let anchorLine = 0;
-  let anchorIndex = -1;
-  let causalExtreme = 0;
-  let causalExtremeIndex = -1;
-  let pbLevel = 0;
-  let impulsePips = 0;
-  let pullbackStartIndex = -1;
-  let pullbackConfirmIndex = -1;
-  let pbLow = Number.POSITIVE_INFINITY;
-  let pbHigh = Number.NEGATIVE_INFINITY;
-  let sLow = Number.NaN;
-  let sHigh = Number.NaN;
+  function fractalRef(role: string, f: Fractal): TraceFractal {
+    return { role, type: f.type, index: f.index, at: candleAt(f.index)?.ts ?? null, price: roundPx(f.price) };
+  }
+
+  function traceStep(t: number, step: Omit<TraceStep, "index" | "at" | "close">): void {
+    if (!params.trace) return;
+    const c = candleAt(t);
+    s.trace = [...(s.trace ?? []), { index: t, at: c.ts, close: roundPx(c.close), ...step }].slice(-MAX_TRACE_STEPS);
+  }
+
+  // Hands the steps recorded since the previous signal to a new signal.
+  function attachTrace(signal: EngineSignal): void {
+    if (!params.trace) return;
+    signal.trace = s.trace ?? [];
+    s.trace = [];
+  }
 
   function resetCycle() {
-    state = "WAIT_SWING_BOS";
-    tBos = -1;
-    anchorLine = 0;
-    anchorIndex = -1;
-    causalExtreme = 0;
-    causalExtremeIndex = -1;
-    pbLevel = 0;
-    impulsePips = 0;
-    pullbackStartIndex = -1;
-    pullbackConfirmIndex = -1;
-    pbLow = Number.POSITIVE_INFINITY;
-    pbHigh = Number.NEGATIVE_INFINITY;
-    sLow = Number.NaN;
-    sHigh = Number.NaN;
+    cy = emptyCycle();
+    s.cycle = cy;
   }
 
-  function startBearCycleFromBosDown(t: number, bLine: number, bIndex: number): boolean {
-    tBos = t;
-    anchorLine = bLine;
-    anchorIndex = bIndex;
+  // `rule`/`fractals` describe the break that started the cycle, for the trace.
+  function startBearCycleFromBosDown(
+    t: number,
+    bLine: number,
+    bIndex: number,
+    rule: string,
+    fractals: TraceFractal[],
+  ): boolean {
+    cy.bosIndex = t;
+    cy.bosTs = candleAt(t).ts;
+    cy.anchorLine = bLine;
+    cy.anchorIndex = bIndex;
     let h = -Infinity;
     let hIndex = bIndex;
-    for (let k = bIndex; k <= t; k++) {
-      if (candles[k].high > h) {
-        h = candles[k].high;
+    for (let k = Math.max(bIndex, s.bufferStart); k <= t; k++) {
+      if (candleAt(k).high > h) {
+        h = candleAt(k).high;
         hIndex = k;
       }
     }
-    causalExtreme = h;
-    causalExtremeIndex = hIndex;
+    cy.causalExtreme = h;
+    cy.causalExtremeIndex = hIndex;
     const d = h - bLine;
+    const levels = {
+      anchorLine: roundPx(bLine),
+      causalExtreme: roundPx(h),
+      impulsePips: roundPips(d / PIP),
+      minImpulsePips: roundPips(D_MIN / PIP),
+    };
     if (d < D_MIN) {
+      traceStep(t, {
+        kind: "CYCLE_DISCARDED",
+        direction: "SHORT",
+        rule,
+        outcome: `D = H ${px(h)} - B ${px(bLine)} = ${levels.impulsePips}p < ${levels.minImpulsePips}p: cycle discarded`,
+        levels,
+        fractals,
+      });
       events.push({
         type: "CYCLE_DISCARDED",
-        at: candles[t].ts,
+        at: candleAt(t).ts,
         direction: "SHORT",
         impulsePips: roundPips(d / PIP),
         minImpulsePips: roundPips(D_MIN / PIP),
@@ -168,33 +368,73 @@ export function runContinuationStrategy(params: {
       resetCycle();
       return false;
     }
-    impulsePips = roundPips(d / PIP);
-    pbLevel = (bLine + h) / 2;
-    pbLow = Number.POSITIVE_INFINITY;
-    sLow = Number.NaN;
-    state = "BEAR_WAIT_PULLBACK_START";
+    cy.impulsePips = roundPips(d / PIP);
+    cy.pbLevel = (bLine + h) / 2;
+    cy.pbLow = null;
+    cy.sLow = null;
+    cy.phase = "BEAR_WAIT_PULLBACK_START";
+    traceStep(t, {
+      kind: "BOS",
+      direction: "SHORT",
+      rule,
+      outcome: `Bearish BOS: B = ${px(bLine)}, H = ${px(h)} (candle ${hIndex}), D = ${cy.impulsePips}p >= ${
+        levels.minImpulsePips
+      }p, PB level = ${px(cy.pbLevel)}`,
+      levels: { ...levels, pbLevel: roundPx(cy.pbLevel) },
+      fractals,
+    });
+    events.push({
+      type: "BOS_DETECTED",
+      at: candleAt(t).ts,
+      direction: "SHORT",
+      anchorLine: roundPx(bLine),
+      causalExtreme: roundPx(h),
+      impulsePips: cy.impulsePips,
+      pbLevel: roundPx(cy.pbLevel),
+    });
     return true;
   }
 
-  function startBullCycleFromBosUp(t: number, aLine: number, aIndex: number): boolean {
-    tBos = t;
-    anchorLine = aLine;
-    anchorIndex = aIndex;
+  function startBullCycleFromBosUp(
+    t: number,
+    aLine: number,
+    aIndex: number,
+    rule: string,
+    fractals: TraceFractal[],
+  ): boolean {
+    cy.bosIndex = t;
+    cy.bosTs = candleAt(t).ts;
+    cy.anchorLine = aLine;
+    cy.anchorIndex = aIndex;
     let l = Infinity;
     let lIndex = aIndex;
-    for (let k = aIndex; k <= t; k++) {
-      if (candles[k].low < l) {
-        l = candles[k].low;
+    for (let k = Math.max(aIndex, s.bufferStart); k <= t; k++) {
+      if (candleAt(k).low < l) {
+        l = candleAt(k).low;
         lIndex = k;
       }
     }
-    causalExtreme = l;
-    causalExtremeIndex = lIndex;
+    cy.causalExtreme = l;
+    cy.causalExtremeIndex = lIndex;
     const d = aLine - l;
+    const levels = {
+      anchorLine: roundPx(aLine),
+      causalExtreme: roundPx(l),
+      impulsePips: roundPips(d / PIP),
+      minImpulsePips: roundPips(D_MIN / PIP),
+    };
     if (d < D_MIN) {
+      traceStep(t, {
+        kind: "CYCLE_DISCARDED",
+        direction: "LONG",
+        rule,
+        outcome: `D = A ${px(aLine)} - L ${px(l)} = ${levels.impulsePips}p < ${levels.minImpulsePips}p: cycle discarded`,
+        levels,
+        fractals,
+      });
       events.push({
         type: "CYCLE_DISCARDED",
-        at: candles[t].ts,
+        at: candleAt(t).ts,
         direction: "LONG",
         impulsePips: roundPips(d / PIP),
         minImpulsePips: roundPips(D_MIN / PIP),
@@ -202,102 +442,362 @@ export function runContinuationStrategy(params: {
       resetCycle();
       return false;
     }
-    impulsePips = roundPips(d / PIP);
-    pbLevel = (aLine + l) / 2;
-    pbHigh = Number.NEGATIVE_INFINITY;
-    sHigh = Number.NaN;
-    state = "BULL_WAIT_PULLBACK_START";
+    cy.impulsePips = roundPips(d / PIP);
+    cy.pbLevel = (aLine + l) / 2;
+    cy.pbHigh = null;
+    cy.sHigh = null;
+    cy.phase = "BULL_WAIT_PULLBACK_START";
+    traceStep(t, {
+      kind: "BOS",
+      direction: "LONG",
+      rule,
+      outcome: `Bullish BOS: A = ${px(aLine)}, L = ${px(l)} (candle ${lIndex}), D = ${cy.impulsePips}p >= ${
+        levels.minImpulsePips
+      }p, PB level = ${px(cy.pbLevel)}`,
+      levels: { ...levels, pbLevel: roundPx(cy.pbLevel) },
+      fractals,
+    });
+    events.push({
+      type: "BOS_DETECTED",
+      at: candleAt(t).ts,
+      direction: "LONG",
+      anchorLine: roundPx(aLine),
+      causalExtreme: roundPx(l),
+      impulsePips: cy.impulsePips,
+      pbLevel: roundPx(cy.pbLevel),
+    });
+    return true;
+  }
+
+  function targetsFrom(signal: EngineSignal, entry: number) {
+    return planTakeProfits(config, signal.direction, entry, signal.stopLoss, signal.pullbackSwingTarget);
+  }
+
+  // Gate for pullback_min_rr, judged on the trigger close (the next open is not known yet).
+  function rejectsRewardRisk(t: number, direction: Direction, c: Candle, stopLoss: number, swingTarget: number): boolean {
+    if (config.tpMode !== "pullback_min_rr") return false;
+    const rr = rewardRiskRatio(direction, c.close, stopLoss, swingTarget);
+    if (rr != null && rr >= config.minRewardRisk) return false;
+    traceStep(t, {
+      kind: "SIGNAL_REJECTED",
+      direction,
+      rule: `R:R from close ${px(c.close)} to swing ${px(swingTarget)} with SL ${px(stopLoss)} = ${
+        rr != null ? roundPips(rr) : "-"
+      } < ${config.minRewardRisk}`,
+      outcome: "Signal rejected (pullback_min_rr), cycle reset",
+      levels: { stopLoss, swingTarget, rewardRisk: rr != null ? roundPips(rr) : null, minRewardRisk: config.minRewardRisk },
+      fractals: [],
+    });
+    events.push({
+      type: "SIGNAL_REJECTED",
+      at: c.ts,
+      direction,
+      rewardRisk: rr != null ? roundPips(rr) : null,
+      minRewardRisk: config.minRewardRisk,
+    });
+    resetCycle();
     return true;
   }
 
-  function simulateOpenTradeAtCandle(t: number): void {
-    if (!tradeRuntime) return;
-    const c = candles[t];
-    const tr = tradeRuntime.trade;
+  // A filtered signal is still reported, but resets the cycle instead of waiting for its entry.
+  function filtersOut(t: number, signal: EngineSignal): boolean {
+    const reason = params.signalFilter?.(signal) ?? null;
+    if (!reason) return false;
+    signal.filteredReason = reason;
+    traceStep(t, {
+      kind: "SIGNAL_FILTERED",
+      direction: signal.direction,
+      rule: reason,
+      outcome: "Signal filtered, no entry; cycle reset",
+      levels: { stopLoss: signal.stopLoss, takeProfit: signal.takeProfit },
+      fractals: [],
+    });
+    attachTrace(signal);
+    signals.set(signal.signalKey, signal);
+    resetCycle();
+    return true;
+  }
+
+  function entryTradeFor(signal: EngineSignal, c: Candle, t: number): EngineTrade {
+    return {
+      tradeKey: buildTradeKey(signal.signalKey),
+      signalKey: signal.signalKey,
+      symbol,
+      timeframe,
+      direction: signal.direction,
+      entryTime: c.ts,
+      entryPrice: roundPx(c.open),
+      stopLoss: signal.stopLoss,
+      initialStopLoss: signal.stopLoss,
+      takeProfit: signal.takeProfit,
+      takeProfit2: signal.takeProfit2,
+      exitTime: null,
+      exitPrice: null,
+      exitReason: null,
+      exitResolution: null,
+      rMultiple: null,
+      netRMultiple: null,
+      costs: null,
+      status: "OPEN",
+      partialExits: [],
+      remainingFraction: 1,
+      stopAdjustments: [],
+      payload: { entryIndex: t, triggerIndex: signal.triggerCandleIndex },
+    };
+  }
 
-    if (t < tradeRuntime.entryIndex) return;
+  // Entry is the open of the candle after the trigger candle.
+  function fillPendingEntry(t: number): void {
+    const signal = s.pendingSignal;
+    if (!signal) return;
+    const c = candleAt(t);
+    signal.plannedEntryTime = c.ts;
+    signal.plannedEntryPrice = roundPx(c.open);
+    signal.entryStatus = "known_next_open";
+    Object.assign(signal, targetsFrom(signal, signal.plannedEntryPrice));
+    signals.set(signal.signalKey, signal);
+
+    const trade = entryTradeFor(signal, c, t);
+    trades.set(trade.tradeKey, trade);
+    s.openTrade = { trade, signal, entryIndex: t };
+    s.pendingSignal = null;
+  }
+
+  // The open of a still-forming candle is already final, so a pending entry can
+  // be reported from it. Nothing else is decided on a forming candle and the state
+  // is left untouched: the closed bar is processed normally on the next run and
+  // yields the same signal/trade rows.
+  function previewPendingEntry(c: Candle): void {
+    const pending = s.pendingSignal;
+    if (!pending) return;
+    const signal: EngineSignal = {
+      ...pending,
+      plannedEntryTime: c.ts,
+      plannedEntryPrice: roundPx(c.open),
+      entryStatus: "known_next_open",
+      ...targetsFrom(pending, roundPx(c.open)),
+    };
+    signals.set(signal.signalKey, signal);
+    const trade = entryTradeFor(signal, c, s.nextIndex);
+    trades.set(trade.tradeKey, trade);
+  }
+
+  // Stop changes are decided on the candle close and only apply from the next candle.
+  function manageOpenTrade(c: Candle, newFractal: Fractal | null): void {
+    if (!s.openTrade) return;
+    const tr = s.openTrade.trade;
+    const long = tr.direction === "LONG";
+    const risk = long ? tr.entryPrice - tr.initialStopLoss : tr.initialStopLoss - tr.entryPrice;
+    const improves = (level: number, than: number) => long ? level > than : level < than;
+
+    let next = tr.stopLoss;
+    let reason: StopAdjustment["reason"] | null = null;
+    if (config.breakevenAtR > 0 && risk > 0) {
+      const trigger = long ? tr.entryPrice + config.breakevenAtR * risk : tr.entryPrice - config.breakevenAtR * risk;
+      const reached = long ? c.high >= trigger : c.low <= trigger;
+      if (reached && improves(tr.entryPrice, next)) {
+        next = tr.entryPrice;
+        reason = "BREAKEVEN";
+      }
+    }
+    if (
+      config.trailMode === "fractal" && newFractal && newFractal.type === (long ? "FSL" : "FSH") &&
+      newFractal.index >= s.openTrade.entryIndex
+    ) {
+      const level = roundPx(long ? newFractal.price - SL_BUFFER : newFractal.price + SL_BUFFER);
+      const beyondClose = long ? level < c.close : level > c.close;
+      if (beyondClose && improves(level, next)) {
+        next = level;
+        reason = "TRAIL";
+      }
+    }
+    if (reason == null) return;
+
+    tr.stopAdjustments.push({ time: c.ts, from: tr.stopLoss, to: next, reason });
+    events.push({
+      type: "STOP_MOVED",
+      at: c.ts,
+      signalKey: tr.signalKey,
+      tradeKey: tr.tradeKey,
+      direction: tr.direction,
+      from: tr.stopLoss,
+      to: next,
+      reason,
+    });
+    tr.stopLoss = next;
+    trades.set(tr.tradeKey, tr);
+  }
+
+  function simulateOpenTradeAtCandle(t: number, newFractal: Fractal | null): void {
+    if (!s.openTrade) return;
+    const c = candleAt(t);
+    const tr = s.openTrade.trade;
+
+    if (t < s.openTrade.entryIndex) return;
     if (tr.status !== "OPEN") return;
 
-    if (tr.direction === "LONG") {
-      const hitsSl = c.low <= tr.stopLoss;
-      const hitsTp = c.high >= tr.takeProfit;
-      if (!hitsSl && !hitsTp) return;
-      const slFirst = hitsSl && hitsTp ? true : hitsSl;
-      tr.exitTime = c.ts;
-      tr.exitPrice = slFirst ? tr.stopLoss : tr.takeProfit;
-      tr.exitReason = slFirst ? "SL" : "TP";
-      const risk = tr.entryPrice - tr.stopLoss;
-      const reward = tr.exitPrice - tr.entryPrice;
-      tr.rMultiple = risk > 0 ? roundPips(reward / risk) : null;
-      tr.status = "CLOSED";
-      tradeRuntime = null;
-      resetCycle();
-      return;
+    const long = tr.direction === "LONG";
+    const reached = (level: number) => long ? c.high >= level : c.low <= level;
+    const risk = long ? tr.entryPrice - tr.initialStopLoss : tr.initialStopLoss - tr.entryPrice;
+    const rAt = (price: number) => risk > 0 ? (long ? price - tr.entryPrice : tr.entryPrice - price) / risk : null;
+    const hitsSl = long ? c.low <= tr.stopLoss : c.high >= tr.stopLoss;
+    const tp1Pending = tr.takeProfit2 != null && tr.partialExits.length === 0;
+    const hitsTp1 = tp1Pending && reached(tr.takeProfit);
+    const finalTarget = tr.takeProfit2 ?? tr.takeProfit;
+    let hitsTp = reached(finalTarget);
+    let slExit = hitsSl;
+    let takeTp1 = hitsTp1 && !hitsSl;
+
+    // A candle touching both SL and a target is ordered with lower-timeframe bars
+    // when available, otherwise SL is assumed first.
+    if (hitsSl && (hitsTp1 || hitsTp)) {
+      let order: IntrabarOrder | null = null;
+      if (config.intrabarTimeframe === "off") {
+        tr.exitResolution = "conservative";
+      } else {
+        const bars = params.intrabarCandles?.get(c.ts);
+        if (bars) {
+          // Only levels the candle itself reached are considered.
+          order = intrabarOrder(bars, long, tr.stopLoss, hitsTp1 ? tr.takeProfit : null, hitsTp ? finalTarget : null);
+        } else {
+          missingIntrabar.push(c.ts);
+        }
+        tr.exitResolution = order ? "intrabar" : "unknown";
+      }
+      order ??= "SL";
+      slExit = order !== "TP";
+      hitsTp = order === "TP";
+      takeTp1 = hitsTp1 && order !== "SL";
     }
 
-    const hitsSl = c.high >= tr.stopLoss;
-    const hitsTp = c.low <= tr.takeProfit;
-    if (!hitsSl && !hitsTp) return;
-    const slFirst = hitsSl && hitsTp ? true : hitsSl;
+    if (takeTp1) {
+      const fraction = config.tp1CloseFraction;
+      const r = rAt(tr.takeProfit);
+      tr.partialExits.push({
+        leg: "TP1",
+        time: c.ts,
+        price: tr.takeProfit,
+        fraction,
+        rMultiple: r != null ? roundPips(r) : null,
+      });
+      tr.remainingFraction = roundPips(1 - fraction);
+      trades.set(tr.tradeKey, tr);
+    }
+
+    const timedOut = config.maxHoldingCandles > 0 && t - s.openTrade.entryIndex + 1 >= config.maxHoldingCandles;
+    if (!slExit && !hitsTp && !timedOut) {
+      manageOpenTrade(c, newFractal);
+      return;
+    }
     tr.exitTime = c.ts;
-    tr.exitPrice = slFirst ? tr.stopLoss : tr.takeProfit;
-    tr.exitReason = slFirst ? "SL" : "TP";
-    const risk = tr.stopLoss - tr.entryPrice;
-    const reward = tr.entryPrice - (tr.exitPrice ?? tr.entryPrice);
-    tr.rMultiple = risk > 0 ? roundPips(reward / risk) : null;
+    tr.exitPrice = slExit ? tr.stopLoss : hitsTp ? finalTarget : roundPx(c.close);
+    tr.exitReason = slExit ? "SL" : hitsTp ? "TP" : "TIME";
+    const finalR = rAt(tr.exitPrice);
+    const grossR = finalR == null ? null : tr.partialExits.reduce((sum, p) => sum + p.fraction * (rAt(p.price) ?? 0), 0) +
+      tr.remainingFraction * finalR;
+    tr.costs = closedTradeCosts(tr, config);
+    tr.rMultiple = grossR == null ? null : roundPips(grossR);
+    tr.netRMultiple = grossR == null ? null : roundPips(grossR - (tr.costs.totalPips * PIP) / risk);
     tr.status = "CLOSED";
-    tradeRuntime = null;
+    trades.set(tr.tradeKey, tr);
+    s.openTrade = null;
     resetCycle();
   }
 
-  for (let t = 0; t < candles.length; t++) {
-    const fractal = confirmFractalAt(candles, t - 1);
-    if (fractal && fractal.confirmedAtIndex === t) {
-      confirmedFractals.push(fractal);
-      if (fractal.type === "FSH") lastFSH = fractal;
-      if (fractal.type === "FSL") lastFSL = fractal;
+  function trimBuffer(): void {
+    let keepFrom = s.nextIndex - config.fractalWidth;
+    for (const idx of [s.lastFSH?.index, s.lastFSL?.index, cy.causalExtremeIndex]) {
+      if (idx != null && idx >= 0) keepFrom = Math.min(keepFrom, idx);
+    }
+    keepFrom = Math.max(keepFrom, s.nextIndex - MAX_RETAINED_CANDLES);
+    if (keepFrom > s.bufferStart) {
+      s.candles = s.candles.slice(keepFrom - s.bufferStart);
+      s.bufferStart = keepFrom;
+    }
+    if (s.fractals.length > MAX_RETAINED_FRACTALS) {
+      s.fractals = s.fractals.slice(-MAX_RETAINED_FRACTALS);
     }
+  }
 
-    if (state === "IN_TRADE") {
-      simulateOpenTradeAtCandle(t);
-      if (state === "IN_TRADE") continue;
+  function processCandle(t: number): void {
+    const fractal = confirmFractalAt(s.candles, s.bufferStart, t - lag, fractalRule);
+    const confirmed = fractal && fractal.confirmedAtIndex === t ? fractal : null;
+    if (confirmed) {
+      s.fractals.push(confirmed);
+      if (confirmed.type === "FSH") s.lastFSH = confirmed;
+      if (confirmed.type === "FSL") s.lastFSL = confirmed;
     }
 
-    const c = candles[t];
+    if (s.pendingSignal) fillPendingEntry(t);
+    if (s.openTrade) {
+      simulateOpenTradeAtCandle(t, confirmed);
+      if (s.openTrade) return;
+    }
 
-    switch (state) {
+    const c = candleAt(t);
+    const { lastFSH, lastFSL } = s;
+
+    switch (cy.phase) {
       case "WAIT_SWING_BOS": {
         if (lastFSL && c.close < lastFSL.price) {
-          startBearCycleFromBosDown(t, lastFSL.price, lastFSL.index);
+          startBearCycleFromBosDown(t, lastFSL.price, lastFSL.index, `close ${px(c.close)} < FSL ${px(lastFSL.price)}`, [
+            fractalRef("broken FSL (B)", lastFSL),
+          ]);
           break;
         }
         if (lastFSH && c.close > lastFSH.price) {
-          startBullCycleFromBosUp(t, lastFSH.price, lastFSH.index);
+          startBullCycleFromBosUp(t, lastFSH.price, lastFSH.index, `close ${px(c.close)} > FSH ${px(lastFSH.price)}`, [
+            fractalRef("broken FSH (A)", lastFSH),
+          ]);
         }
         break;
       }
 
       case "BEAR_WAIT_PULLBACK_START": {
         if (lastFSH && c.close > lastFSH.price) {
-          pullbackStartIndex = t;
-          pbLow = c.low;
-          state = "BEAR_TRACK_PULLBACK";
+          cy.pullbackStartIndex = t;
+          cy.pbLow = c.low;
+          cy.phase = "BEAR_TRACK_PULLBACK";
+          traceStep(t, {
+            kind: "PULLBACK_STARTED",
+            direction: "SHORT",
+            rule: `close ${px(c.close)} > FSH ${px(lastFSH.price)}`,
+            outcome: `Pullback started; tracking its low from ${px(c.low)}`,
+            levels: { breakLevel: roundPx(lastFSH.price), pbLevel: roundPx(cy.pbLevel) },
+            fractals: [fractalRef("broken FSH", lastFSH)],
+          });
+          events.push({ type: "PULLBACK_STARTED", at: c.ts, direction: "SHORT", breakLevel: roundPx(lastFSH.price) });
         }
         break;
       }
 
       case "BEAR_TRACK_PULLBACK": {
-        pbLow = Math.min(pbLow, c.low);
-        if (c.close > pbLevel) {
-          sLow = pbLow;
-          pullbackConfirmIndex = t;
-          state = "BEAR_WAIT_CONTINUATION_TRIGGER";
+        cy.pbLow = Math.min(cy.pbLow ?? Infinity, c.low);
+        if (c.close > cy.pbLevel) {
+          cy.sLow = cy.pbLow;
+          cy.pullbackConfirmIndex = t;
+          cy.phase = "BEAR_WAIT_CONTINUATION_TRIGGER";
+          traceStep(t, {
+            kind: "PULLBACK_CONFIRMED",
+            direction: "SHORT",
+            rule: `close ${px(c.close)} > PB level ${px(cy.pbLevel)}`,
+            outcome: `Pullback confirmed; S_low = ${px(cy.sLow)} (lowest low since the pullback started)`,
+            levels: { pbLevel: roundPx(cy.pbLevel), swingTarget: roundPx(cy.sLow) },
+            fractals: [],
+          });
+          events.push({
+            type: "PULLBACK_CONFIRMED",
+            at: c.ts,
+            direction: "SHORT",
+            pbLevel: roundPx(cy.pbLevel),
+            swingTarget: roundPx(cy.sLow),
+          });
         }
         break;
       }
 
       case "BEAR_WAIT_CONTINUATION_TRIGGER": {
-        if (c.close > causalExtreme && causalExtremeIndex >= 0) {
+        if (c.close > cy.causalExtreme && cy.causalExtremeIndex >= 0) {
           events.push({
             type: "STRUCTURE_FLIP",
             at: c.ts,
@@ -305,22 +805,40 @@ export function runContinuationStrategy(params: {
             to: "BULLISH",
             reason: "Close above bearish causal extreme (H)",
           });
-          startBullCycleFromBosUp(t, causalExtreme, causalExtremeIndex);
+          traceStep(t, {
+            kind: "STRUCTURE_FLIP",
+            direction: "LONG",
+            rule: `close ${px(c.close)} > H ${px(cy.causalExtreme)}`,
+            outcome: "Bearish structure invalidated; H becomes the bullish anchor A",
+            levels: { causalExtreme: roundPx(cy.causalExtreme) },
+            fractals: [],
+          });
+          startBullCycleFromBosUp(t, cy.causalExtreme, cy.causalExtremeIndex, `close ${px(c.close)} > A ${px(cy.causalExtreme)}`, []);
           break;
         }
         if (!lastFSL || c.close >= lastFSL.price) break;
 
-        const causeFSH = lastConfirmedOfType(confirmedFractals, "FSH", t, true);
-        if (!causeFSH || !Number.isFinite(sLow)) {
+        // The latest confirmed FSH always has its pivot before the current candle.
+        const causeFSH = lastFSH;
+        if (!causeFSH || cy.sLow == null) {
+          traceStep(t, {
+            kind: "CYCLE_RESET",
+            direction: "SHORT",
+            rule: `close ${px(c.close)} < FSL ${px(lastFSL.price)}`,
+            outcome: "No FSH to place the stop behind (or no pullback swing): cycle reset",
+            levels: {},
+            fractals: [fractalRef("broken FSL", lastFSL)],
+          });
           resetCycle();
           break;
         }
 
-        const signalKey = buildSignalKey(symbol, timeframe, "SHORT", c.ts);
-        const plannedEntryTime = candles[t + 1]?.ts ?? null;
-        const plannedEntryPrice = candles[t + 1] ? roundPx(candles[t + 1].open) : null;
         const stopLoss = roundPx(causeFSH.price + SL_BUFFER);
-        const takeProfit = roundPx(sLow);
+        const swingTarget = roundPx(cy.sLow);
+        if (rejectsRewardRisk(t, "SHORT", c, stopLoss, swingTarget)) break;
+
+        const signalKey = buildSignalKey(symbol, timeframe, "SHORT", c.ts);
+        const { takeProfit, takeProfit2 } = planTakeProfits(config, "SHORT", c.close, stopLoss, swingTarget);
 
         const signal: EngineSignal = {
           signalKey,
@@ -328,78 +846,91 @@ export function runContinuationStrategy(params: {
           symbol,
           timeframe,
           direction: "SHORT",
-          bosTime: candles[tBos].ts,
+          bosTime: cy.bosTs ?? c.ts,
           triggerTime: c.ts,
-          plannedEntryTime,
-          plannedEntryPrice,
-          entryStatus: plannedEntryPrice == null ? "pending_next_open" : "known_next_open",
+          plannedEntryTime: null,
+          plannedEntryPrice: null,
+          entryStatus: "pending_next_open",
           stopLoss,
           takeProfit,
-          impulsePips,
-          anchorLine: roundPx(anchorLine),
-          causalExtreme: roundPx(causalExtreme),
-          pbLevel: roundPx(pbLevel),
-          pullbackSwingTarget: roundPx(sLow),
+          takeProfit2,
+          impulsePips: cy.impulsePips,
+          anchorLine: roundPx(cy.anchorLine),
+          causalExtreme: roundPx(cy.causalExtreme),
+          pbLevel: roundPx(cy.pbLevel),
+          pullbackSwingTarget: swingTarget,
           causeFractalType: "FSH",
           causeFractalIndex: causeFSH.index,
           triggerCandleIndex: t,
           metrics: {
-            bosToPullbackStartCandles: pullbackStartIndex - tBos,
-            pullbackStartToConfirmCandles: pullbackConfirmIndex - pullbackStartIndex,
-            confirmToTriggerCandles: t - pullbackConfirmIndex,
+            bosToPullbackStartCandles: cy.pullbackStartIndex - cy.bosIndex,
+            pullbackStartToConfirmCandles: cy.pullbackConfirmIndex - cy.pullbackStartIndex,
+            confirmToTriggerCandles: t - cy.pullbackConfirmIndex,
           },
-          payload: { stateMachine: "BEAR" },
+          payload: { stateMachine: "BEAR", config },
         };
-        signals.push(signal);
-
-        if (candles[t + 1]) {
-          const trade: EngineTrade = {
-            tradeKey: buildTradeKey(signalKey),
-            signalKey,
-            symbol,
-            timeframe,
-            direction: "SHORT",
-            entryTime: candles[t + 1].ts,
-            entryPrice: roundPx(candles[t + 1].open),
-            stopLoss,
-            takeProfit,
-            exitTime: null,
-            exitPrice: null,
-            exitReason: null,
-            rMultiple: null,
-            status: "OPEN",
-            payload: { entryIndex: t + 1, triggerIndex: t },
-          };
-          trades.push(trade);
-          tradeRuntime = { trade, signal, entryIndex: t + 1 };
-          state = "IN_TRADE";
-        } else {
-          resetCycle();
-        }
+        traceStep(t, {
+          kind: "TRIGGER",
+          direction: "SHORT",
+          rule: `close ${px(c.close)} < FSL ${px(lastFSL.price)}`,
+          outcome: `SHORT signal: SL = FSH ${px(causeFSH.price)} + ${config.slBufferPips}p = ${stopLoss}, TP = ${takeProfit}${
+            takeProfit2 != null ? `, TP2 = ${takeProfit2}` : ""
+          } (${config.tpMode}); entry at the next open`,
+          levels: { stopLoss, takeProfit, takeProfit2, swingTarget },
+          fractals: [fractalRef("broken FSL", lastFSL), fractalRef("stop FSH", causeFSH)],
+        });
+        if (filtersOut(t, signal)) break;
+        attachTrace(signal);
+        signals.set(signalKey, signal);
+        s.pendingSignal = signal;
         break;
       }
 
       case "BULL_WAIT_PULLBACK_START": {
         if (lastFSL && c.close < lastFSL.price) {
-          pullbackStartIndex = t;
-          pbHigh = c.high;
-          state = "BULL_TRACK_PULLBACK";
+          cy.pullbackStartIndex = t;
+          cy.pbHigh = c.high;
+          cy.phase = "BULL_TRACK_PULLBACK";
+          traceStep(t, {
+            kind: "PULLBACK_STARTED",
+            direction: "LONG",
+            rule: `close ${px(c.close)} < FSL ${px(lastFSL.price)}`,
+            outcome: `Pullback started; tracking its high from ${px(c.high)}`,
+            levels: { breakLevel: roundPx(lastFSL.price), pbLevel: roundPx(cy.pbLevel) },
+            fractals: [fractalRef("broken FSL", lastFSL)],
+          });
+          events.push({ type: "PULLBACK_STARTED", at: c.ts, direction: "LONG", breakLevel: roundPx(lastFSL.price) });
         }
         break;
       }
 
       case "BULL_TRACK_PULLBACK": {
-        pbHigh = Math.max(pbHigh, c.high);
-        if (c.close < pbLevel) {
-          sHigh = pbHigh;
-          pullbackConfirmIndex = t;
-          state = "BULL_WAIT_CONTINUATION_TRIGGER";
+        cy.pbHigh = Math.max(cy.pbHigh ?? -Infinity, c.high);
+        if (c.close < cy.pbLevel) {
+          cy.sHigh = cy.pbHigh;
+          cy.pullbackConfirmIndex = t;
+          cy.phase = "BULL_WAIT_CONTINUATION_TRIGGER";
+          traceStep(t, {
+            kind: "PULLBACK_CONFIRMED",
+            direction: "LONG",
+            rule: `close ${px(c.close)} < PB level ${px(cy.pbLevel)}`,
+            outcome: `Pullback confirmed; S_high = ${px(cy.sHigh)} (highest high since the pullback started)`,
+            levels: { pbLevel: roundPx(cy.pbLevel), swingTarget: roundPx(cy.sHigh) },
+            fractals: [],
+          });
+          events.push({
+            type: "PULLBACK_CONFIRMED",
+            at: c.ts,
+            direction: "LONG",
+            pbLevel: roundPx(cy.pbLevel),
+            swingTarget: roundPx(cy.sHigh),
+          });
         }
         break;
       }
 
       case "BULL_WAIT_CONTINUATION_TRIGGER": {
-        if (c.close < causalExtreme && causalExtremeIndex >= 0) {
+        if (c.close < cy.causalExtreme && cy.causalExtremeIndex >= 0) {
           events.push({
             type: "STRUCTURE_FLIP",
             at: c.ts,
@@ -407,22 +938,39 @@ export function runContinuationStrategy(params: {
             to: "BEARISH",
             reason: "Close below bullish causal extreme (L)",
           });
-          startBearCycleFromBosDown(t, causalExtreme, causalExtremeIndex);
+          traceStep(t, {
+            kind: "STRUCTURE_FLIP",
+            direction: "SHORT",
+            rule: `close ${px(c.close)} < L ${px(cy.causalExtreme)}`,
+            outcome: "Bullish structure invalidated; L becomes the bearish anchor B",
+            levels: { causalExtreme: roundPx(cy.causalExtreme) },
+            fractals: [],
+          });
+          startBearCycleFromBosDown(t, cy.causalExtreme, cy.causalExtremeIndex, `close ${px(c.close)} < B ${px(cy.causalExtreme)}`, []);
           break;
         }
         if (!lastFSH || c.close <= lastFSH.price) break;
 
-        const causeFSL = lastConfirmedOfType(confirmedFractals, "FSL", t, true);
-        if (!causeFSL || !Number.isFinite(sHigh)) {
+        const causeFSL = lastFSL;
+        if (!causeFSL || cy.sHigh == null) {
+          traceStep(t, {
+            kind: "CYCLE_RESET",
+            direction: "LONG",
+            rule: `close ${px(c.close)} > FSH ${px(lastFSH.price)}`,
+            outcome: "No FSL to place the stop behind (or no pullback swing): cycle reset",
+            levels: {},
+            fractals: [fractalRef("broken FSH", lastFSH)],
+          });
           resetCycle();
           break;
         }
 
-        const signalKey = buildSignalKey(symbol, timeframe, "LONG", c.ts);
-        const plannedEntryTime = candles[t + 1]?.ts ?? null;
-        const plannedEntryPrice = candles[t + 1] ? roundPx(candles[t + 1].open) : null;
         const stopLoss = roundPx(causeFSL.price - SL_BUFFER);
-        const takeProfit = roundPx(sHigh);
+        const swingTarget = roundPx(cy.sHigh);
+        if (rejectsRewardRisk(t, "LONG", c, stopLoss, swingTarget)) break;
+
+        const signalKey = buildSignalKey(symbol, timeframe, "LONG", c.ts);
+        const { takeProfit, takeProfit2 } = planTakeProfits(config, "LONG", c.close, stopLoss, swingTarget);
 
         const signal: EngineSignal = {
           signalKey,
@@ -430,88 +978,98 @@ export function runContinuationStrategy(params: {
           symbol,
           timeframe,
           direction: "LONG",
-          bosTime: candles[tBos].ts,
+          bosTime: cy.bosTs ?? c.ts,
           triggerTime: c.ts,
-          plannedEntryTime,
-          plannedEntryPrice,
-          entryStatus: plannedEntryPrice == null ? "pending_next_open" : "known_next_open",
+          plannedEntryTime: null,
+          plannedEntryPrice: null,
+          entryStatus: "pending_next_open",
           stopLoss,
           takeProfit,
-          impulsePips,
-          anchorLine: roundPx(anchorLine),
-          causalExtreme: roundPx(causalExtreme),
-          pbLevel: roundPx(pbLevel),
-          pullbackSwingTarget: roundPx(sHigh),
+          takeProfit2,
+          impulsePips: cy.impulsePips,
+          anchorLine: roundPx(cy.anchorLine),
+          causalExtreme: roundPx(cy.causalExtreme),
+          pbLevel: roundPx(cy.pbLevel),
+          pullbackSwingTarget: swingTarget,
           causeFractalType: "FSL",
           causeFractalIndex: causeFSL.index,
           triggerCandleIndex: t,
           metrics: {
-            bosToPullbackStartCandles: pullbackStartIndex - tBos,
-            pullbackStartToConfirmCandles: pullbackConfirmIndex - pullbackStartIndex,
-            confirmToTriggerCandles: t - pullbackConfirmIndex,
+            bosToPullbackStartCandles: cy.pullbackStartIndex - cy.bosIndex,
+            pullbackStartToConfirmCandles: cy.pullbackConfirmIndex - cy.pullbackStartIndex,
+            confirmToTriggerCandles: t - cy.pullbackConfirmIndex,
           },
-          payload: { stateMachine: "BULL" },
+          payload: { stateMachine: "BULL", config },
         };
-        signals.push(signal);
-
-        if (candles[t + 1]) {
-          const trade: EngineTrade = {
-            tradeKey: buildTradeKey(signalKey),
-            signalKey,
-            symbol,
-            timeframe,
-            direction: "LONG",
-            entryTime: candles[t + 1].ts,
-            entryPrice: roundPx(candles[t + 1].open),
-            stopLoss,
-            takeProfit,
-            exitTime: null,
-            exitPrice: null,
-            exitReason: null,
-            rMultiple: null,
-            status: "OPEN",
-            payload: { entryIndex: t + 1, triggerIndex: t },
-          };
-          trades.push(trade);
-          tradeRuntime = { trade, signal, entryIndex: t + 1 };
-          state = "IN_TRADE";
-        } else {
-          resetCycle();
-        }
+        traceStep(t, {
+          kind: "TRIGGER",
+          direction: "LONG",
+          rule: `close ${px(c.close)} > FSH ${px(lastFSH.price)}`,
+          outcome: `LONG signal: SL = FSL ${px(causeFSL.price)} - ${config.slBufferPips}p = ${stopLoss}, TP = ${takeProfit}${
+            takeProfit2 != null ? `, TP2 = ${takeProfit2}` : ""
+          } (${config.tpMode}); entry at the next open`,
+          levels: { stopLoss, takeProfit, takeProfit2, swingTarget },
+          fractals: [fractalRef("broken FSH", lastFSH), fractalRef("stop FSL", causeFSL)],
+        });
+        if (filtersOut(t, signal)) break;
+        attachTrace(signal);
+        signals.set(signalKey, signal);
+        s.pendingSignal = signal;
         break;
       }
+    }
+  }
 
-      case "IN_TRADE":
-        break;
+  for (const candle of params.candles) {
+    if (s.lastCandleTs && candle.ts <= s.lastCandleTs) continue;
+    if (candle.isClosed === false) {
+      previewPendingEntry(candle);
+      break;
     }
+    const t = s.nextIndex;
+    s.candles.push(candle);
+    s.nextIndex = t + 1;
+    s.lastCandleTs = candle.ts;
+    processCandle(t);
+    trimBuffer();
   }
 
-  const lastCandleTs = candles.length > 0 ? candles[candles.length - 1].ts : null;
+  const { lastFSH, lastFSL, openTrade, pendingSignal } = s;
+  const activeSignal = openTrade?.signal ?? pendingSignal;
   const runtime: EngineRuntimeSnapshot = {
     strategyCode: STRATEGY_CODE,
     symbol,
     timeframe,
-    bias: state === "IN_TRADE"
-      ? (tradeRuntime?.signal.direction === "LONG" ? "BULLISH" : "BEARISH")
-      : computeBias(state),
-    state,
-    lastCandleTs,
+    bias: activeSignal
+      ? (activeSignal.direction === "LONG" ? "BULLISH" : "BEARISH")
+      : computeBias(cy.phase),
+    state: activeSignal ? "IN_TRADE" : cy.phase,
+    lastCandleTs: s.lastCandleTs,
     lastFSHPrice: lastFSH ? roundPx(lastFSH.price) : null,
     lastFSLPrice: lastFSL ? roundPx(lastFSL.price) : null,
-    anchorLine: anchorIndex >= 0 ? roundPx(anchorLine) : null,
-    anchorIndex: anchorIndex >= 0 ? anchorIndex : null,
-    causalExtreme: causalExtremeIndex >= 0 ? roundPx(causalExtreme) : null,
-    causalExtremeIndex: causalExtremeIndex >= 0 ? causalExtremeIndex : null,
-    midpointLevel: anchorIndex >= 0 ? roundPx(pbLevel) : null,
-    impulsePips: anchorIndex >= 0 ? impulsePips : null,
-    pullbackStartIndex: pullbackStartIndex >= 0 ? pullbackStartIndex : null,
-    pullbackConfirmIndex: pullbackConfirmIndex >= 0 ? pullbackConfirmIndex : null,
-    pbLow: Number.isFinite(pbLow) ? roundPx(pbLow) : null,
-    pbHigh: Number.isFinite(pbHigh) ? roundPx(pbHigh) : null,
-    sLow: Number.isFinite(sLow) ? roundPx(sLow) : null,
-    sHigh: Number.isFinite(sHigh) ? roundPx(sHigh) : null,
-    activeTradeKey: tradeRuntime?.trade.tradeKey ?? null,
+    anchorLine: cy.anchorIndex >= 0 ? roundPx(cy.anchorLine) : null,
+    anchorIndex: cy.anchorIndex >= 0 ? cy.anchorIndex : null,
+    causalExtreme: cy.causalExtremeIndex >= 0 ? roundPx(cy.causalExtreme) : null,
+    causalExtremeIndex: cy.causalExtremeIndex >= 0 ? cy.causalExtremeIndex : null,
+    midpointLevel: cy.anchorIndex >= 0 ? roundPx(cy.pbLevel) : null,
+    impulsePips: cy.anchorIndex >= 0 ? cy.impulsePips : null,
+    pullbackStartIndex: cy.pullbackStartIndex >= 0 ? cy.pullbackStartIndex : null,
+    pullbackConfirmIndex: cy.pullbackConfirmIndex >= 0 ? cy.pullbackConfirmIndex : null,
+    pbLow: cy.pbLow != null ? roundPx(cy.pbLow) : null,
+    pbHigh: cy.pbHigh != null ? roundPx(cy.pbHigh) : null,
+    sLow: cy.sLow != null ? roundPx(cy.sLow) : null,
+    sHigh: cy.sHigh != null ? roundPx(cy.sHigh) : null,
+    activeTradeKey: openTrade?.trade.tradeKey ?? null,
+    htfBias: [], // set by the engine when the HTF bias filter is on
+    config,
   };
 
-  return { signals, trades, runtime, events };
+  return {
+    signals: [...signals.values()],
+    trades: [...trades.values()],
+    runtime,
+    events,
+    state: s,
+    missingIntrabar,
+  };
 }
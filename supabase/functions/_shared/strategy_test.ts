@@ -0,0 +1,316 @@
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { parseCandlesCsv } from "./backtest.ts";
+import { findFractals, fractalRuleOf } from "./fractals.ts";
+import { planTakeProfits, resolveStrategyConfig, restoreEngineState, runContinuationStrategy } from "./strategy.ts";
+import type { Candle, EngineState, EngineTrade, StrategyConfig } from "./types.ts";
+
+const PIP = 0.0001;
+const price = (pips: number) => Number((1.1 + pips * PIP).toFixed(5));
+const tsAt = (i: number) => new Date(Date.UTC(2026, 0, 5) + i * 15 * 60_000).toISOString();
+
+// 15min candles from [open, high, low, close] rows in pips around 1.1000.
+function candlesFromPips(rows: number[][]): Candle[] {
+  return rows.map(([o, h, l, c], i) => ({ ts: tsAt(i), open: price(o), high: price(h), low: price(l), close: price(c) }));
+}
+
+// A bearish BOS through the FSL at -10 (H = 32, D = 42 pips, PB level 11), a pullback
+// that starts above the FSH at -6 and closes above the PB level (S_low = -23), then
+// a close below the FSL at -2 on candle 16: SHORT with SL = FSH 15 + 3 = 18, TP = -23.
+const SETUP = [
+  [0, 2, -2, 0],
+  [0, 1, -10, -8],
+  [-8, 12, -7, 10],
+  [10, 32, 9, 30],
+  [30, 31, 14, 15],
+  [15, 16, -13, -12], // 5: BOS
+  [-12, -11, -22, -20],
+  [-20, -6, -21, -8],
+  [-8, -7, -18, -16],
+  [-16, -15, -30, -28],
+  [-28, -20, -29, -22],
+  [-22, -3, -23, -4], // 11: pullback started
+  [-4, 14, -5, 13], // 12: pullback confirmed
+  [13, 15, 2, 4],
+  [4, 6, -2, 5],
+  [5, 7, 3, 6],
+  [6, 8, -6, -5], // 16: trigger
+];
+const ENTRY_INDEX = SETUP.length;
+
+function run(
+  after: number[][],
+  config: Record<string, unknown> = {},
+  extra: Partial<Parameters<typeof runContinuationStrategy>[0]> = {},
+) {
+  return runContinuationStrategy({
+    symbol: "EUR/USD",
+    timeframe: "15min",
+    candles: candlesFromPips([...SETUP, ...after]),
+    config: resolveStrategyConfig(config),
+    ...extra,
+  });
+}
+
+Deno.test("a continuation trigger enters at the next open and exits at the swing target", () => {
+  const result = run([[-5, -3, -12, -10], [-10, -8, -26, -24]]);
+  assertEquals(result.signals.length, 1);
+  const [signal] = result.signals;
+  assertEquals(signal.direction, "SHORT");
+  assertEquals(signal.triggerTime, tsAt(ENTRY_INDEX - 1));
+  assertEquals(signal.stopLoss, price(18));
+  assertEquals(signal.takeProfit, price(-23));
+  assertEquals(signal.plannedEntryPrice, price(-5));
+
+  assertEquals(result.trades.length, 1);
+  const [trade] = result.trades;
+  assertEquals(trade.entryTime, tsAt(ENTRY_INDEX));
+  assertEquals(trade.exitReason, "TP");
+  assertEquals(trade.exitPrice, price(-23));
+  assertEquals(trade.rMultiple, 0.78);
+  assertEquals(result.state.openTrade, null);
+});
+
+Deno.test("a filtered signal resets the cycle instead of arming an entry", () => {
+  const filtered: string[] = [];
+  const result = run([], {}, {
+    trace: true,
+    signalFilter: (signal) => {
+      filtered.push(signal.signalKey);
+      return "Outside trading sessions";
+    },
+  });
+  assertEquals(filtered.length, 1);
+  assertEquals(result.signals.length, 1);
+  const [signal] = result.signals;
+  assertEquals(signal.filteredReason, "Outside trading sessions");
+  assertEquals(signal.entryStatus, "pending_next_open");
+  assertEquals(signal.trace?.map((step) => step.kind).slice(-2), ["TRIGGER", "SIGNAL_FILTERED"]);
+  assertEquals(result.state.pendingSignal, null);
+  assertEquals(result.state.cycle.phase, "WAIT_SWING_BOS");
+  assertEquals(result.runtime.activeTradeKey, null);
+
+  // The candles that would have filled and closed the trade leave nothing behind.
+  const later = run([[-5, -3, -12, -10], [-10, -8, -26, -24]], {}, { signalFilter: () => "News blackout" });
+  assertEquals(later.trades, []);
+  assertEquals(later.state.openTrade, null);
+});
+
+Deno.test("a signal the filter lets through trades as without a filter", () => {
+  const after = [[-5, -3, -12, -10], [-10, -8, -26, -24]];
+  const passed = run(after, {}, { signalFilter: () => null });
+  assertEquals(passed.trades, run(after).trades);
+  assert(passed.signals.every((s) => s.filteredReason == null));
+});
+
+Deno.test("breakeven moves the stop to the entry, effective from the next candle", () => {
+  // Entry -5, risk 23 pips: 0.5R is reached at -16.5 on the entry candle, whose high
+  // also trades through the entry; the moved stop only applies from the next candle.
+  const after = [[-5, -4, -17, -10], [-10, -4, -12, -6]];
+  const result = run(after, { breakevenAtR: 0.5 });
+  const [trade] = result.trades;
+  assertEquals(trade.stopAdjustments, [{ time: tsAt(ENTRY_INDEX), from: price(18), to: price(-5), reason: "BREAKEVEN" }]);
+  assertEquals(trade.exitTime, tsAt(ENTRY_INDEX + 1));
+  assertEquals(trade.exitReason, "SL");
+  assertEquals(trade.rMultiple, 0);
+  assertEquals(trade.initialStopLoss, price(18));
+  assertEquals(result.events.filter((e) => e.type === "STOP_MOVED").length, 1);
+
+  // Without breakeven the same candles leave the trade open.
+  assertEquals(run(after).trades[0].status, "OPEN");
+});
+
+Deno.test("the fractal trail follows new FSH pivots after the entry", () => {
+  // The FSH at -2 (candle 18) is confirmed on candle 19: stop 18 -> -2 + 3 = 1.
+  const after = [[-5, -4, -12, -10], [-10, -2, -14, -13], [-13, -11, -20, -19], [-19, 2, -20, 0]];
+  const [trade] = run(after, { trailMode: "fractal" }).trades;
+  assertEquals(trade.stopAdjustments, [{ time: tsAt(ENTRY_INDEX + 2), from: price(18), to: price(1), reason: "TRAIL" }]);
+  assertEquals(trade.exitReason, "SL");
+  assertEquals(trade.exitPrice, price(1));
+  assertEquals(trade.rMultiple, -0.26);
+});
+
+Deno.test("stops never move against the trade", () => {
+  // Breakeven first (stop -5); the later FSH at -2 would put the stop at 1, behind it.
+  const after = [[-5, -4, -17, -10], [-10, -2, -14, -13], [-13, -11, -20, -19]];
+  const [trade] = run(after, { breakevenAtR: 0.5, trailMode: "fractal" }).trades;
+  assertEquals(trade.stopAdjustments.map((a) => a.reason), ["BREAKEVEN"]);
+  assertEquals(trade.stopLoss, price(-5));
+});
+
+Deno.test("planTakeProfits places R-based targets from the entry", () => {
+  const fixed = resolveStrategyConfig({ tpMode: "fixed_r", tpRMultiple: 2 });
+  assertEquals(planTakeProfits(fixed, "LONG", 1.1, 1.099, 1.1005), { takeProfit: 1.102, takeProfit2: null });
+  assertEquals(planTakeProfits(fixed, "SHORT", 1.1, 1.101, 1.0995), { takeProfit: 1.098, takeProfit2: null });
+  // No risk distance: the swing target is kept.
+  assertEquals(planTakeProfits(fixed, "LONG", 1.1, 1.1, 1.1005), { takeProfit: 1.1005, takeProfit2: null });
+
+  const two = resolveStrategyConfig({ tpMode: "two_target", tp2RMultiple: 1 });
+  assertEquals(planTakeProfits(two, "LONG", 1.1, 1.099, 1.1005), { takeProfit: 1.1005, takeProfit2: 1.101 });
+  // TP2 is never placed before TP1.
+  assertEquals(planTakeProfits(two, "LONG", 1.1, 1.099, 1.103), { takeProfit: 1.103, takeProfit2: 1.103 });
+});
+
+Deno.test("fixed_r targets a multiple of the risk", () => {
+  // Entry -5, risk 23 pips: 2R is at -51.
+  const result = run([[-5, -3, -12, -10], [-10, -8, -52, -50]], { tpMode: "fixed_r", tpRMultiple: 2 });
+  assertEquals(result.signals[0].takeProfit, price(-51));
+  const [trade] = result.trades;
+  assertEquals([trade.exitReason, trade.exitPrice, trade.rMultiple], ["TP", price(-51), 2]);
+});
+
+Deno.test("pullback_min_rr rejects a signal below the minimum R:R and resets the cycle", () => {
+  // From the trigger close at -5: reward 18 pips to the swing, risk 23 pips = 0.78.
+  const after = [[-5, -3, -12, -10], [-10, -8, -26, -24]];
+  const rejected = run(after, { tpMode: "pullback_min_rr", minRewardRisk: 1 });
+  assertEquals(rejected.signals, []);
+  assertEquals(rejected.trades, []);
+  assertEquals(rejected.events.filter((e) => e.type === "SIGNAL_REJECTED"), [
+    { type: "SIGNAL_REJECTED", at: tsAt(ENTRY_INDEX - 1), direction: "SHORT", rewardRisk: 0.78, minRewardRisk: 1 },
+  ]);
+  assertEquals(rejected.state.cycle.phase, "WAIT_SWING_BOS");
+  assertEquals(rejected.state.pendingSignal, null);
+
+  const accepted = run(after, { tpMode: "pullback_min_rr", minRewardRisk: 0.75 });
+  assertEquals(accepted.trades.map((t) => [t.exitReason, t.rMultiple]), [["TP", 0.78]]);
+});
+
+Deno.test("two_target closes part at TP1 and weights R by the closed fractions", () => {
+  const config = { tpMode: "two_target", tp1CloseFraction: 0.5, tp2RMultiple: 2 };
+  const tp1 = [-5, -3, -24, -20];
+
+  const both = run([tp1, [-20, -8, -52, -50]], config);
+  assertEquals([both.signals[0].takeProfit, both.signals[0].takeProfit2], [price(-23), price(-51)]);
+  const [trade] = both.trades;
+  assertEquals(trade.partialExits, [{ leg: "TP1", time: tsAt(ENTRY_INDEX), price: price(-23), fraction: 0.5, rMultiple: 0.78 }]);
+  assertEquals(trade.remainingFraction, 0.5);
+  assertEquals([trade.exitReason, trade.exitPrice], ["TP", price(-51)]);
+  // 0.5 x 18/23 + 0.5 x 2.
+  assertEquals(trade.rMultiple, 1.39);
+
+  // The rest stopped out at the initial stop: 0.5 x 18/23 - 0.5.
+  const stopped = run([tp1, [-20, 19, -21, 15]], config).trades[0];
+  assertEquals([stopped.exitReason, stopped.rMultiple], ["SL", -0.11]);
+
+  // Costs follow the same weights: 2.3 pips of spread on a 23-pip risk is 0.1R.
+  const net = run([tp1, [-20, -8, -52, -50]], { ...config, spreadPips: 2.3 }).trades[0];
+  assertEquals([net.rMultiple, net.netRMultiple, net.costs?.spreadPips], [1.39, 1.29, 2.3]);
+});
+
+// The entry candle reaches both SL (18) and TP (-23).
+const BOTH_LEVELS = [[-5, 20, -25, -10]];
+
+function minuteBars(rows: number[][]): Map<string, Candle[]> {
+  const start = new Date(tsAt(ENTRY_INDEX)).getTime();
+  const bars = rows.map(([o, h, l, c], i) => ({
+    ts: new Date(start + i * 60_000).toISOString(),
+    open: price(o),
+    high: price(h),
+    low: price(l),
+    close: price(c),
+  }));
+  return new Map([[tsAt(ENTRY_INDEX), bars]]);
+}
+
+Deno.test("a candle touching SL and TP is resolved conservatively without intrabar data", () => {
+  const [trade] = run(BOTH_LEVELS).trades;
+  assertEquals(trade.exitReason, "SL");
+  assertEquals(trade.exitResolution, "conservative");
+  assertEquals(trade.rMultiple, -1);
+});
+
+Deno.test("intrabar bars decide which level of an ambiguous candle was hit first", () => {
+  const config = { intrabarTimeframe: "1min" };
+
+  const missing = run(BOTH_LEVELS, config);
+  assertEquals(missing.missingIntrabar, [tsAt(ENTRY_INDEX)]);
+  assertEquals(missing.trades[0].exitReason, "SL");
+  assertEquals(missing.trades[0].exitResolution, "unknown");
+
+  const tpFirst = run(BOTH_LEVELS, config, {
+    intrabarCandles: minuteBars([[-5, -4, -24, -20], [-20, 20, -21, -10]]),
+  });
+  assertEquals(tpFirst.missingIntrabar, []);
+  assertEquals(tpFirst.trades[0].exitReason, "TP");
+  assertEquals(tpFirst.trades[0].exitResolution, "intrabar");
+  assertEquals(tpFirst.trades[0].exitPrice, price(-23));
+
+  const slFirst = run(BOTH_LEVELS, config, {
+    intrabarCandles: minuteBars([[-5, 19, -6, 0], [0, 1, -25, -10]]),
+  });
+  assertEquals(slFirst.trades[0].exitReason, "SL");
+  assertEquals(slFirst.trades[0].exitResolution, "intrabar");
+
+  // Both levels inside one bar: still unknown, SL assumed.
+  const sameBar = run(BOTH_LEVELS, config, { intrabarCandles: minuteBars([[-5, 20, -25, -10]]) });
+  assertEquals(sameBar.trades[0].exitReason, "SL");
+  assertEquals(sameBar.trades[0].exitResolution, "unknown");
+});
+
+Deno.test("net R deducts the trade costs from the gross R", () => {
+  // 2.3 pips of spread on a 23-pip risk cost 0.1R.
+  const [trade] = run([[-5, -3, -12, -10], [-10, -8, -26, -24]], { spreadPips: 2.3 }).trades;
+  assertEquals(trade.rMultiple, 0.78);
+  assertEquals(trade.netRMultiple, 0.68);
+  assertEquals(trade.costs?.totalPips, 2.3);
+});
+
+Deno.test("the engine registers each fractal on the candle that confirms it", () => {
+  for (const config of [{}, { fractalWidth: 5 }, { fractalWidth: 5, fractalTieMode: "first", fractalSource: "body" }]) {
+    const resolved = resolveStrategyConfig(config);
+    const candles = candlesFromPips(SETUP);
+    const expected = findFractals(candles, fractalRuleOf(resolved));
+    assertEquals(run([], config).state.fractals, expected);
+    // Stopping before a confirmation leaves that fractal out.
+    const last = expected[expected.length - 1];
+    const cut = runContinuationStrategy({
+      symbol: "EUR/USD",
+      timeframe: "15min",
+      candles: candles.slice(0, last.confirmedAtIndex),
+      config: resolved,
+    });
+    assertEquals(cut.state.fractals, expected.slice(0, -1));
+  }
+});
+
+// Replays `candles` in chunks, persisting the state as JSON between runs like the
+// engine does; signals and trades keep their latest version.
+function runInChunks(candles: Candle[], config: StrategyConfig, chunk: number, state: EngineState | null = null) {
+  const signals = new Map<string, unknown>();
+  const trades = new Map<string, EngineTrade>();
+  for (let i = 0; i < candles.length; i += chunk) {
+    const result = runContinuationStrategy({
+      symbol: "EUR/USD",
+      timeframe: "15min",
+      candles: candles.slice(i, i + chunk),
+      config,
+      state: restoreEngineState(state ? JSON.parse(JSON.stringify(state)) : null, config),
+    });
+    result.signals.forEach((signal) => signals.set(signal.signalKey, signal));
+    result.trades.forEach((trade) => trades.set(trade.tradeKey, trade));
+    state = result.state;
+  }
+  return { signals: [...signals.values()], trades: [...trades.values()], state: state! };
+}
+
+Deno.test("resuming from the stored state matches a single pass", async () => {
+  const csv = await Deno.readTextFile(new URL("../../../scripts/fixtures/eurusd_m15_sample.csv", import.meta.url));
+  const candles = parseCandlesCsv(csv).slice(0, 1200);
+  const config = resolveStrategyConfig({ breakevenAtR: 0.5, trailMode: "fractal" });
+  const single = runContinuationStrategy({ symbol: "EUR/USD", timeframe: "15min", candles, config });
+  assert(single.trades.length > 0);
+  for (const chunk of [1, 7, 250]) {
+    const chunked = runInChunks(candles, config, chunk);
+    assertEquals(chunked.signals, single.signals);
+    assertEquals(chunked.trades, single.trades);
+    assertEquals(chunked.state, single.state);
+  }
+
+  // A config change invalidates the stored state: the next run replays from scratch.
+  const changed = resolveStrategyConfig({ minImpulsePips: 25 });
+  const stale = runInChunks(candles.slice(0, 600), config, 600).state;
+  assertEquals(restoreEngineState(JSON.parse(JSON.stringify(stale)), changed), null);
+  const replayed = runInChunks(candles, changed, 300, stale);
+  const fresh = runContinuationStrategy({ symbol: "EUR/USD", timeframe: "15min", candles, config: changed });
+  assertEquals(replayed.trades, fresh.trades);
+  assertEquals(replayed.state, fresh.state);
+});
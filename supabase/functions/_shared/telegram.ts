@@ -1,3 +1,25 @@
+/** Failed Bot API call; `retryAfterSeconds` is set on HTTP 429 (flood control). */
+export class TelegramApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly description: string,
+    readonly retryAfterSeconds: number | null,
+  ) {
+    super(`Telegram HTTP ${status}: ${description}`);
+    this.name = "TelegramApiError";
+  }
+}
+
+async function telegramError(res: Response): Promise<TelegramApiError> {
+  const body = await res.text();
+  try {
+    const parsed = JSON.parse(body) as { description?: string; parameters?: { retry_after?: number } };
+    return new TelegramApiError(res.status, parsed.description ?? body, parsed.parameters?.retry_after ?? null);
+  } catch {
+    return new TelegramApiError(res.status, body, null);
+  }
+}
+
 export async function sendTelegramMessage(params: {
   botToken: string;
   chatId: string;
@@ -19,8 +41,29 @@ export async function sendTelegramMessage(params: {
     }),
   });
 
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`Telegram HTTP ${res.status}: ${body}`);
+  if (!res.ok) throw await telegramError(res);
+}
+
+/** Uploads an image (e.g. a rendered PNG chart) with `sendPhoto`. */
+export async function sendTelegramPhoto(params: {
+  botToken: string;
+  chatId: string;
+  photo: Uint8Array;
+  filename?: string;
+  caption?: string;
+  parseMode?: "Markdown" | "MarkdownV2" | "HTML";
+  replyMarkup?: Record<string, unknown>;
+}): Promise<void> {
+  const url = `https://api.telegram.org/bot${params.botToken}/sendPhoto`;
+  const form = new FormData();
+  form.append("chat_id", params.chatId);
+  form.append("photo", new Blob([params.photo as BlobPart], { type: "image/png" }), params.filename ?? "chart.png");
+  if (params.caption) {
+    form.append("caption", params.caption);
+    form.append("parse_mode", params.parseMode ?? "Markdown");
   }
+  if (params.replyMarkup) form.append("reply_markup", JSON.stringify(params.replyMarkup));
+  const res = await fetch(url, { method: "POST", body: form });
+
+  if (!res.ok) throw await telegramError(res);
 }
@@ -1,4 +1,10 @@
-import type { EngineRuntimeSnapshot } from "./types.ts";
+import type { PerformanceSummary } from "./backtest.ts";
+import type { ChartLevel, ChartLevelKind } from "./chart.ts";
+import { instrumentLabel, timeframeLabel } from "./instruments.ts";
+import type { MonteCarloReport } from "./monteCarlo.ts";
+import type { OutboxHealth } from "./outbox.ts";
+import type { TradingControl, TradingState } from "./tradingControls.ts";
+import type { EngineEvent, EngineRuntimeSnapshot, HtfBiasReading, StrategyConfig, TraceStep } from "./types.ts";
 
 function toEat(ts: string | null): string {
   if (!ts) return "-";
@@ -18,8 +24,75 @@ function toEat(ts: string | null): string {
   }
 }
 
-function dOk(impulsePips: number): string {
-  return impulsePips >= 20 ? "✅ ≥ 20" : "❌ < 20";
+function dOk(impulsePips: number, minImpulsePips = 20): string {
+  return impulsePips >= minImpulsePips ? `✅ ≥ ${minImpulsePips}` : `❌ < ${minImpulsePips}`;
+}
+
+function tpModeDetail(config: StrategyConfig): string {
+  switch (config.tpMode) {
+    case "fixed_r":
+      return ` (${config.tpRMultiple}R)`;
+    case "pullback_min_rr":
+      return ` (min R:R ${config.minRewardRisk})`;
+    case "two_target":
+      return ` (TP1 ${Math.round(config.tp1CloseFraction * 100)}% @ swing, TP2 @ ${config.tp2RMultiple}R)`;
+    default:
+      return "";
+  }
+}
+
+function formatConfigLines(config: StrategyConfig): string[] {
+  return [
+    `• Pip Size: ${config.pipSize}`,
+    `• SL Buffer: ${config.slBufferPips} pips`,
+    `• Min Impulse D: ${config.minImpulsePips} pips`,
+    `• Fractals: ${config.fractalWidth} candles, ${config.fractalSource} pivots, equal extremes: ${config.fractalTieMode}`,
+    `• TP Mode: ${config.tpMode}${tpModeDetail(config)}`,
+    `• Breakeven: ${config.breakevenAtR > 0 ? `at +${config.breakevenAtR}R` : "off"}`,
+    `• Trailing Stop: ${config.trailMode}`,
+    `• Max Holding: ${config.maxHoldingCandles > 0 ? `${config.maxHoldingCandles} candles` : "off"}`,
+    `• Costs: ${costDetail(config)}`,
+  ];
+}
+
+function costDetail(config: StrategyConfig): string {
+  const sessions = config.sessionSpreads.map((s) => `${s.window} UTC ${s.spreadPips}`).join(", ");
+  return [
+    `spread ${config.spreadPips} pips${sessions ? ` (${sessions})` : ""}`,
+    `slippage ${config.slippagePips} pips`,
+    `commission ${config.commissionPerLot}/lot`,
+  ].join(", ");
+}
+
+function netResultLines(rMultiple: number | null, netRMultiple?: number | null): string[] {
+  if (netRMultiple == null || netRMultiple === rMultiple) return [];
+  return [`💸 After costs: ${netRMultiple.toFixed(2)}R`];
+}
+
+const TRADING_STATE_LABEL: Record<TradingState, string> = {
+  active: "▶️ Trading active",
+  paused: "⏸️ Trading paused",
+  killed: "🛑 Kill switch on",
+};
+
+function tpLines(takeProfit: number, takeProfit2?: number | null): string[] {
+  return takeProfit2 == null ? [`🎯 TP: ${takeProfit}`] : [`🎯 TP1: ${takeProfit}`, `🎯 TP2: ${takeProfit2}`];
+}
+
+function partialExitLines(partialExits?: { leg: string; price: number; fraction: number; rMultiple: number | null }[]) {
+  return (partialExits ?? []).map((p) =>
+    `✂️ ${p.leg}: ${Math.round(p.fraction * 100)}% @ ${p.price}${p.rMultiple == null ? "" : ` (${p.rMultiple.toFixed(2)}R)`}`
+  );
+}
+
+function resolutionLines(exitResolution?: string | null): string[] {
+  if (!exitResolution) return [];
+  const how = exitResolution === "intrabar"
+    ? "ordered with lower-timeframe bars"
+    : exitResolution === "unknown"
+    ? "no intrabar data, SL assumed first"
+    : "SL assumed first";
+  return [`⚖️ SL and target in the same candle: ${how}`];
 }
 
 export function menuKeyboard() {
@@ -37,6 +110,14 @@ export function menuKeyboard() {
         { text: "📈 Daily Report", callback_data: "daily" },
         { text: "📊 Weekly Report", callback_data: "weekly" },
       ],
+      [
+        { text: "⏪ Backtest 30d", callback_data: "backtest" },
+        { text: "📉 Chart", callback_data: "chart" },
+      ],
+      [
+        { text: "🗂️ Events", callback_data: "events" },
+        { text: "🎲 Risk of Ruin", callback_data: "risk_of_ruin" },
+      ],
       [
         { text: "🧪 Debug", callback_data: "debug" },
         { text: "🔄 Reset Cycle", callback_data: "reset_cycle" },
@@ -53,10 +134,19 @@ export function backToMenuKeyboard() {
   };
 }
 
-export function formatMenu(symbol: string, timeframe: string) {
+export function formatMenu(instruments: { symbol: string; timeframe: string }[]) {
   return [
     `🧠 *NOLA-DELTA • CONTROL PANEL*`,
-    `Pair: ${symbol} • TF: ${timeframe}`,
+    `Instruments: ${instruments.map((i) => instrumentLabel(i.symbol, i.timeframe)).join(", ") || "-"}`,
+    ``,
+    `Add a pair to any command, e.g. /status GBPUSD or /analysis GBPUSD H1`,
+    `/backtest 30 GBPUSD replays the strategy over the last 30 days`,
+    `/chart 80 GBPUSD draws the last 80 candles with the current structure`,
+    `/events 20 GBPUSD lists the last 20 structure events`,
+    `/risk\\_of\\_ruin 0.5 simulates drawdowns of the trade history at 0.5% risk per trade`,
+    `/pause, /resume and /kill act on every instrument unless a pair is given`,
+    `/whoami shows your role and the commands it allows`,
+    `/explain <signal id> shows the decisions behind a signal`,
     ``,
     `Choose an option👇`,
   ].join("\n");
@@ -71,27 +161,106 @@ export function formatSignalDetected(input: {
   plannedEntryPrice: number | null;
   stopLoss: number;
   takeProfit: number;
+  takeProfit2?: number | null;
   impulsePips: number;
   pbLevel: number;
   signalKey: string;
   riskPercent?: number | null;
+  minImpulsePips?: number;
+  slBufferPips?: number;
+  approvalExpiresAt?: string | null; // set when the broker request waits for Execute/Skip
+  tradingState?: TradingState; // paused/killed: no broker request was queued
 }) {
   const directionEmoji = input.direction === "LONG" ? "🟢" : "🔴";
   return [
-    `🧠 *NOLA-DELTA • ${input.symbol} • ${input.timeframe}*`,
+    `🧠 *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
     `📌 CONTINUATION SIGNAL DETECTED`,
     ``,
     `${directionEmoji} Direction: ${input.direction}`,
     `⏱️ Time: ${toEat(input.triggerTime)}`,
     ``,
     `📊 Structure:`,
-    `• Impulse D: ${input.impulsePips.toFixed(1)} pips (${dOk(input.impulsePips)})`,
+    `• Impulse D: ${input.impulsePips.toFixed(1)} pips (${dOk(input.impulsePips, input.minImpulsePips)})`,
     `• Pullback Level (Mid): ${input.pbLevel}`,
     ``,
     `💰 Entry (Next Open): ${input.plannedEntryPrice == null ? "pending" : input.plannedEntryPrice}`,
-    `🛑 SL: ${input.stopLoss}  (+3p buffer)`,
-    `🎯 TP: ${input.takeProfit}`,
+    `🛑 SL: ${input.stopLoss}  (+${input.slBufferPips ?? 3}p buffer)`,
+    ...tpLines(input.takeProfit, input.takeProfit2),
     `${input.riskPercent != null ? `📈 Risk: ${input.riskPercent}%` : `📈 Risk: -`}`,
+    ...(input.approvalExpiresAt ? [``, `🙋 Awaiting approval until ${toEat(input.approvalExpiresAt)}`] : []),
+    ...(input.tradingState && input.tradingState !== "active"
+      ? [``, `${TRADING_STATE_LABEL[input.tradingState]}: no order was queued`]
+      : []),
+    `🧾 ID: ${input.signalKey}`,
+  ].join("\n");
+}
+
+/** Execute/Skip buttons for a signal awaiting approval (callback data stays under Telegram's 64 bytes). */
+export function approvalKeyboard(signalId: string) {
+  return {
+    inline_keyboard: [
+      [
+        { text: "✅ Execute", callback_data: `approve:${signalId}` },
+        { text: "⏭️ Skip", callback_data: `skip:${signalId}` },
+      ],
+    ],
+  };
+}
+
+// For signals whose alert went out before the entry was known.
+export function formatApprovalRequest(input: {
+  direction: "LONG" | "SHORT";
+  symbol: string;
+  timeframe: string;
+  plannedEntryPrice: number | null;
+  stopLoss: number;
+  takeProfit: number;
+  takeProfit2?: number | null;
+  approvalExpiresAt: string | null;
+  signalKey: string;
+}) {
+  const directionEmoji = input.direction === "LONG" ? "🟢" : "🔴";
+  return [
+    `🙋 *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
+    `📌 ENTRY READY — Approval Needed`,
+    ``,
+    `${directionEmoji} ${input.direction} @ ${input.plannedEntryPrice ?? "-"}`,
+    `🛑 SL: ${input.stopLoss}`,
+    ...tpLines(input.takeProfit, input.takeProfit2),
+    ``,
+    `⏳ Expires: ${toEat(input.approvalExpiresAt)}`,
+    `🧾 ID: ${input.signalKey}`,
+  ].join("\n");
+}
+
+export function formatApprovalDecision(input: {
+  outcome: "execute" | "skip" | "expired" | "already_decided" | "not_found";
+  signalKey: string | null;
+  chatId: string;
+  previousAction?: string | null;
+}) {
+  const title = {
+    execute: "✅ EXECUTING — Sent to the broker queue",
+    skip: "⏭️ SKIPPED — No order will be placed",
+    expired: "⌛ EXPIRED — The entry candle has closed",
+    already_decided: `ℹ️ ALREADY DECIDED${input.previousAction ? ` (${input.previousAction})` : ""}`,
+    not_found: "⚠️ No broker request awaiting approval for this signal",
+  }[input.outcome];
+  return [
+    `🙋 *NOLA-DELTA • APPROVAL*`,
+    `📌 ${title}`,
+    ``,
+    `By chat: ${input.chatId}`,
+    ...(input.signalKey ? [`🧾 ID: ${input.signalKey}`] : []),
+  ].join("\n");
+}
+
+export function formatApprovalExpired(input: { symbol: string; timeframe: string; signalKey: string }) {
+  return [
+    `⌛ *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
+    `📌 SIGNAL EXPIRED — Not approved before the entry candle closed`,
+    ``,
+    `No order was placed.`,
     `🧾 ID: ${input.signalKey}`,
   ].join("\n");
 }
@@ -102,18 +271,44 @@ export function formatSignalArmed(input: {
   timeframe: string;
   stopLoss: number;
   takeProfit: number;
+  takeProfit2?: number | null;
   signalKey: string;
 }) {
   const directionEmoji = input.direction === "LONG" ? "🟢" : "🔴";
   return [
-    `⏳ *NOLA-DELTA • ${input.symbol} • ${input.timeframe}*`,
+    `⏳ *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
     `📌 SIGNAL ARMED — Waiting Next Candle Open`,
     ``,
     `${directionEmoji} ${input.direction}`,
-    `💰 Entry: next M15 open`,
+    `💰 Entry: next ${timeframeLabel(input.timeframe)} open`,
+    `🛑 SL: ${input.stopLoss}`,
+    ...tpLines(input.takeProfit, input.takeProfit2),
+    ``,
+    `🧾 ID: ${input.signalKey}`,
+  ].join("\n");
+}
+
+export function formatSignalFiltered(input: {
+  direction: "LONG" | "SHORT";
+  symbol: string;
+  timeframe: string;
+  triggerTime: string;
+  stopLoss: number;
+  takeProfit: number;
+  reason: string;
+  signalKey: string;
+}) {
+  const directionEmoji = input.direction === "LONG" ? "🟢" : "🔴";
+  return [
+    `🔕 *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
+    `📌 SIGNAL SUPPRESSED — No Trade`,
+    ``,
+    `${directionEmoji} ${input.direction}`,
+    `⏱️ Time: ${toEat(input.triggerTime)}`,
     `🛑 SL: ${input.stopLoss}`,
     `🎯 TP: ${input.takeProfit}`,
     ``,
+    `🚫 Reason: ${input.reason}`,
     `🧾 ID: ${input.signalKey}`,
   ].join("\n");
 }
@@ -131,7 +326,7 @@ export function formatTradeExecuted(input: {
 }) {
   const directionEmoji = input.direction === "LONG" ? "🟢" : "🔴";
   return [
-    `🚀 *NOLA-DELTA • ${input.symbol} • ${input.timeframe}*`,
+    `🚀 *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
     `📌 TRADE EXECUTED`,
     ``,
     `${directionEmoji} ${input.direction} @ ${input.entryPrice ?? "-"}`,
@@ -153,17 +348,23 @@ export function formatTradeClosedTP(input: {
   exitTime: string | null;
   exitPrice: number | null;
   rMultiple: number | null;
+  netRMultiple?: number | null;
+  partialExits?: { leg: string; price: number; fraction: number; rMultiple: number | null }[];
+  exitResolution?: string | null;
 }) {
   const header = input.symbol && input.timeframe
-    ? `🎯 *NOLA-DELTA • ${input.symbol} • ${input.timeframe}*`
+    ? `🎯 *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`
     : `🎯 *NOLA-DELTA • TAKE PROFIT HIT*`;
   return [
     header,
     `📌 TAKE PROFIT HIT`,
     ``,
+    ...partialExitLines(input.partialExits),
     `${input.direction ? `${input.direction} ` : ""}Closed @ ${input.exitPrice ?? "-"}`,
     `📈 Result: ${input.rMultiple == null ? "-" : `+${input.rMultiple.toFixed(2)}R`}`,
+    ...netResultLines(input.rMultiple, input.netRMultiple),
     `⏱️ Time: ${toEat(input.exitTime)}`,
+    ...resolutionLines(input.exitResolution),
     ``,
     `🧾 ID: ${input.signalKey}`,
   ].join("\n");
@@ -177,23 +378,80 @@ export function formatTradeClosedSL(input: {
   exitTime: string | null;
   exitPrice: number | null;
   rMultiple: number | null;
+  netRMultiple?: number | null;
+  partialExits?: { leg: string; price: number; fraction: number; rMultiple: number | null }[];
+  exitResolution?: string | null;
 }) {
   const header = input.symbol && input.timeframe
-    ? `🛑 *NOLA-DELTA • ${input.symbol} • ${input.timeframe}*`
+    ? `🛑 *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`
     : `🛑 *NOLA-DELTA • STOP LOSS HIT*`;
   return [
     header,
     `📌 STOP LOSS HIT`,
     ``,
+    ...partialExitLines(input.partialExits),
     `${input.direction ? `${input.direction} ` : ""}Closed @ ${input.exitPrice ?? "-"}`,
     `📉 Result: ${input.rMultiple == null ? "-" : `${input.rMultiple.toFixed(2)}R`}`,
+    ...netResultLines(input.rMultiple, input.netRMultiple),
     `⏱️ Time: ${toEat(input.exitTime)}`,
+    ...resolutionLines(input.exitResolution),
+    ``,
+    `🧾 ID: ${input.signalKey}`,
+  ].join("\n");
+}
+
+export function formatTradeClosedTime(input: {
+  signalKey: string;
+  symbol: string;
+  timeframe: string;
+  direction?: string;
+  exitTime: string | null;
+  exitPrice: number | null;
+  rMultiple: number | null;
+  netRMultiple?: number | null;
+  partialExits?: { leg: string; price: number; fraction: number; rMultiple: number | null }[];
+  holdingCandles: number;
+}) {
+  return [
+    `⏱️ *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
+    `📌 TIME EXIT — Max Holding Reached`,
+    ``,
+    ...partialExitLines(input.partialExits),
+    `${input.direction ? `${input.direction} ` : ""}Closed @ ${input.exitPrice ?? "-"} (candle close)`,
+    `📊 Result: ${input.rMultiple == null ? "-" : `${input.rMultiple.toFixed(2)}R`}`,
+    ...netResultLines(input.rMultiple, input.netRMultiple),
+    `⏱️ Time: ${toEat(input.exitTime)}`,
+    `Limit: ${input.holdingCandles} candles`,
+    ``,
+    `🧾 ID: ${input.signalKey}`,
+  ].join("\n");
+}
+
+export function formatStopMoved(input: {
+  symbol: string;
+  timeframe: string;
+  direction: "LONG" | "SHORT";
+  at: string;
+  from: number;
+  to: number;
+  reason: "BREAKEVEN" | "TRAIL";
+  signalKey: string;
+}) {
+  return [
+    `🛡️ *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
+    input.reason === "BREAKEVEN" ? `📌 STOP MOVED TO BREAKEVEN` : `📌 TRAILING STOP MOVED`,
+    ``,
+    `${input.direction === "LONG" ? "🟢" : "🔴"} ${input.direction}`,
+    `🛑 SL: ${input.from} → ${input.to}`,
+    `⏱️ Time: ${toEat(input.at)}`,
     ``,
     `🧾 ID: ${input.signalKey}`,
   ].join("\n");
 }
 
 export function formatStructureFlip(input: {
+  symbol: string;
+  timeframe: string;
   from: "BEARISH" | "BULLISH";
   to: "BEARISH" | "BULLISH";
   reason?: string;
@@ -208,7 +466,7 @@ export function formatStructureFlip(input: {
     ? "Next: wait pullback to go LONG."
     : "Next: wait pullback to go SHORT.";
   return [
-    `🔁 *NOLA-DELTA • EURUSD • M15*`,
+    `🔁 *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
     `📌 STRUCTURE SHIFT DETECTED`,
     ``,
     invalidationLine,
@@ -222,11 +480,13 @@ export function formatStructureFlip(input: {
 }
 
 export function formatCycleDiscarded(input: {
+  symbol: string;
+  timeframe: string;
   impulsePips: number;
   minImpulsePips: number;
 }) {
   return [
-    `🚫 *NOLA-DELTA • EURUSD • M15*`,
+    `🚫 *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
     `📌 CYCLE DISCARDED`,
     ``,
     `Impulse D: ${input.impulsePips.toFixed(1)} pips`,
@@ -237,18 +497,144 @@ export function formatCycleDiscarded(input: {
   ].join("\n");
 }
 
+export function formatSignalRejected(input: {
+  symbol: string;
+  timeframe: string;
+  direction: "LONG" | "SHORT";
+  at: string;
+  rewardRisk: number | null;
+  minRewardRisk: number;
+}) {
+  return [
+    `🚫 *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
+    `📌 SIGNAL REJECTED — R:R TOO LOW`,
+    ``,
+    `${input.direction === "LONG" ? "🟢" : "🔴"} ${input.direction}`,
+    `⏱️ Time: ${toEat(input.at)}`,
+    `📐 R:R to pullback target: ${input.rewardRisk == null ? "-" : `1 : ${input.rewardRisk.toFixed(2)}`}`,
+    `Minimum Required: 1 : ${input.minRewardRisk.toFixed(2)}`,
+    ``,
+    `Waiting for new Swing BOS.`,
+  ].join("\n");
+}
+
+function describeEngineEvent(event: EngineEvent): string {
+  switch (event.type) {
+    case "BOS_DETECTED":
+      return `🧱 BOS ${event.direction === "SHORT" ? "down" : "up"} → ${event.direction} cycle, D ${
+        event.impulsePips.toFixed(1)
+      } pips, mid ${event.pbLevel}`;
+    case "PULLBACK_STARTED":
+      return `↩️ Pullback started (close beyond ${event.breakLevel})`;
+    case "PULLBACK_CONFIRMED":
+      return `✅ Pullback confirmed past mid ${event.pbLevel}, swing ${event.swingTarget}`;
+    case "STRUCTURE_FLIP":
+      return `🔁 Structure flip ${event.from} → ${event.to}`;
+    case "CYCLE_DISCARDED":
+      return `🚫 ${event.direction} cycle discarded, D ${event.impulsePips.toFixed(1)} < ${event.minImpulsePips} pips`;
+    case "SIGNAL_REJECTED":
+      return `🚫 ${event.direction} signal rejected, R:R ${event.rewardRisk ?? "-"} < ${event.minRewardRisk}`;
+    case "STOP_MOVED":
+      return `🛡️ ${event.reason === "BREAKEVEN" ? "Breakeven" : "Trailing"} stop ${event.from} → ${event.to}`;
+  }
+}
+
+// Trace text quotes config values such as pullback_swing and S_low.
+function escapeMarkdown(text: string): string {
+  return text.replace(/[_*`[]/g, "\\$&");
+}
+
+const TRACE_STEP_LABEL: Record<TraceStep["kind"], string> = {
+  BOS: "🧱 BOS",
+  CYCLE_DISCARDED: "🗑️ Cycle discarded",
+  PULLBACK_STARTED: "↩️ Pullback started",
+  PULLBACK_CONFIRMED: "✅ Pullback confirmed",
+  TRIGGER: "🎯 Trigger",
+  SIGNAL_REJECTED: "🚫 Signal rejected",
+  SIGNAL_FILTERED: "⛔ Signal filtered",
+  STRUCTURE_FLIP: "🔀 Structure flip",
+  CYCLE_RESET: "♻️ Cycle reset",
+};
+
+export function formatSignalExplanation(input: {
+  signalKey: string;
+  symbol: string;
+  timeframe: string;
+  direction: string;
+  status: string;
+  filteredReason: string | null;
+  trace: TraceStep[] | null; // null for signals stored before tracing
+}) {
+  const header = [
+    `🔎 *NOLA-DELTA • EXPLAIN*`,
+    `${instrumentLabel(input.symbol, input.timeframe)} • ${input.direction} • ${escapeMarkdown(input.status)}`,
+    `🧾 \`${input.signalKey}\``,
+    ``,
+  ];
+  if (!input.trace || input.trace.length === 0) {
+    return [...header, `No decision trace stored for this signal (generated before tracing was enabled).`].join("\n");
+  }
+  return [
+    ...header,
+    ...input.trace.map((step, i) =>
+      [
+        `*${i + 1}. ${TRACE_STEP_LABEL[step.kind]}* ${step.direction} • ${toEat(step.at)} (#${step.index})`,
+        `   ${escapeMarkdown(step.rule)}`,
+        `   → ${escapeMarkdown(step.outcome)}`,
+        ...step.fractals.map((f) =>
+          `   ${f.type === "FSH" ? "🔺" : "🔹"} ${escapeMarkdown(f.role)}: ${f.price} @ ${toEat(f.at)} (#${f.index})`
+        ),
+      ].join("\n")
+    ),
+    // Signals filtered before the filter ran inside the strategy have no SIGNAL_FILTERED step.
+    ...(input.filteredReason && !input.trace.some((step) => step.kind === "SIGNAL_FILTERED")
+      ? [``, `🚫 Filtered after the trigger: ${escapeMarkdown(input.filteredReason)}`]
+      : []),
+  ].join("\n");
+}
+
+export function formatEventHistory(input: {
+  symbol: string;
+  timeframe: string;
+  events: EngineEvent[]; // newest first
+}) {
+  return [
+    `🗂️ *NOLA-DELTA • EVENTS*`,
+    `${instrumentLabel(input.symbol, input.timeframe)} • last ${input.events.length}`,
+    ``,
+    ...(input.events.length === 0
+      ? ["No engine events stored yet."]
+      : input.events.map((e) => `${toEat(e.at)}\n${describeEngineEvent(e)}`)),
+  ].join("\n");
+}
+
+function htfBiasSummary(readings: HtfBiasReading[]): string {
+  return readings.map((r) => `${timeframeLabel(r.timeframe)} ${r.bias}`).join(" • ");
+}
+
 export function formatStatus(input: {
   runtime: EngineRuntimeSnapshot;
   lastCandle: { ts: string | null; open: number | null; high: number | null; low: number | null; close: number | null };
   lastSignalKey: string | null;
   hasOpenTrade: boolean;
+  trading: TradingControl;
 }) {
   const lc = input.lastCandle;
   return [
     `📊 *NOLA-DELTA • STATUS*`,
-    `EURUSD • M15 • ${toEat(lc.ts)}`,
+    `${instrumentLabel(input.runtime.symbol, input.runtime.timeframe)} • ${toEat(lc.ts)}`,
     ``,
+    `${TRADING_STATE_LABEL[input.trading.state]}${
+      input.trading.state !== "active" && input.trading.changedAt
+        ? ` since ${toEat(input.trading.changedAt)}${input.trading.changedBy ? ` by \`${input.trading.changedBy}\`` : ""}`
+        : ""
+    }`,
+    ...(input.trading.state !== "active" && input.trading.reason ? [`• Reason: ${input.trading.reason}`] : []),
+    ...(input.trading.state !== "active" && input.trading.resumeAt
+      ? [`• Auto-resume: ${toEat(input.trading.resumeAt)}`]
+      : []),
     `🧭 Bias: ${input.runtime.bias}`,
+    ...(input.runtime.htfBias.length > 0 ? [`🔭 HTF Bias: ${htfBiasSummary(input.runtime.htfBias)}`] : []),
     `🧩 State: ${input.runtime.state}`,
     ``,
     `🕯️ Last Candle:`,
@@ -267,12 +653,13 @@ export function formatStatus(input: {
 export function formatAnalysis(runtime: EngineRuntimeSnapshot) {
   return [
     `🧭 *NOLA-DELTA • ANALYSIS*`,
-    `EURUSD • M15 • ${toEat(runtime.lastCandleTs)}`,
+    `${instrumentLabel(runtime.symbol, runtime.timeframe)} • ${toEat(runtime.lastCandleTs)}`,
     ``,
     `📊 Structure:`,
+    `• Bias: ${runtime.bias}`,
     `• Anchor Line: ${runtime.anchorLine ?? "-"}`,
     `• Causal Extreme: ${runtime.causalExtreme ?? "-"}`,
-    `• Impulse D: ${runtime.impulsePips ?? "-"} pips ${runtime.impulsePips == null ? "" : `(${dOk(runtime.impulsePips)})`}`,
+    `• Impulse D: ${runtime.impulsePips ?? "-"} pips ${runtime.impulsePips == null ? "" : `(${dOk(runtime.impulsePips, runtime.config.minImpulsePips)})`}`,
     ``,
     `🎯 Pullback (Midpoint Rule):`,
     `• Midpoint Level: ${runtime.midpointLevel ?? "-"}`,
@@ -286,6 +673,20 @@ export function formatAnalysis(runtime: EngineRuntimeSnapshot) {
     `🧱 Fractals:`,
     `• lastFSH: ${runtime.lastFSHPrice ?? "-"}`,
     `• lastFSL: ${runtime.lastFSLPrice ?? "-"}`,
+    ...(runtime.htfBias.length > 0
+      ? [
+        ``,
+        `🔭 Higher Timeframes:`,
+        ...runtime.htfBias.map((r) =>
+          `• ${timeframeLabel(r.timeframe)}: ${r.bias}${
+            r.breakLevel != null ? ` (close ${r.bias === "BEARISH" ? "below" : "above"} ${r.breakLevel} @ ${toEat(r.breakTs)})` : ""
+          } • ${r.candles} candles to ${toEat(r.asOf)}`
+        ),
+      ]
+      : []),
+    ``,
+    `⚙️ Parameters:`,
+    ...formatConfigLines(runtime.config),
     ``,
     `🧾 Active Trade: ${runtime.activeTradeKey ?? "-"}`,
   ].join("\n");
@@ -298,6 +699,7 @@ export function formatDailyReport(summary: {
   losses: number;
   winRatePct: number;
   netR: number;
+  netRAfterCosts: number;
 }) {
   return [
     `📊 *NOLA-DELTA • DAILY REPORT*`,
@@ -308,6 +710,7 @@ export function formatDailyReport(summary: {
     `Win Rate: ${summary.winRatePct.toFixed(1)}%`,
     ``,
     `Net Result: ${summary.netR.toFixed(2)}R`,
+    `After Costs: ${summary.netRAfterCosts.toFixed(2)}R`,
   ].join("\n");
 }
 
@@ -318,6 +721,7 @@ export function formatWeeklyReport(summary: {
   losses: number;
   winRatePct: number;
   netR: number;
+  netRAfterCosts: number;
 }) {
   return [
     `📈 *NOLA-DELTA • WEEKLY REPORT*`,
@@ -328,27 +732,143 @@ export function formatWeeklyReport(summary: {
     `Win Rate: ${summary.winRatePct.toFixed(1)}%`,
     ``,
     `Net R: ${summary.netR.toFixed(2)}R`,
+    `After Costs: ${summary.netRAfterCosts.toFixed(2)}R`,
   ].join("\n");
 }
 
+export function formatRiskOfRuin(input: {
+  scope: string; // instrument label or "All instruments"
+  trades: number;
+  minTrades: number;
+  bootstrap: MonteCarloReport | null; // null below minTrades
+  shuffle: MonteCarloReport | null;
+}) {
+  const header = [`🎲 *NOLA-DELTA • RISK OF RUIN*`, `${input.scope} • ${input.trades} closed trade(s)`, ``];
+  if (!input.bootstrap || !input.shuffle) {
+    return [...header, `At least ${input.minTrades} closed trades are needed for a simulation.`].join("\n");
+  }
+  const b = input.bootstrap;
+  const s = input.shuffle;
+  return [
+    ...header,
+    `Risk per trade: ${b.riskPercent}% • ${b.iterations} paths each`,
+    `History: max DD ${b.observed.maxDrawdownPercent}% (${b.observed.maxDrawdownR}R) • streak ${b.observed.longestLosingStreak} • recovery ${b.observed.longestRecoveryTrades} trades`,
+    ``,
+    `*Bootstrap* (trades drawn with replacement)`,
+    `Max DD: median ${b.maxDrawdownPercent.p50}% • p95 ${b.maxDrawdownPercent.p95}% • p99 ${b.maxDrawdownPercent.p99}%`,
+    `Losing streak: median ${b.longestLosingStreak.p50} • p95 ${b.longestLosingStreak.p95}`,
+    `Trades to recover: median ${b.longestRecoveryTrades.p50} • p95 ${b.longestRecoveryTrades.p95}`,
+    `Return over ${b.pathTrades} trades: p5 ${b.finalReturnPercent.p5}% • median ${b.finalReturnPercent.p50}%`,
+    ``,
+    `*Shuffle* (same trades, random order)`,
+    `Max DD: median ${s.maxDrawdownPercent.p50}% • p95 ${s.maxDrawdownPercent.p95}% • p99 ${s.maxDrawdownPercent.p99}%`,
+    `Losing streak: p95 ${s.longestLosingStreak.p95}`,
+    ``,
+    ...b.drawdownExceedance.map((d) => `P(DD ≥ ${d.drawdownPercent}%): ${d.probabilityPct}%`),
+    `☠️ Risk of ruin (DD ≥ ${b.ruinDrawdownPercent}%): ${b.riskOfRuinPct}%`,
+  ].join("\n");
+}
+
+export function formatBacktestSummary(input: {
+  symbol: string;
+  timeframe: string;
+  days: number;
+  requestedDays: number;
+  from: string;
+  to: string;
+  candles: number;
+  expectedCandles: number | null; // null when coverage cannot be judged (daily and longer bars)
+  firstCandle: string | null;
+  lastCandle: string | null;
+  summary: PerformanceSummary;
+  netRAfterCosts: number;
+  openTrades: number;
+}) {
+  const s = input.summary;
+  // Bars in the DST edge hours around the weekend are not expected, so stored data can exceed 100%.
+  const coverage = input.expectedCandles
+    ? ` of ${input.expectedCandles} expected (${Math.min(100, (input.candles / input.expectedCandles) * 100).toFixed(1)}%)`
+    : "";
+  const signedR = (r: number) => `${r > 0 ? "+" : ""}${r.toFixed(2)}R`;
+  return [
+    `⏪ *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
+    `📌 BACKTEST — Last ${input.days} day(s)`,
+    ...(input.requestedDays !== input.days ? [`(Requested ${input.requestedDays} days, limited to ${input.days}.)`] : []),
+    ``,
+    `Window: ${toEat(input.from)} → ${toEat(input.to)}`,
+    `Candles: ${input.candles}${coverage}`,
+    `Data: ${toEat(input.firstCandle)} → ${toEat(input.lastCandle)}`,
+    ``,
+    `Trades: ${s.trades}${input.openTrades > 0 ? ` (+${input.openTrades} still open)` : ""}`,
+    `Wins: ${s.wins} • Losses: ${s.losses}`,
+    `Win Rate: ${s.winRatePct.toFixed(1)}%`,
+    `Net R: ${signedR(s.netR)} (after costs: ${signedR(input.netRAfterCosts)})`,
+    `Max Drawdown: ${s.maxDrawdownR.toFixed(2)}R`,
+    `Best / Worst: ${s.bestR == null ? "-" : signedR(s.bestR)} / ${s.worstR == null ? "-" : signedR(s.worstR)}`,
+  ].join("\n");
+}
+
+// Same colors as the chart lines (chart.ts LEVEL_STYLE).
+const CHART_LEGEND: Record<ChartLevelKind, string> = {
+  anchor: "🟦 Anchor",
+  causalExtreme: "🟪 Causal Extreme",
+  pbLevel: "🟨 PB Level",
+  entry: "⬜ Entry",
+  stopLoss: "🟥 SL",
+  takeProfit: "🟩 TP",
+};
+
+export function formatChartCaption(input: {
+  symbol: string;
+  timeframe: string;
+  candles: number;
+  from: string | null;
+  to: string | null;
+  state: string | null;
+  bias: string | null;
+  levels: ChartLevel[];
+}) {
+  return [
+    `📉 *NOLA-DELTA • ${instrumentLabel(input.symbol, input.timeframe)}*`,
+    `Last ${input.candles} candles: ${toEat(input.from)} → ${toEat(input.to)}`,
+    `State: ${input.state ?? "-"} • Bias: ${input.bias ?? "-"}`,
+    ``,
+    ...input.levels.map((l) => `${CHART_LEGEND[l.kind]}: ${l.price}`),
+    `🔺 FSH / 🔹 FSL: confirmed fractals`,
+  ].join("\n");
+}
+
+function outboxLines(outbox: OutboxHealth | undefined): string[] {
+  if (!outbox) return [];
+  return [
+    ``,
+    `Outbox: ${outbox.pending} pending • ${outbox.dead} dead`,
+    ...outbox.recentDead.map((d) =>
+      `• ${toEat(d.createdAt)} \`${(d.lastError ?? "unknown error").replaceAll("`", "'").slice(0, 120)}\``
+    ),
+  ];
+}
+
 export function formatDebugSnapshot(input: {
   runtime: EngineRuntimeSnapshot | null;
+  outbox?: OutboxHealth;
 }) {
   const r = input.runtime;
   if (!r) {
     return [
       `🧪 *NOLA-DELTA • DEBUG*`,
       `No runtime snapshot yet.`,
+      ...outboxLines(input.outbox),
     ].join("\n");
   }
   return [
     `🧪 *NOLA-DELTA • DEBUG*`,
-    `EURUSD • M15 • ${toEat(r.lastCandleTs)}`,
+    `${instrumentLabel(r.symbol, r.timeframe)} • ${toEat(r.lastCandleTs)}`,
     ``,
     `State: ${r.state}`,
     `Anchor: ${r.anchorLine ?? "-"}`,
     `Causal Extreme: ${r.causalExtreme ?? "-"}`,
-    `D: ${r.impulsePips ?? "-"}p ${r.impulsePips == null ? "" : `(${dOk(r.impulsePips)})`}`,
+    `D: ${r.impulsePips ?? "-"}p ${r.impulsePips == null ? "" : `(${dOk(r.impulsePips, r.config.minImpulsePips)})`}`,
     ``,
     `Mid: ${r.midpointLevel ?? "-"}`,
     `pullbackEnabled: ${r.pullbackStartIndex != null ? "✅" : "❌"}`,
@@ -358,17 +878,68 @@ export function formatDebugSnapshot(input: {
     ``,
     `lastFSH: ${r.lastFSHPrice ?? "-"}`,
     `lastFSL: ${r.lastFSLPrice ?? "-"}`,
+    ...outboxLines(input.outbox),
   ].join("\n");
 }
 
-export function formatResetCycleAck() {
+export function formatResetCycleAck(symbol: string, timeframe: string) {
   return [
-    `✅ *NOLA-DELTA*`,
+    `✅ *NOLA-DELTA • ${instrumentLabel(symbol, timeframe)}*`,
     `Cycle reset complete.`,
     `State: WAIT_SWING_BOS`,
   ].join("\n");
 }
 
+export function formatTradingStateChange(input: {
+  state: TradingState;
+  instruments: { symbol: string; timeframe: string; previous: TradingState }[];
+  chatId: string;
+}) {
+  const effect = {
+    active: "Signals are queued to the broker again.",
+    paused: "Signals are still generated and alerted, but no orders are queued.",
+    killed: "No new orders; the executor closes open positions and cancels pending requests.",
+  }[input.state];
+  return [
+    `${input.state === "killed" ? "🛑" : input.state === "paused" ? "⏸️" : "▶️"} *NOLA-DELTA • TRADING ${
+      input.state === "killed" ? "KILLED" : input.state === "paused" ? "PAUSED" : "RESUMED"
+    }*`,
+    ...input.instruments.map((i) =>
+      `• ${instrumentLabel(i.symbol, i.timeframe)}${i.previous === input.state ? " (unchanged)" : ` (was ${i.previous})`}`
+    ),
+    ``,
+    effect,
+    `By chat: \`${input.chatId}\``,
+  ].join("\n");
+}
+
+export function formatGuardrailTripped(input: {
+  breaches: { rule: string; message: string; resumeAt: string }[];
+  resumeAt: string;
+  instruments: { symbol: string; timeframe: string }[];
+  signalKey: string | null; // the signal that was held back
+}) {
+  return [
+    `🚧 *NOLA-DELTA • GUARDRAIL TRIPPED*`,
+    `📌 TRADING PAUSED — ${input.instruments.map((i) => instrumentLabel(i.symbol, i.timeframe)).join(", ")}`,
+    ``,
+    ...input.breaches.map((b) => `• ${b.message}`),
+    ``,
+    `Signals are still alerted, but no orders are queued.`,
+    `▶️ Auto-resume: ${toEat(input.resumeAt)} (or /resume)`,
+    ...(input.signalKey ? [`🧾 Held signal: ${input.signalKey}`] : []),
+  ].join("\n");
+}
+
+export function formatGuardrailResumed(instruments: { symbol: string; timeframe: string }[]) {
+  return [
+    `▶️ *NOLA-DELTA • GUARDRAIL RESET*`,
+    `📌 TRADING RESUMED — ${instruments.map((i) => instrumentLabel(i.symbol, i.timeframe)).join(", ")}`,
+    ``,
+    `Signals are queued to the broker again.`,
+  ].join("\n");
+}
+
 export function formatUnauthorized() {
   return [
     `🔒 *NOLA-DELTA*`,
@@ -378,6 +949,75 @@ export function formatUnauthorized() {
   ].join("\n");
 }
 
+// Command names contain underscores, which legacy Markdown reads as italics.
+function commandList(commands: string[]): string {
+  return commands.map((c) => `\`/${c}\``).join(" ");
+}
+
+export function formatPermissionDenied(command: string, role: string, required: string) {
+  return [
+    `🔒 *NOLA-DELTA • ACCESS*`,
+    `\`/${command}\` requires the ${required} role.`,
+    ``,
+    `Your role: ${role}. Ask an admin to /grant access.`,
+  ].join("\n");
+}
+
+export function formatWhoAmI(input: {
+  chatId: string;
+  role: string;
+  source: "telegram_users" | "env";
+  displayName: string | null;
+  commands: string[];
+}) {
+  return [
+    `👤 *NOLA-DELTA • WHO AM I*`,
+    `Chat: \`${input.chatId}\`${input.displayName ? ` (${input.displayName})` : ""}`,
+    `Role: ${input.role}${input.source === "env" ? " (TELEGRAM\\_ALLOWED\\_CHAT\\_IDS)" : ""}`,
+    ``,
+    `Commands: ${commandList(input.commands)}`,
+  ].join("\n");
+}
+
+export function formatTelegramUsers(
+  users: { chatId: string; role: string; displayName: string | null; grantedBy: string | null }[],
+  envAdmins: string[],
+) {
+  return [
+    `👥 *NOLA-DELTA • USERS*`,
+    ``,
+    ...(users.length === 0 ? ["No telegram\\_users rows yet."] : users.map((u) =>
+      `• \`${u.chatId}\` ${u.role}${u.displayName ? ` — ${u.displayName}` : ""}${
+        u.grantedBy ? ` (by \`${u.grantedBy}\`)` : ""
+      }`
+    )),
+    ...(envAdmins.length > 0 ? [``, `Env admins: ${envAdmins.map((id) => `\`${id}\``).join(" ")}`] : []),
+    ``,
+    `/grant <chat\\_id> <viewer|operator|admin> [name] • /revoke <chat\\_id>`,
+  ].join("\n");
+}
+
+export function formatRoleChange(input: { chatId: string; role: string | null; by: string; envAdmin: boolean }) {
+  return [
+    `👥 *NOLA-DELTA • ACCESS*`,
+    input.role ? `✅ \`${input.chatId}\` is now ${input.role}.` : `🚫 \`${input.chatId}\` removed from telegram\\_users.`,
+    ...(input.envAdmin && !input.role
+      ? [`⚠️ Still admin through TELEGRAM\\_ALLOWED\\_CHAT\\_IDS until removed there.`]
+      : []),
+    ``,
+    `By chat: \`${input.by}\``,
+  ].join("\n");
+}
+
+export function formatUnknownInstrument(requested: string, instruments: { symbol: string; timeframe: string }[]) {
+  return [
+    `⚠️ *NOLA-DELTA*`,
+    `Unknown instrument: ${requested}`,
+    ``,
+    `Available: ${instruments.map((i) => instrumentLabel(i.symbol, i.timeframe)).join(", ") || "-"}`,
+  ].join("\n");
+}
+
 export function formatDataWarning(message: string) {
   return [
     `⚠️ *NOLA-DELTA • DATA WARNING*`,
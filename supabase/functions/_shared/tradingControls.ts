@@ -0,0 +1,111 @@
+import type { Instrument } from "./instruments.ts";
+import type { createSupabaseAdmin } from "./supabaseAdmin.ts";
+
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+// active: signals are queued to the broker; paused: signals are still generated
+// and alerted but no entry is queued; killed: paused, and the executor also
+// closes open positions and cancels pending requests.
+export type TradingState = "active" | "paused" | "killed";
+
+export const TRADING_STATES: TradingState[] = ["active", "paused", "killed"];
+
+export type TradingControl = {
+  state: TradingState;
+  changedAt: string | null;
+  changedBy: string | null; // Telegram chat id, or "guardrail"
+  reason: string | null;
+  resumeAt: string | null; // automatic resume (guardrail pauses only)
+};
+
+/** Lenient read of `strategy_controls.trading_state`; unknown values count as active. */
+export function parseTradingState(raw: unknown): TradingState {
+  return TRADING_STATES.includes(raw as TradingState) ? raw as TradingState : "active";
+}
+
+export function tradingControlOf(row: Record<string, unknown> | null | undefined): TradingControl {
+  return {
+    state: parseTradingState(row?.trading_state),
+    changedAt: row?.trading_state_changed_at ? String(row.trading_state_changed_at) : null,
+    changedBy: row?.trading_state_changed_by ? String(row.trading_state_changed_by) : null,
+    reason: row?.trading_state_reason ? String(row.trading_state_reason) : null,
+    resumeAt: row?.trading_state_resume_at ? String(row.trading_state_resume_at) : null,
+  };
+}
+
+/**
+ * Sets the trading state of each instrument; returns the states they had before.
+ * `resumeAt` makes m15-signal-engine resume a pause automatically.
+ */
+export async function setTradingState(
+  supabase: SupabaseAdmin,
+  instruments: Instrument[],
+  params: { state: TradingState; changedBy: string; reason?: string | null; resumeAt?: string | null },
+): Promise<TradingState[]> {
+  const previous: TradingState[] = [];
+  for (const instrument of instruments) {
+    const { data, error: readErr } = await supabase
+      .from("strategy_controls")
+      .select("trading_state")
+      .eq("strategy_code", instrument.strategyCode)
+      .eq("symbol", instrument.symbol)
+      .eq("timeframe", instrument.timeframe)
+      .maybeSingle();
+    if (readErr) throw readErr;
+    previous.push(parseTradingState(data?.trading_state));
+
+    const { error } = await supabase
+      .from("strategy_controls")
+      .upsert({
+        strategy_code: instrument.strategyCode,
+        symbol: instrument.symbol,
+        timeframe: instrument.timeframe,
+        trading_state: params.state,
+        trading_state_changed_at: new Date().toISOString(),
+        trading_state_changed_by: params.changedBy,
+        trading_state_reason: params.reason ?? null,
+        trading_state_resume_at: params.resumeAt ?? null,
+      }, { onConflict: "strategy_code,symbol,timeframe" });
+    if (error) throw error;
+  }
+  return previous;
+}
+
+/** Instruments whose pause has reached its `trading_state_resume_at`, with that time. */
+export async function findExpiredPauses(
+  supabase: SupabaseAdmin,
+  now = new Date(),
+): Promise<{ symbol: string; timeframe: string; resumeAt: string }[]> {
+  const { data, error } = await supabase
+    .from("strategy_controls")
+    .select("symbol,timeframe,trading_state_resume_at")
+    .eq("trading_state", "paused")
+    .lte("trading_state_resume_at", now.toISOString());
+  if (error) throw error;
+  return (data ?? []).map((r) => ({
+    symbol: String(r.symbol),
+    timeframe: String(r.timeframe),
+    resumeAt: String(r.trading_state_resume_at),
+  }));
+}
+
+/** Ends pauses whose `trading_state_resume_at` has passed; returns the resumed instruments. */
+export async function resumeExpiredPauses(
+  supabase: SupabaseAdmin,
+  now = new Date(),
+): Promise<{ symbol: string; timeframe: string }[]> {
+  const { data, error } = await supabase
+    .from("strategy_controls")
+    .update({
+      trading_state: "active",
+      trading_state_changed_at: now.toISOString(),
+      trading_state_changed_by: "guardrail",
+      trading_state_reason: null,
+      trading_state_resume_at: null,
+    })
+    .eq("trading_state", "paused")
+    .lte("trading_state_resume_at", now.toISOString())
+    .select("symbol,timeframe");
+  if (error) throw error;
+  return (data ?? []).map((r) => ({ symbol: String(r.symbol), timeframe: String(r.timeframe) }));
+}
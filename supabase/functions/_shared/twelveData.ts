@@ -16,17 +16,38 @@ type TwelveDataResponse = {
   values?: TwelveDataValue[];
 };
 
+// Twelve Data meters requests per minute (8/min on the free plan), so calls made
+// within one function invocation are spaced out and a rate-limited call is retried once.
+let lastRequestAt = 0;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function throttle(minIntervalMs: number): Promise<void> {
+  const waitMs = lastRequestAt + minIntervalMs - Date.now();
+  if (waitMs > 0) await sleep(waitMs);
+  lastRequestAt = Date.now();
+}
+
 function toIsoUtc(datetime: string): string {
   // Twelve Data commonly returns "YYYY-MM-DD HH:mm:ss"
   if (datetime.includes("T")) return new Date(datetime).toISOString();
   return new Date(datetime.replace(" ", "T") + "Z").toISOString();
 }
 
+function toTwelveDataDate(iso: string): string {
+  return new Date(iso).toISOString().slice(0, 19).replace("T", " ");
+}
+
 export async function fetchTwelveDataCandles(params: {
   apiKey: string;
   symbol: string;
   interval: string;
   outputsize: number;
+  start?: string; // ISO timestamps, sent as UTC start_date/end_date
+  end?: string;
+  minIntervalMs?: number;
 }): Promise<Candle[]> {
   const url = new URL("https://api.twelvedata.com/time_series");
   url.searchParams.set("apikey", params.apiKey);
@@ -35,18 +56,28 @@ export async function fetchTwelveDataCandles(params: {
   url.searchParams.set("outputsize", String(params.outputsize));
   url.searchParams.set("timezone", "UTC");
   url.searchParams.set("format", "JSON");
+  if (params.start) url.searchParams.set("start_date", toTwelveDataDate(params.start));
+  if (params.end) url.searchParams.set("end_date", toTwelveDataDate(params.end));
 
-  const res = await fetch(url.toString(), {
-    headers: { Accept: "application/json" },
-  });
-
-  if (!res.ok) {
-    throw new Error(`Twelve Data HTTP ${res.status}`);
+  const minIntervalMs = params.minIntervalMs ?? 0;
+  let body: TwelveDataResponse | null = null;
+  for (let attempt = 0; attempt < 2; attempt++) {
+    await throttle(minIntervalMs);
+    const res = await fetch(url.toString(), {
+      headers: { Accept: "application/json" },
+    });
+    const rateLimited = res.status === 429;
+    if (!res.ok && !rateLimited) {
+      throw new Error(`Twelve Data HTTP ${res.status}`);
+    }
+    body = rateLimited ? { status: "error", code: 429, message: "rate limited" } : (await res.json()) as TwelveDataResponse;
+    if (body.code !== 429 || attempt > 0) break;
+    // Minute quota exhausted: wait for the next window before the single retry.
+    await sleep(Math.max(minIntervalMs, 60_000 - (Date.now() % 60_000)));
   }
 
-  const body = (await res.json()) as TwelveDataResponse;
-  if (body.status === "error" || !body.values) {
-    throw new Error(`Twelve Data error: ${body.message ?? "unknown error"}`);
+  if (!body || body.status === "error" || !body.values) {
+    throw new Error(`Twelve Data error: ${body?.message ?? "unknown error"}`);
   }
 
   return body.values
@@ -7,15 +7,77 @@ export type Candle = {
   low: number;
   close: number;
   volume?: number | null;
+  source?: string; // candle provider name, set when fetched
+  isClosed?: boolean; // false for the still-forming latest bar; stored and CSV candles are closed
 };
 
 export type FractalType = "FSH" | "FSL";
 
+// Equal highs/lows inside a fractal window. strict: the pivot must beat every other
+// candle, so equal extremes never pivot; first/last: the first/last of them is the pivot.
+export type FractalTieMode = "strict" | "first" | "last";
+
+// Price a pivot is read from: wick (high/low), body (max/min of open and close) or close.
+// Gapless candles open at the previous close, so body pivots always tie with a
+// neighbour and need a first/last tie mode.
+export type FractalSource = "wick" | "body" | "close";
+
 export type Fractal = {
   type: FractalType;
   index: number; // candle index of fractal pivot
-  price: number;
-  confirmedAtIndex: number; // confirmation occurs when index+1 candle closes
+  price: number; // pivot price in the rule's source (high/low, body edge or close)
+  confirmedAtIndex: number; // confirmation occurs when the last candle of the fractal window closes
+};
+
+// pullback_swing: TP at the pullback swing (S_low/S_high)
+// fixed_r: TP at tpRMultiple x risk from entry
+// pullback_min_rr: pullback swing TP, signal rejected when R:R < minRewardRisk
+// two_target: TP1 at the pullback swing (closes tp1CloseFraction), TP2 at tp2RMultiple x risk
+export type TakeProfitMode = "pullback_swing" | "fixed_r" | "pullback_min_rr" | "two_target";
+
+// off: stop stays where it was placed; fractal: trail behind newly confirmed fractals
+export type TrailMode = "off" | "fractal";
+
+// Lower timeframe used to order SL/TP touches inside one candle ("off" = assume SL first)
+export type IntrabarTimeframe = "off" | "1min" | "5min";
+
+// How an exit candle touching both the stop and a target was ordered:
+// conservative = SL assumed first (intrabar off), intrabar = lower-timeframe bars,
+// unknown = intrabar on but no usable bars, SL assumed first.
+export type ExitResolution = "conservative" | "intrabar" | "unknown";
+
+// Spread charged while the UTC window "HH:MM-HH:MM" is open, e.g. the rollover hour.
+export type SessionSpread = { window: string; spreadPips: number };
+
+// Execution costs of a closed trade in pips of the whole position.
+export type TradeCosts = {
+  spreadPips: number;
+  slippagePips: number;
+  commissionPips: number;
+  totalPips: number;
+};
+
+export type StrategyConfig = {
+  pipSize: number; // price value of one pip (0.0001 for EURUSD, 0.01 for JPY pairs)
+  slBufferPips: number;
+  minImpulsePips: number; // minimum BOS displacement D
+  fractalWidth: number; // odd candle count of the fractal window (3 = classic 3-candle fractal)
+  fractalTieMode: FractalTieMode;
+  fractalSource: FractalSource;
+  tpMode: TakeProfitMode;
+  tpRMultiple: number;
+  minRewardRisk: number;
+  tp1CloseFraction: number; // share of the position closed at TP1 (0..1, exclusive)
+  tp2RMultiple: number;
+  breakevenAtR: number; // move SL to entry once price reaches this R (0 = off)
+  trailMode: TrailMode;
+  maxHoldingCandles: number; // close at the candle close after this many candles (0 = off)
+  intrabarTimeframe: IntrabarTimeframe;
+  spreadPips: number; // spread outside the sessionSpreads windows
+  sessionSpreads: SessionSpread[];
+  slippagePips: number; // adverse slippage per market fill (entry, SL and time exits)
+  commissionPerLot: number; // round-turn commission per 100k units, account currency
+  pipValuePerLot: number; // account-currency value of one pip per 100k units
 };
 
 export type EngineSignal = {
@@ -30,7 +92,8 @@ export type EngineSignal = {
   plannedEntryPrice: number | null;
   entryStatus: "pending_next_open" | "known_next_open";
   stopLoss: number;
-  takeProfit: number;
+  takeProfit: number; // TP1 in two_target mode
+  takeProfit2: number | null; // final target in two_target mode
   impulsePips: number;
   anchorLine: number; // B_line for shorts, A_line for longs
   causalExtreme: number; // H for shorts, L for longs
@@ -45,6 +108,56 @@ export type EngineSignal = {
     confirmToTriggerCandles: number;
   };
   payload: Record<string, unknown>;
+  trace?: TraceStep[]; // decisions that led to the signal (trace runs only)
+  filteredReason?: string; // set when the run's signal filter turned it down; no entry follows
+};
+
+export type TraceStepKind =
+  | "BOS"
+  | "CYCLE_DISCARDED"
+  | "PULLBACK_STARTED"
+  | "PULLBACK_CONFIRMED"
+  | "TRIGGER"
+  | "SIGNAL_REJECTED"
+  | "SIGNAL_FILTERED"
+  | "STRUCTURE_FLIP"
+  | "CYCLE_RESET";
+
+// A fractal a decision relied on, e.g. the FSL broken by a bearish BOS.
+export type TraceFractal = {
+  role: string;
+  type: FractalType;
+  index: number;
+  at: string | null; // open time of the pivot candle, null when no longer buffered
+  price: number;
+};
+
+// One state-machine transition, recorded when runContinuationStrategy runs with `trace: true`.
+export type TraceStep = {
+  kind: TraceStepKind;
+  index: number; // absolute candle index
+  at: string; // open time of the candle whose close decided the step
+  direction: Direction; // side of the cycle after the step
+  close: number;
+  rule: string; // the comparison that fired, e.g. "close 1.0801 < FSL 1.0804"
+  outcome: string; // what the engine derived from it
+  levels: Record<string, number | null>;
+  fractals: TraceFractal[];
+};
+
+export type PartialExit = {
+  leg: "TP1";
+  time: string;
+  price: number;
+  fraction: number; // share of the original position closed
+  rMultiple: number | null; // R of the closed share
+};
+
+export type StopAdjustment = {
+  time: string; // close of the candle that triggered the move; effective from the next candle
+  from: number;
+  to: number;
+  reason: "BREAKEVEN" | "TRAIL";
 };
 
 export type EngineTrade = {
@@ -55,21 +168,88 @@ export type EngineTrade = {
   direction: Direction;
   entryTime: string;
   entryPrice: number;
-  stopLoss: number;
+  stopLoss: number; // current stop, after breakeven/trailing moves
+  initialStopLoss: number; // defines 1R
   takeProfit: number;
-  exitTime: string | null;
+  takeProfit2: number | null;
+  exitTime: string | null; // exit of the remaining position
   exitPrice: number | null;
-  exitReason: "TP" | "SL" | null;
-  rMultiple: number | null;
+  exitReason: "TP" | "SL" | "TIME" | null;
+  exitResolution: ExitResolution | null; // null unless the exit candle touched SL and a target
+  rMultiple: number | null; // gross (mid prices, no costs), whole position, partial exits included
+  netRMultiple: number | null; // rMultiple after spread, slippage and commission
+  costs: TradeCosts | null; // set on close
   status: "OPEN" | "CLOSED";
+  partialExits: PartialExit[];
+  remainingFraction: number;
+  stopAdjustments: StopAdjustment[];
   payload: Record<string, unknown>;
 };
 
 export type EngineRunResult = {
-  signals: EngineSignal[];
-  trades: EngineTrade[];
+  signals: EngineSignal[]; // signals created or updated (entry filled) during this run
+  trades: EngineTrade[]; // trades opened or changed during this run
   runtime: EngineRuntimeSnapshot;
   events: EngineEvent[];
+  state: EngineState; // resumable state after the last processed candle
+  missingIntrabar: string[]; // ambiguous exit candles that had no lower-timeframe bars
+};
+
+export type CyclePhase =
+  | "WAIT_SWING_BOS"
+  | "BEAR_WAIT_PULLBACK_START"
+  | "BEAR_TRACK_PULLBACK"
+  | "BEAR_WAIT_CONTINUATION_TRIGGER"
+  | "BULL_WAIT_PULLBACK_START"
+  | "BULL_TRACK_PULLBACK"
+  | "BULL_WAIT_CONTINUATION_TRIGGER";
+
+// Cycle variables of the state machine. Candle indexes are absolute positions in
+// the engine's candle stream (0 = first candle the state ever processed), -1 = unset.
+export type EngineCycleState = {
+  phase: CyclePhase;
+  bosIndex: number;
+  bosTs: string | null;
+  anchorLine: number;
+  anchorIndex: number;
+  causalExtreme: number;
+  causalExtremeIndex: number;
+  pbLevel: number;
+  impulsePips: number;
+  pullbackStartIndex: number;
+  pullbackConfirmIndex: number;
+  pbLow: number | null;
+  pbHigh: number | null;
+  sLow: number | null;
+  sHigh: number | null;
+};
+
+// JSON-serializable engine state persisted in strategy_runtime_state.payload.engine.
+export type EngineState = {
+  version: number;
+  configKey: string; // state is discarded when the strategy config changes
+  nextIndex: number; // absolute index assigned to the next processed candle
+  lastCandleTs: string | null;
+  bufferStart: number; // absolute index of candles[0]
+  candles: Candle[]; // retained closed candles needed by fractal windows and cycle lookbacks
+  fractals: Fractal[]; // most recent confirmed fractals
+  lastFSH: Fractal | null;
+  lastFSL: Fractal | null;
+  cycle: EngineCycleState;
+  pendingSignal: EngineSignal | null; // triggered, waiting for the next candle open
+  openTrade: { trade: EngineTrade; signal: EngineSignal; entryIndex: number } | null;
+  trace?: TraceStep[]; // steps since the last signal (trace runs only)
+};
+
+// Trend of one higher timeframe: the direction of the latest close through one of
+// its confirmed fractals (close below the last FSL = BEARISH, above the last FSH = BULLISH).
+export type HtfBiasReading = {
+  timeframe: string; // Twelve Data interval, e.g. "4h"
+  bias: "BULLISH" | "BEARISH" | "NEUTRAL"; // NEUTRAL until a fractal is broken
+  asOf: string | null; // open time of the last closed HTF candle used
+  breakLevel: number | null; // fractal price the bias-setting close went through
+  breakTs: string | null; // open time of that HTF candle
+  candles: number; // closed HTF candles available
 };
 
 export type EngineRuntimeSnapshot = {
@@ -77,15 +257,7 @@ export type EngineRuntimeSnapshot = {
   symbol: string;
   timeframe: string;
   bias: "BULLISH" | "BEARISH" | "NEUTRAL";
-  state:
-    | "WAIT_SWING_BOS"
-    | "BEAR_WAIT_PULLBACK_START"
-    | "BEAR_TRACK_PULLBACK"
-    | "BEAR_WAIT_CONTINUATION_TRIGGER"
-    | "BULL_WAIT_PULLBACK_START"
-    | "BULL_TRACK_PULLBACK"
-    | "BULL_WAIT_CONTINUATION_TRIGGER"
-    | "IN_TRADE";
+  state: CyclePhase | "IN_TRADE";
   lastCandleTs: string | null;
   lastFSHPrice: number | null;
   lastFSLPrice: number | null;
@@ -102,9 +274,33 @@ export type EngineRuntimeSnapshot = {
   sLow: number | null;
   sHigh: number | null;
   activeTradeKey: string | null;
+  htfBias: HtfBiasReading[]; // empty unless HTF_BIAS_TIMEFRAMES is set
+  config: StrategyConfig;
 };
 
 export type EngineEvent =
+  | {
+    type: "BOS_DETECTED";
+    at: string;
+    direction: "LONG" | "SHORT"; // cycle direction: SHORT after a break below the last FSL
+    anchorLine: number;
+    causalExtreme: number;
+    impulsePips: number;
+    pbLevel: number;
+  }
+  | {
+    type: "PULLBACK_STARTED";
+    at: string;
+    direction: "LONG" | "SHORT";
+    breakLevel: number; // fractal the close broke against the cycle direction
+  }
+  | {
+    type: "PULLBACK_CONFIRMED";
+    at: string;
+    direction: "LONG" | "SHORT";
+    pbLevel: number;
+    swingTarget: number; // S_low for shorts, S_high for longs
+  }
   | {
     type: "STRUCTURE_FLIP";
     at: string;
@@ -118,4 +314,21 @@ export type EngineEvent =
     direction: "LONG" | "SHORT";
     impulsePips: number;
     minImpulsePips: number;
+  }
+  | {
+    type: "SIGNAL_REJECTED";
+    at: string;
+    direction: "LONG" | "SHORT";
+    rewardRisk: number | null;
+    minRewardRisk: number;
+  }
+  | {
+    type: "STOP_MOVED";
+    at: string;
+    signalKey: string;
+    tradeKey: string;
+    direction: "LONG" | "SHORT";
+    from: number;
+    to: number;
+    reason: "BREAKEVEN" | "TRAIL";
   };
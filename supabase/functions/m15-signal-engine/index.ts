@@ -1,20 +1,88 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { getEnv } from "../_shared/env.ts";
+import { getEnv, type RuntimeEnv } from "../_shared/env.ts";
+import { instrumentLabel, type Instrument, loadInstruments, timeframeMs } from "../_shared/instruments.ts";
 import { createSupabaseAdmin } from "../_shared/supabaseAdmin.ts";
-import { fetchTwelveDataCandles } from "../_shared/twelveData.ts";
-import { sendTelegramMessage } from "../_shared/telegram.ts";
+import { type CandleProvider, createCandleProviders, fetchCandlesWithFailover } from "../_shared/candleProviders.ts";
 import {
+  blockingCandleIssues,
+  candleIssueKey,
+  type CandleQualityIssue,
+  describeCandleIssues,
+  validateCandles,
+} from "../_shared/candleQuality.ts";
+import { dispatchOutbox, enqueueNotification, enqueueNotifications } from "../_shared/outbox.ts";
+import {
+  approvalKeyboard,
+  formatApprovalExpired,
+  formatApprovalRequest,
   formatCycleDiscarded,
+  formatDataWarning,
+  formatGuardrailResumed,
+  formatGuardrailTripped,
   formatSignalDetected,
   formatSignalArmed,
+  formatSignalFiltered,
+  formatSignalRejected,
+  formatStopMoved,
   formatStructureFlip,
   formatTradeClosedSL,
+  formatTradeClosedTime,
   formatTradeClosedTP,
 } from "../_shared/telegramTemplates.ts";
-import { runContinuationStrategy } from "../_shared/strategy.ts";
-import type { Candle, EngineEvent, EngineRuntimeSnapshot, EngineSignal, EngineTrade } from "../_shared/types.ts";
+import { loadStoredCandles, toCandle } from "../_shared/candleStore.ts";
+import { fetchIntrabarCandles } from "../_shared/intrabar.ts";
+import { approvalExpiresAt, expireApprovals, findExpiredApprovals } from "../_shared/approvals.ts";
+import { triggerExecutorWebhook } from "../_shared/executor.ts";
+import { listAllowedChatIds } from "../_shared/access.ts";
+import {
+  checkGuardrailsForSignals,
+  type GuardrailBreach,
+  guardrailSettings,
+  guardrailsEnabled,
+} from "../_shared/guardrails.ts";
+import {
+  findExpiredPauses,
+  parseTradingState,
+  resumeExpiredPauses,
+  setTradingState,
+} from "../_shared/tradingControls.ts";
+import {
+  evaluateSignalFilters,
+  loadEconomicEvents,
+  signalDecisionTime,
+  signalFilterSettings,
+} from "../_shared/filters.ts";
+import { type FractalRule, fractalRuleOf } from "../_shared/fractals.ts";
+import {
+  evaluateHtfBias,
+  htfBiasAt,
+  type HtfBiasDecision,
+  type HtfBiasSettings,
+  htfBiasSettings,
+  htfTimeframesFor,
+  loadHtfCandles,
+} from "../_shared/htfBias.ts";
+import {
+  buildEventKey,
+  resetEngineCycle,
+  resolveStrategyConfig,
+  restoreEngineState,
+  runContinuationStrategy,
+} from "../_shared/strategy.ts";
+import type {
+  Candle,
+  EngineEvent,
+  EngineRuntimeSnapshot,
+  EngineSignal,
+  EngineState,
+  EngineTrade,
+  PartialExit,
+  StrategyConfig,
+} from "../_shared/types.ts";
 
-const STRATEGY_CODE = "eurusd_m15_continuation_v1";
+type SupabaseAdmin = ReturnType<typeof createSupabaseAdmin>;
+
+const MAX_INTRABAR_PASSES = 3;
 
 function json(status: number, body: unknown) {
   return new Response(JSON.stringify(body, null, 2), {
@@ -33,12 +101,12 @@ function asDbCandle(symbol: string, timeframe: string, c: Candle) {
     low: c.low,
     close: c.close,
     volume: c.volume ?? null,
-    source: "twelvedata",
+    source: c.source ?? "twelvedata",
     raw: {},
   };
 }
 
-function signalRow(s: EngineSignal) {
+function signalRow(s: EngineSignal, filteredReason: string | null, htfBias: HtfBiasDecision | null) {
   return {
     signal_key: s.signalKey,
     strategy_code: s.strategyCode,
@@ -52,6 +120,7 @@ function signalRow(s: EngineSignal) {
     entry_status: s.entryStatus,
     stop_loss: s.stopLoss,
     take_profit: s.takeProfit,
+    take_profit_2: s.takeProfit2,
     impulse_pips: s.impulsePips,
     anchor_line: s.anchorLine,
     causal_extreme: s.causalExtreme,
@@ -63,7 +132,10 @@ function signalRow(s: EngineSignal) {
     bos_to_pb_start_candles: s.metrics.bosToPullbackStartCandles,
     pb_start_to_confirm_candles: s.metrics.pullbackStartToConfirmCandles,
     confirm_to_trigger_candles: s.metrics.confirmToTriggerCandles,
+    filtered_reason: filteredReason,
+    htf_bias: htfBias,
     payload: s.payload,
+    decision_trace: s.trace ?? null,
   };
 }
 
@@ -77,17 +149,25 @@ function tradeRow(t: EngineTrade) {
     entry_time: t.entryTime,
     entry_price: t.entryPrice,
     stop_loss: t.stopLoss,
+    initial_stop_loss: t.initialStopLoss,
     take_profit: t.takeProfit,
+    take_profit_2: t.takeProfit2,
     exit_time: t.exitTime,
     exit_price: t.exitPrice,
     exit_reason: t.exitReason,
+    exit_resolution: t.exitResolution,
     r_multiple: t.rMultiple,
+    net_r_multiple: t.netRMultiple,
+    costs: t.costs,
     status: t.status,
+    partial_exits: t.partialExits,
+    remaining_fraction: t.remainingFraction,
+    stop_adjustments: t.stopAdjustments,
     payload: t.payload,
   };
 }
 
-function runtimeRow(runtime: EngineRuntimeSnapshot, events: EngineEvent[]) {
+function runtimeRow(runtime: EngineRuntimeSnapshot, events: EngineEvent[], engineState: EngineState) {
   return {
     strategy_code: runtime.strategyCode,
     symbol: runtime.symbol,
@@ -110,15 +190,49 @@ function runtimeRow(runtime: EngineRuntimeSnapshot, events: EngineEvent[]) {
     s_low: runtime.sLow,
     s_high: runtime.sHigh,
     active_trade_key: runtime.activeTradeKey,
+    htf_bias: runtime.htfBias,
     payload: {
       events: events.slice(-20),
+      config: runtime.config,
+      engine: engineState,
     },
   };
 }
 
-function brokerRequestRow(s: EngineSignal, requestedUnits: number) {
+// Events older than this many candles are history replayed from stored candles
+// (first run, cycle reset, config change): stored, but not alerted.
+const EVENT_ALERT_WINDOW_CANDLES = 4;
+
+// Event types alerted in Telegram; the others are only listed by /events.
+const NOTIFIED_EVENT_TYPES: EngineEvent["type"][] = ["STRUCTURE_FLIP", "CYCLE_DISCARDED", "STOP_MOVED", "SIGNAL_REJECTED"];
+
+function engineEventRow(instrument: Instrument, event: EngineEvent) {
+  const alertWindowMs = EVENT_ALERT_WINDOW_CANDLES * (timeframeMs(instrument.timeframe) ?? 0);
+  const replayed = new Date(event.at).getTime() < Date.now() - alertWindowMs;
   return {
-    request_key: `${s.signalKey}:ctrader:market`,
+    event_key: buildEventKey(instrument.symbol, instrument.timeframe, event),
+    strategy_code: instrument.strategyCode,
+    symbol: instrument.symbol,
+    timeframe: instrument.timeframe,
+    event_type: event.type,
+    event_time: event.at,
+    direction: "direction" in event ? event.direction : null,
+    payload: event,
+    telegram_notified_at: replayed ? new Date().toISOString() : null,
+  };
+}
+
+// One request per position leg. Two-target signals split the position into a
+// TP1 leg (tp1CloseFraction of the volume) and a TP2 leg for the remainder.
+function brokerRequestRows(s: EngineSignal, requestedUnits: number, config: StrategyConfig) {
+  const legs = s.takeProfit2 == null
+    ? [{ leg: "single", suffix: "", takeProfit: s.takeProfit, volumeFraction: 1 }]
+    : [
+      { leg: "tp1", suffix: ":tp1", takeProfit: s.takeProfit, volumeFraction: config.tp1CloseFraction },
+      { leg: "tp2", suffix: ":tp2", takeProfit: s.takeProfit2, volumeFraction: 1 - config.tp1CloseFraction },
+    ];
+  return legs.map((l) => ({
+    request_key: `${s.signalKey}:ctrader:market${l.suffix}`,
     signal_key: s.signalKey,
     broker: "ctrader",
     symbol: s.symbol,
@@ -129,7 +243,9 @@ function brokerRequestRow(s: EngineSignal, requestedUnits: number) {
     planned_entry_time: s.plannedEntryTime,
     planned_entry_price: s.plannedEntryPrice,
     stop_loss: s.stopLoss,
-    take_profit: s.takeProfit,
+    take_profit: l.takeProfit,
+    leg: l.leg,
+    volume_fraction: Number(l.volumeFraction.toFixed(4)),
     payload: {
       strategy_code: s.strategyCode,
       trigger_time: s.triggerTime,
@@ -137,272 +253,809 @@ function brokerRequestRow(s: EngineSignal, requestedUnits: number) {
       entry_status: s.entryStatus,
       impulse_pips: s.impulsePips,
     },
+  }));
+}
+
+// Keeps the live position in line with the simulated trade: the latest stop of a
+// still-open trade is sent as an AMEND per open leg, a time exit as a CLOSE.
+function brokerManagementRows(t: EngineTrade) {
+  const legs = t.takeProfit2 == null
+    ? [{ leg: "single", takeProfit: t.takeProfit }]
+    : [
+      ...(t.partialExits.length === 0 ? [{ leg: "tp1", takeProfit: t.takeProfit }] : []),
+      { leg: "tp2", takeProfit: t.takeProfit2 },
+    ];
+  const lastMove = t.stopAdjustments[t.stopAdjustments.length - 1];
+  const action = t.status === "CLOSED" && t.exitReason === "TIME"
+    ? { orderType: "CLOSE", key: "close", reason: "TIME" }
+    : t.status === "OPEN" && lastMove
+    ? { orderType: "AMEND", key: `amend:${lastMove.time}`, reason: lastMove.reason }
+    : null;
+  if (!action) return [];
+  return legs.map((l) => ({
+    request_key: `${t.signalKey}:ctrader:${action.key}:${l.leg}`,
+    signal_key: t.signalKey,
+    broker: "ctrader",
+    symbol: t.symbol,
+    timeframe: t.timeframe,
+    direction: t.direction,
+    order_type: action.orderType,
+    requested_units: null,
+    planned_entry_time: null,
+    planned_entry_price: t.entryPrice,
+    stop_loss: t.stopLoss,
+    take_profit: l.takeProfit,
+    leg: l.leg,
+    volume_fraction: 1,
+    payload: {
+      trade_key: t.tradeKey,
+      reason: action.reason,
+      initial_stop_loss: t.initialStopLoss,
+      exit_time: t.exitTime,
+      exit_price: t.exitPrice,
+    },
+  }));
+}
+
+function candleIssueRow(instrument: Instrument, source: string | null, issue: CandleQualityIssue) {
+  return {
+    issue_key: candleIssueKey(instrument.symbol, instrument.timeframe, issue),
+    symbol: instrument.symbol,
+    timeframe: instrument.timeframe,
+    issue_type: issue.type,
+    severity: issue.severity,
+    candle_ts: issue.ts,
+    message: issue.message,
+    details: issue.details,
+    source,
   };
 }
 
-async function triggerExecutorWebhook(baseUrl: string, secret: string | null) {
-  const url = `${baseUrl.replace(/\/$/, "")}/webhook/queued`;
-  const headers: HeadersInit = { "Content-Type": "application/json" };
-  if (secret) headers["x-executor-secret"] = secret;
-  try {
-    await fetch(url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify({ source: "m15-signal-engine" }),
+// Stores candle issues and alerts Telegram about the ones seen for the first time.
+// The alert is queued before the issues are stored: a run failing in between
+// sees them as new again and the dedupe key keeps the alert single.
+async function recordCandleIssues(
+  env: RuntimeEnv,
+  supabase: SupabaseAdmin,
+  instrument: Instrument,
+  source: string | null,
+  issues: CandleQualityIssue[],
+  blocked: boolean,
+): Promise<number> {
+  if (issues.length === 0) return 0;
+  const keyOf = (i: CandleQualityIssue) => candleIssueKey(instrument.symbol, instrument.timeframe, i);
+  const { data, error } = await supabase
+    .from("candle_quality_issues")
+    .select("issue_key")
+    .in("issue_key", issues.map(keyOf));
+  if (error) throw error;
+
+  const stored = new Set((data ?? []).map((r) => String(r.issue_key)));
+  const fresh = issues.filter((i) => !stored.has(keyOf(i)));
+  if (fresh.length === 0) return 0;
+  await enqueueNotification(supabase, {
+    dedupeKey: `candle_issues:${keyOf(fresh[0])}`,
+    chatId: env.telegramChatId,
+    text: formatDataWarning(
+      describeCandleIssues(instrumentLabel(instrument.symbol, instrument.timeframe), fresh, blocked),
+    ),
+  });
+  const { error: insertErr } = await supabase
+    .from("candle_quality_issues")
+    .upsert(fresh.map((i) => candleIssueRow(instrument, source, i)), {
+      onConflict: "issue_key",
+      ignoreDuplicates: true,
     });
-  } catch (e) {
-    console.error("Executor webhook failed", e);
+  if (insertErr) throw insertErr;
+  return fresh.length;
+}
+
+// Filters run inside the strategy when a signal triggers, so a filtered signal
+// resets the cycle and never becomes a pending entry. Calendar events and HTF
+// candles are loaded up front for every trigger the run can produce. A trigger
+// already stored (candles re-processed after a failed run) keeps its outcome
+// even if the calendar changed. The HTF decision is recorded either way.
+async function prepareSignalFilter(
+  env: RuntimeEnv,
+  supabase: SupabaseAdmin,
+  instrument: Instrument,
+  params: {
+    from: Date; // open of the first candle the run can trigger on
+    to: Date; // close of the latest closed candle
+    htf: { settings: HtfBiasSettings; series: Map<string, Candle[]>; fractalRule: FractalRule };
+  },
+): Promise<{
+  signalFilter: (signal: EngineSignal) => string | null;
+  htfBiasOf: (signalKey: string) => HtfBiasDecision | null;
+}> {
+  const { data: stored, error } = await supabase
+    .from("strategy_signals")
+    .select("signal_key,filtered_reason,htf_bias")
+    .eq("symbol", instrument.symbol)
+    .eq("timeframe", instrument.timeframe)
+    .gte("trigger_time", params.from.toISOString());
+  if (error) throw error;
+  const reasons = new Map<string, string | null>();
+  const htfBias = new Map<string, HtfBiasDecision>();
+  for (const r of stored ?? []) {
+    reasons.set(String(r.signal_key), r.filtered_reason == null ? null : String(r.filtered_reason));
+    if (r.htf_bias != null) htfBias.set(String(r.signal_key), r.htf_bias as HtfBiasDecision);
   }
+
+  const settings = signalFilterSettings(env);
+  const intervalMs = timeframeMs(instrument.timeframe);
+  const events = settings.newsMinImpact === "off" ? [] : await loadEconomicEvents(supabase, {
+    symbol: instrument.symbol,
+    from: params.from,
+    to: params.to,
+    minImpact: settings.newsMinImpact,
+  });
+  const { htf } = params;
+
+  return {
+    signalFilter: (s) => {
+      if (reasons.has(s.signalKey)) return reasons.get(s.signalKey)!;
+      const decision = htf.series.size === 0 ? null : evaluateHtfBias(
+        s.direction,
+        htfBiasAt(htf.series, htf.settings, htf.fractalRule, signalDecisionTime(s, intervalMs)),
+        htf.settings,
+      );
+      if (decision) htfBias.set(s.signalKey, decision);
+      const reason = evaluateSignalFilters(s, settings, events, intervalMs) ?? decision?.reason ?? null;
+      reasons.set(s.signalKey, reason);
+      return reason;
+    },
+    htfBiasOf: (signalKey) => htfBias.get(signalKey) ?? null,
+  };
 }
 
-serve(async (req) => {
-  try {
-    const env = getEnv();
-    const authHeader = req.headers.get("x-cron-secret");
-    if (authHeader !== env.cronSecret) {
-      return json(401, { error: "Unauthorized" });
-    }
+async function announce(env: RuntimeEnv, supabase: SupabaseAdmin, dedupeKey: string, text: string) {
+  const chatIds = await listAllowedChatIds(supabase, env);
+  await enqueueNotifications(supabase, chatIds.map((chatId) => ({ dedupeKey: `${dedupeKey}:${chatId}`, chatId, text })));
+}
 
-    const supabase = createSupabaseAdmin(env);
+/**
+ * Pauses every active instrument until the latest reset time of the tripped
+ * rules. Instruments already paused or killed by hand keep their state.
+ */
+async function pauseForGuardrails(
+  env: RuntimeEnv,
+  supabase: SupabaseAdmin,
+  instruments: Instrument[],
+  breaches: GuardrailBreach[],
+  signalKey: string | null,
+) {
+  const { data, error } = await supabase
+    .from("strategy_controls")
+    .select("symbol,timeframe,trading_state")
+    .neq("trading_state", "active");
+  if (error) throw error;
+  const halted = new Set((data ?? []).map((r) => `${r.symbol}|${r.timeframe}`));
+  const targets = instruments.filter((i) => !halted.has(`${i.symbol}|${i.timeframe}`));
+  const resumeAt = breaches.map((b) => b.resumeAt).sort().at(-1)!;
+  // Announced first: after the pause, the next run no longer evaluates the guardrails.
+  await announce(env, supabase, `guardrail_tripped:${resumeAt}`, formatGuardrailTripped({ breaches, resumeAt, instruments: targets, signalKey }));
+  await setTradingState(supabase, targets, {
+    state: "paused",
+    changedBy: "guardrail",
+    reason: breaches.map((b) => b.message).join("; "),
+    resumeAt,
+  });
+}
 
-    const { data: controlRow, error: controlErr } = await supabase
-      .from("strategy_controls")
-      .select("*")
-      .eq("strategy_code", STRATEGY_CODE)
-      .eq("symbol", env.signalSymbol)
-      .eq("timeframe", env.signalTimeframe)
-      .maybeSingle();
-    if (controlErr) throw controlErr;
-
-    let resetApplied = false;
-    if (controlRow?.reset_requested === true) {
-      resetApplied = true;
-      const { error: resetErr } = await supabase
-        .from("strategy_controls")
-        .upsert({
-          strategy_code: STRATEGY_CODE,
-          symbol: env.signalSymbol,
-          timeframe: env.signalTimeframe,
-          reset_requested: false,
-        }, { onConflict: "strategy_code,symbol,timeframe" });
-      if (resetErr) throw resetErr;
-
-      await supabase
-        .from("strategy_runtime_state")
-        .delete()
-        .eq("strategy_code", STRATEGY_CODE)
-        .eq("symbol", env.signalSymbol)
-        .eq("timeframe", env.signalTimeframe);
-    }
+async function runInstrument(
+  env: RuntimeEnv,
+  supabase: SupabaseAdmin,
+  providers: CandleProvider[],
+  instrument: Instrument,
+  instruments: Instrument[],
+) {
+  const base = { symbol: instrument.symbol, timeframe: instrument.timeframe };
 
-    const fetched = await fetchTwelveDataCandles({
-      apiKey: env.twelveDataApiKey,
-      symbol: env.signalSymbol,
-      interval: env.signalTimeframe,
-      outputsize: env.twelveDataOutputsize,
-    });
+  const { data: controlRow, error: controlErr } = await supabase
+    .from("strategy_controls")
+    .select("*")
+    .eq("strategy_code", instrument.strategyCode)
+    .eq("symbol", instrument.symbol)
+    .eq("timeframe", instrument.timeframe)
+    .maybeSingle();
+  if (controlErr) throw controlErr;
+  const strategyConfig = resolveStrategyConfig(controlRow?.config);
+  let tradingState = parseTradingState(controlRow?.trading_state);
 
-    if (fetched.length === 0) {
-      return json(200, { ok: true, message: "No candles returned from Twelve Data" });
-    }
+  const { data: runtimeStateRow, error: runtimeStateErr } = await supabase
+    .from("strategy_runtime_state")
+    .select("payload")
+    .eq("strategy_code", instrument.strategyCode)
+    .eq("symbol", instrument.symbol)
+    .eq("timeframe", instrument.timeframe)
+    .maybeSingle();
+  if (runtimeStateErr) throw runtimeStateErr;
+  const previousPayload = (runtimeStateRow?.payload ?? {}) as { engine?: unknown; events?: EngineEvent[] };
+  let engineState = restoreEngineState(previousPayload.engine, strategyConfig);
 
-    const candleRows = fetched.map((c) => asDbCandle(env.signalSymbol, env.signalTimeframe, c));
-    const upsertCandlesRes = await supabase
-      .from("market_candles")
-      .upsert(candleRows, { onConflict: "symbol,timeframe,ts" });
-    if (upsertCandlesRes.error) throw upsertCandlesRes.error;
+  const { provider, candles: fetched, failures: providerFailures } = await fetchCandlesWithFailover(providers, {
+    symbol: instrument.symbol,
+    interval: instrument.timeframe,
+    outputsize: env.twelveDataOutputsize,
+  });
 
+  if (fetched.length === 0) {
+    return { ...base, ok: true, providerFailures, message: "No candles returned by any candle provider" };
+  }
+
+  // The in-progress bar is never stored; it only reaches the engine to fill a pending entry at its open.
+  const closedFetched = fetched.filter((c) => c.isClosed !== false);
+  const formingCandle = fetched.filter((c) => c.isClosed === false).at(-1) ?? null;
+
+  const quality = validateCandles(closedFetched, {
+    intervalMs: timeframeMs(instrument.timeframe),
+    pipSize: strategyConfig.pipSize,
+    spikeMultiple: env.candleSpikeMultiple,
+  });
+
+  const candleRows = quality.candles.map((c) => asDbCandle(instrument.symbol, instrument.timeframe, c));
+  const upsertCandlesRes = await supabase
+    .from("market_candles")
+    .upsert(candleRows, { onConflict: "symbol,timeframe,ts" });
+  if (upsertCandlesRes.error) throw upsertCandlesRes.error;
+
+  const qualityIssues = env.candleQualityMode === "off" ? [] : quality.issues;
+  // Only errors on candles the engine has not processed yet can change its output.
+  const blockingIssues = env.candleQualityMode === "block"
+    ? blockingCandleIssues(qualityIssues, {
+      after: engineState?.lastCandleTs ?? null,
+      latestTs: quality.candles.at(-1)?.ts ?? null,
+      intervalMs: timeframeMs(instrument.timeframe),
+    })
+    : [];
+  const blocked = blockingIssues.length > 0;
+  const newIssueCount = await recordCandleIssues(env, supabase, instrument, provider, qualityIssues, blocked);
+  if (blocked) {
+    return {
+      ...base,
+      ok: true,
+      candleProvider: provider,
+      candlesStored: candleRows.length,
+      candleIssues: qualityIssues.length,
+      newCandleIssues: newIssueCount,
+      blockedByCandleIssues: blockingIssues.length,
+      message: "Signal generation blocked by candle quality errors",
+    };
+  }
+
+  // The request is only cleared once the reset state is persisted (see below).
+  const resetApplied = controlRow?.reset_requested === true;
+  if (resetApplied && engineState) engineState = resetEngineCycle(engineState);
+
+  // Resume from the persisted engine state when possible so each run only
+  // processes candles closed since the previous run.
+  let candles: Candle[];
+  if (engineState?.lastCandleTs) {
+    candles = await loadStoredCandles(supabase, {
+      symbol: instrument.symbol,
+      timeframe: instrument.timeframe,
+      from: engineState.lastCandleTs,
+    });
+  } else {
     const { data: dbCandles, error: dbCandleErr } = await supabase
       .from("market_candles")
       .select("ts,open,high,low,close,volume")
-      .eq("symbol", env.signalSymbol)
-      .eq("timeframe", env.signalTimeframe)
+      .eq("symbol", instrument.symbol)
+      .eq("timeframe", instrument.timeframe)
       .order("ts", { ascending: false })
       .limit(env.signalLookbackCandles);
     if (dbCandleErr) throw dbCandleErr;
     if (!dbCandles || dbCandles.length < 5) {
-      return json(200, { ok: true, candlesStored: candleRows.length, message: "Insufficient candles" });
+      return { ...base, ok: true, candlesStored: candleRows.length, message: "Insufficient candles" };
     }
+    candles = [...dbCandles].reverse().map((r) => toCandle(r as Record<string, unknown>));
+  }
+
+  const resumedFromIndex = engineState?.nextIndex ?? 0;
+  const parentMs = timeframeMs(instrument.timeframe);
+
+  // HTF candles are loaded once per run, back far enough for the first candle
+  // the run can trigger on; the latest closed candle also gives the current bias for /status.
+  const htfSettings = htfBiasSettings(env);
+  const fractalRule = fractalRuleOf(strategyConfig);
+  const firstOpen = new Date(candles[0]?.ts ?? Date.now());
+  const latestClose = candles.length > 0 && parentMs != null
+    ? new Date(new Date(candles[candles.length - 1].ts).getTime() + parentMs)
+    : null;
+  const htfSeries = htfTimeframesFor(htfSettings, instrument.timeframe).length > 0 && latestClose
+    ? await loadHtfCandles(supabase, providers, {
+      symbol: instrument.symbol,
+      timeframe: instrument.timeframe,
+      settings: htfSettings,
+      from: firstOpen,
+      to: latestClose,
+    })
+    : new Map<string, Candle[]>();
+  const htfRuntime = latestClose && htfSeries.size > 0
+    ? htfBiasAt(htfSeries, htfSettings, fractalRule, latestClose)
+    : [];
 
-    const candles: Candle[] = [...dbCandles]
-      .reverse()
-      .map((r) => ({
-        ts: new Date(r.ts as string).toISOString(),
-        open: Number(r.open),
-        high: Number(r.high),
-        low: Number(r.low),
-        close: Number(r.close),
-        volume: r.volume == null ? null : Number(r.volume),
-      }));
-
-    const engine = runContinuationStrategy({
-      symbol: env.signalSymbol,
-      timeframe: env.signalTimeframe,
-      candles,
+  const { signalFilter, htfBiasOf } = await prepareSignalFilter(env, supabase, instrument, {
+    from: firstOpen,
+    to: latestClose ?? firstOpen,
+    htf: { settings: htfSettings, series: htfSeries, fractalRule },
+  });
+
+  const engineInput = {
+    symbol: instrument.symbol,
+    timeframe: instrument.timeframe,
+    candles: formingCandle ? [...candles, formingCandle] : candles,
+    config: strategyConfig,
+    state: engineState,
+    trace: true,
+    signalFilter,
+  };
+  let engine = runContinuationStrategy(engineInput);
+
+  // Exit candles touching both SL and a target are re-run with lower-timeframe
+  // bars. A resolved exit can change what happens next, hence a few passes.
+  const intrabarCandles = new Map<string, Candle[]>();
+  const intrabarMs = timeframeMs(strategyConfig.intrabarTimeframe);
+  const intrabarAttempted = new Set<string>();
+  for (let pass = 0; pass < MAX_INTRABAR_PASSES && intrabarMs != null && parentMs != null; pass++) {
+    const missing = engine.missingIntrabar.filter((ts) => !intrabarAttempted.has(ts));
+    if (missing.length === 0) break;
+    missing.forEach((ts) => intrabarAttempted.add(ts));
+    const fetchedBars = await fetchIntrabarCandles(providers, {
+      symbol: instrument.symbol,
+      interval: strategyConfig.intrabarTimeframe,
+      intervalMs: intrabarMs,
+      parentIntervalMs: parentMs,
+      candleTimes: missing,
     });
+    if (fetchedBars.size === 0) break;
+    fetchedBars.forEach((bars, ts) => intrabarCandles.set(ts, bars));
+    engine = runContinuationStrategy({ ...engineInput, intrabarCandles });
+  }
 
-    const { error: runtimeErr } = await supabase
-      .from("strategy_runtime_state")
-      .upsert(runtimeRow(engine.runtime, engine.events), { onConflict: "strategy_code,symbol,timeframe" });
-    if (runtimeErr) throw runtimeErr;
+  const signalRows = engine.signals.map((s) => signalRow(s, s.filteredReason ?? null, htfBiasOf(s.signalKey)));
+  const passedRows = signalRows.filter((r) => r.filtered_reason == null);
+  const filteredRows = signalRows.filter((r) => r.filtered_reason != null).map((r) => ({ ...r, status: "filtered" }));
+  for (const rows of [passedRows, filteredRows]) {
+    if (rows.length === 0) continue;
+    const { error } = await supabase
+      .from("strategy_signals")
+      .upsert(rows, { onConflict: "signal_key" });
+    if (error) throw error;
+  }
 
-    if (engine.signals.length > 0) {
-      const { error } = await supabase
-        .from("strategy_signals")
-        .upsert(engine.signals.map(signalRow), { onConflict: "signal_key" });
-      if (error) throw error;
-    }
+  if (engine.trades.length > 0) {
+    const { error } = await supabase
+      .from("strategy_trades")
+      .upsert(engine.trades.map(tradeRow), { onConflict: "trade_key" });
+    if (error) throw error;
+  }
 
-    if (engine.trades.length > 0) {
-      const { error } = await supabase
-        .from("strategy_trades")
-        .upsert(engine.trades.map(tradeRow), { onConflict: "trade_key" });
-      if (error) throw error;
+  const readySignals = engine.signals.filter((s) => s.entryStatus === "known_next_open");
+  // Account guardrails are only evaluated when a new entry is about to be queued.
+  const guardrails = guardrailSettings(env);
+  let guardrailBreaches: GuardrailBreach[] = [];
+  if (tradingState === "active" && readySignals.length > 0 && guardrailsEnabled(guardrails)) {
+    const check = await checkGuardrailsForSignals(supabase, guardrails, readySignals.map((s) => s.signalKey));
+    guardrailBreaches = check.breaches;
+    if (guardrailBreaches.length > 0) {
+      await pauseForGuardrails(env, supabase, instruments, guardrailBreaches, check.candidates[0]);
+      tradingState = "paused";
     }
+  }
 
-    const readySignals = engine.signals.filter((s) => s.entryStatus === "known_next_open");
-    if (readySignals.length > 0) {
-      const { error } = await supabase
-        .from("broker_order_requests")
-        .upsert(
-          readySignals.map((s) => brokerRequestRow(s, env.ctraderOrderVolumeUnits)),
-          { onConflict: "request_key" },
-        );
-      if (error) throw error;
-    }
+  // Paused or killed: signals are still stored and alerted, but no entry is queued.
+  const requestRows = tradingState === "active"
+    ? readySignals.flatMap((s) => brokerRequestRows(s, env.ctraderOrderVolumeUnits, strategyConfig))
+    : [];
+  if (requestRows.length > 0 && env.executionMode === "approval") {
+    // ignoreDuplicates: a signal re-emitted by a later run must not undo a decision.
+    const { error } = await supabase
+      .from("broker_order_requests")
+      .upsert(
+        requestRows.map((r) => ({
+          ...r,
+          status: "awaiting_approval",
+          approval_expires_at: approvalExpiresAt(r.planned_entry_time, timeframeMs(instrument.timeframe)),
+        })),
+        { onConflict: "request_key", ignoreDuplicates: true },
+      );
+    if (error) throw error;
+  } else if (requestRows.length > 0) {
+    const { error } = await supabase
+      .from("broker_order_requests")
+      .upsert(requestRows, { onConflict: "request_key" });
+    if (error) throw error;
+  }
 
-    if (readySignals.length > 0 && env.executorBaseUrl) {
-      await triggerExecutorWebhook(env.executorBaseUrl, env.executorWebhookSecret);
-    }
+  // Killed: the executor closes the positions itself, stop moves would only race it.
+  const managementRows = tradingState === "killed" ? [] : engine.trades.flatMap(brokerManagementRows);
+  if (managementRows.length > 0) {
+    // ignoreDuplicates: an amend/close the executor already handled must keep its status.
+    const { error } = await supabase
+      .from("broker_order_requests")
+      .upsert(managementRows, { onConflict: "request_key", ignoreDuplicates: true });
+    if (error) throw error;
+  }
 
-    let eventNotifications = 0;
-    for (const event of engine.events) {
-      if (event.type === "STRUCTURE_FLIP") {
-        await sendTelegramMessage({
-          botToken: env.telegramBotToken,
-          chatId: env.telegramChatId,
-          text: formatStructureFlip(event),
-        });
-        eventNotifications++;
-      }
-      if (event.type === "CYCLE_DISCARDED") {
-        await sendTelegramMessage({
-          botToken: env.telegramBotToken,
-          chatId: env.telegramChatId,
-          text: formatCycleDiscarded(event),
-        });
-        eventNotifications++;
-      }
+  const queuedNow = env.executionMode === "auto" && requestRows.length > 0;
+  if ((queuedNow || managementRows.length > 0) && env.executorBaseUrl) {
+    await triggerExecutorWebhook(env.executorBaseUrl, env.executorWebhookSecret, "m15-signal-engine");
+  }
+
+  // Runs in every mode so requests left over from approval mode cannot wait forever.
+  // Alerts are queued before the requests are cancelled, so a failed run cannot drop them.
+  const now = new Date();
+  const expiredApprovals = await findExpiredApprovals(supabase, {
+    symbol: instrument.symbol,
+    timeframe: instrument.timeframe,
+    now,
+  });
+  await enqueueNotifications(
+    supabase,
+    expiredApprovals.map((signalKey) => ({
+      dedupeKey: `approval_expired:${signalKey}`,
+      chatId: env.telegramChatId,
+      text: formatApprovalExpired({ symbol: instrument.symbol, timeframe: instrument.timeframe, signalKey }),
+    })),
+  );
+  await expireApprovals(supabase, { symbol: instrument.symbol, timeframe: instrument.timeframe, now });
+  const { data: awaitingRows, error: awaitingErr } = await supabase
+    .from("broker_order_requests")
+    .select("signal_key,approval_expires_at,created_at")
+    .eq("symbol", instrument.symbol)
+    .eq("timeframe", instrument.timeframe)
+    .eq("status", "awaiting_approval");
+  if (awaitingErr) throw awaitingErr;
+  const awaitingApproval = new Map(
+    (awaitingRows ?? []).map((r) => [String(r.signal_key), r.approval_expires_at ? String(r.approval_expires_at) : null]),
+  );
+  const awaitingSince = new Map((awaitingRows ?? []).map((r) => [String(r.signal_key), String(r.created_at)]));
+
+  const eventRows = engine.events.map((e) => engineEventRow(instrument, e));
+  if (eventRows.length > 0) {
+    const { error } = await supabase
+      .from("engine_events")
+      .upsert(eventRows, { onConflict: "event_key", ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  // Persisted last: if any write above fails, the next run re-processes the same candles.
+  const { error: runtimeErr } = await supabase
+    .from("strategy_runtime_state")
+    .upsert(
+      runtimeRow(
+        { ...engine.runtime, htfBias: htfRuntime },
+        [...(previousPayload.events ?? []), ...engine.events],
+        engine.state,
+      ),
+      { onConflict: "strategy_code,symbol,timeframe" },
+    );
+  if (runtimeErr) throw runtimeErr;
+
+  if (resetApplied) {
+    const { error: resetErr } = await supabase
+      .from("strategy_controls")
+      .upsert({
+        strategy_code: instrument.strategyCode,
+        symbol: instrument.symbol,
+        timeframe: instrument.timeframe,
+        reset_requested: false,
+      }, { onConflict: "strategy_code,symbol,timeframe" });
+    if (resetErr) throw resetErr;
+  }
+
+  // Events are alerted from engine_events, so an event is announced once even
+  // when later runs replay its candle.
+  const { data: unsentEvents, error: unsentEventsErr } = await supabase
+    .from("engine_events")
+    .select("event_key,payload")
+    .eq("symbol", instrument.symbol)
+    .eq("timeframe", instrument.timeframe)
+    .in("event_type", NOTIFIED_EVENT_TYPES)
+    .is("telegram_notified_at", null)
+    .order("event_time", { ascending: true })
+    .limit(20);
+  if (unsentEventsErr) throw unsentEventsErr;
+
+  let eventNotifications = 0;
+  for (const row of unsentEvents ?? []) {
+    const event = row.payload as EngineEvent;
+    const context = { symbol: instrument.symbol, timeframe: instrument.timeframe };
+    const text = event.type === "STRUCTURE_FLIP"
+      ? formatStructureFlip({ ...event, ...context })
+      : event.type === "CYCLE_DISCARDED"
+      ? formatCycleDiscarded({ ...event, ...context })
+      : event.type === "STOP_MOVED"
+      ? formatStopMoved({ ...event, ...context })
+      : event.type === "SIGNAL_REJECTED"
+      ? formatSignalRejected({ ...event, ...context })
+      : null;
+    if (text) {
+      await enqueueNotification(supabase, { dedupeKey: `event:${row.event_key}`, chatId: env.telegramChatId, text });
+      eventNotifications++;
     }
+    const { error } = await supabase
+      .from("engine_events")
+      .update({ telegram_notified_at: new Date().toISOString() })
+      .eq("event_key", row.event_key);
+    if (error) throw error;
+  }
 
-    const { data: unsentSignals, error: unsentErr } = await supabase
-      .from("strategy_signals")
-      .select("*")
-      .eq("symbol", env.signalSymbol)
-      .eq("timeframe", env.signalTimeframe)
-      .is("telegram_notified_at", null)
-      .order("trigger_time", { ascending: true })
-      .limit(20);
-    if (unsentErr) throw unsentErr;
-
-    let signalNotified = 0;
-    for (const s of unsentSignals ?? []) {
-      await sendTelegramMessage({
-        botToken: env.telegramBotToken,
+  const { data: unsentSignals, error: unsentErr } = await supabase
+    .from("strategy_signals")
+    .select("*")
+    .eq("symbol", instrument.symbol)
+    .eq("timeframe", instrument.timeframe)
+    .is("telegram_notified_at", null)
+    .order("trigger_time", { ascending: true })
+    .limit(20);
+  if (unsentErr) throw unsentErr;
+
+  let signalNotified = 0;
+  for (const s of unsentSignals ?? []) {
+    if (s.filtered_reason != null) {
+      await enqueueNotification(supabase, {
+        dedupeKey: `signal:${s.signal_key}:filtered`,
         chatId: env.telegramChatId,
-        text: formatSignalDetected({
+        text: formatSignalFiltered({
           direction: String(s.direction) as "LONG" | "SHORT",
           symbol: String(s.symbol),
           timeframe: String(s.timeframe),
           triggerTime: String(s.trigger_time),
-          plannedEntryTime: s.planned_entry_time ? String(s.planned_entry_time) : null,
-          plannedEntryPrice: s.planned_entry_price == null ? null : Number(s.planned_entry_price),
           stopLoss: Number(s.stop_loss),
           takeProfit: Number(s.take_profit),
-          impulsePips: Number(s.impulse_pips),
-          pbLevel: Number(s.pb_level),
+          reason: String(s.filtered_reason),
           signalKey: String(s.signal_key),
         }),
       });
-      if (s.entry_status === "pending_next_open") {
-        await sendTelegramMessage({
-          botToken: env.telegramBotToken,
-          chatId: env.telegramChatId,
-          text: formatSignalArmed({
-            direction: String(s.direction) as "LONG" | "SHORT",
-            symbol: String(s.symbol),
-            timeframe: String(s.timeframe),
-            stopLoss: Number(s.stop_loss),
-            takeProfit: Number(s.take_profit),
-            signalKey: String(s.signal_key),
-          }),
-        });
-      }
       const { error } = await supabase
         .from("strategy_signals")
-        .update({ telegram_notified_at: new Date().toISOString(), status: "notified" })
+        .update({ telegram_notified_at: new Date().toISOString() })
         .eq("signal_key", s.signal_key);
       if (error) throw error;
       signalNotified++;
+      continue;
+    }
+    const signalConfig = resolveStrategyConfig((s.payload as Record<string, unknown> | null)?.config);
+    const awaiting = awaitingApproval.has(String(s.signal_key));
+    await enqueueNotification(supabase, {
+      dedupeKey: `signal:${s.signal_key}:detected`,
+      chatId: env.telegramChatId,
+      replyMarkup: awaiting ? approvalKeyboard(String(s.id)) : undefined,
+      text: formatSignalDetected({
+        direction: String(s.direction) as "LONG" | "SHORT",
+        symbol: String(s.symbol),
+        timeframe: String(s.timeframe),
+        triggerTime: String(s.trigger_time),
+        plannedEntryTime: s.planned_entry_time ? String(s.planned_entry_time) : null,
+        plannedEntryPrice: s.planned_entry_price == null ? null : Number(s.planned_entry_price),
+        stopLoss: Number(s.stop_loss),
+        takeProfit: Number(s.take_profit),
+        takeProfit2: s.take_profit_2 == null ? null : Number(s.take_profit_2),
+        impulsePips: Number(s.impulse_pips),
+        pbLevel: Number(s.pb_level),
+        signalKey: String(s.signal_key),
+        minImpulsePips: signalConfig.minImpulsePips,
+        slBufferPips: signalConfig.slBufferPips,
+        approvalExpiresAt: awaiting ? awaitingApproval.get(String(s.signal_key)) : null,
+        tradingState: s.entry_status === "known_next_open" ? tradingState : undefined,
+      }),
+    });
+    if (s.entry_status === "pending_next_open") {
+      await enqueueNotification(supabase, {
+        dedupeKey: `signal:${s.signal_key}:armed`,
+        chatId: env.telegramChatId,
+        text: formatSignalArmed({
+          direction: String(s.direction) as "LONG" | "SHORT",
+          symbol: String(s.symbol),
+          timeframe: String(s.timeframe),
+          stopLoss: Number(s.stop_loss),
+          takeProfit: Number(s.take_profit),
+          takeProfit2: s.take_profit_2 == null ? null : Number(s.take_profit_2),
+          signalKey: String(s.signal_key),
+        }),
+      });
     }
+    const { error } = await supabase
+      .from("strategy_signals")
+      .update({ telegram_notified_at: new Date().toISOString(), status: "notified" })
+      .eq("signal_key", s.signal_key);
+    if (error) throw error;
+    signalNotified++;
+  }
 
-    const { data: unclosedNotifiedTrades, error: closedErr } = await supabase
-      .from("strategy_trades")
+  // Signals alerted before their requests existed (entry still pending) get the
+  // approval buttons in a prompt. Derived from the stored rows on every run and
+  // deduped, so a run failing after the requests were written cannot lose it.
+  if (awaitingApproval.size > 0) {
+    const { data: promptSignals, error: promptErr } = await supabase
+      .from("strategy_signals")
       .select("*")
-      .eq("symbol", env.signalSymbol)
-      .eq("timeframe", env.signalTimeframe)
-      .eq("status", "CLOSED")
-      .is("telegram_close_notified_at", null)
-      .order("updated_at", { ascending: true })
-      .limit(20);
-    if (closedErr) throw closedErr;
-
-    let closeNotified = 0;
-    for (const t of unclosedNotifiedTrades ?? []) {
-      if (t.exit_reason === "TP") {
-        await sendTelegramMessage({
-          botToken: env.telegramBotToken,
-          chatId: env.telegramChatId,
-          text: formatTradeClosedTP({
-            signalKey: String(t.signal_key),
-            exitTime: t.exit_time ? String(t.exit_time) : null,
-            exitPrice: t.exit_price == null ? null : Number(t.exit_price),
-            rMultiple: t.r_multiple == null ? null : Number(t.r_multiple),
-          }),
-        });
-      } else {
-        await sendTelegramMessage({
-          botToken: env.telegramBotToken,
-          chatId: env.telegramChatId,
-          text: formatTradeClosedSL({
-            signalKey: String(t.signal_key),
-            exitTime: t.exit_time ? String(t.exit_time) : null,
-            exitPrice: t.exit_price == null ? null : Number(t.exit_price),
-            rMultiple: t.r_multiple == null ? null : Number(t.r_multiple),
-          }),
+      .in("signal_key", [...awaitingApproval.keys()])
+      .not("telegram_notified_at", "is", null);
+    if (promptErr) throw promptErr;
+    const alertedWithoutButtons = (promptSignals ?? []).filter((s) =>
+      new Date(String(s.telegram_notified_at)) < new Date(awaitingSince.get(String(s.signal_key))!)
+    );
+    for (const s of alertedWithoutButtons) {
+      await enqueueNotification(supabase, {
+        dedupeKey: `approval_request:${s.signal_key}`,
+        chatId: env.telegramChatId,
+        replyMarkup: approvalKeyboard(String(s.id)),
+        text: formatApprovalRequest({
+          direction: String(s.direction) as "LONG" | "SHORT",
+          symbol: String(s.symbol),
+          timeframe: String(s.timeframe),
+          plannedEntryPrice: s.planned_entry_price == null ? null : Number(s.planned_entry_price),
+          stopLoss: Number(s.stop_loss),
+          takeProfit: Number(s.take_profit),
+          takeProfit2: s.take_profit_2 == null ? null : Number(s.take_profit_2),
+          approvalExpiresAt: awaitingApproval.get(String(s.signal_key)) ?? null,
+          signalKey: String(s.signal_key),
+        }),
+      });
+    }
+  }
+
+  const { data: unclosedNotifiedTrades, error: closedErr } = await supabase
+    .from("strategy_trades")
+    .select("*")
+    .eq("symbol", instrument.symbol)
+    .eq("timeframe", instrument.timeframe)
+    .eq("status", "CLOSED")
+    .is("telegram_close_notified_at", null)
+    .order("updated_at", { ascending: true })
+    .limit(20);
+  if (closedErr) throw closedErr;
+
+  let closeNotified = 0;
+  for (const t of unclosedNotifiedTrades ?? []) {
+    if (t.exit_reason === "TP") {
+      await enqueueNotification(supabase, {
+        dedupeKey: `trade_closed:${t.trade_key}`,
+        chatId: env.telegramChatId,
+        text: formatTradeClosedTP({
+          signalKey: String(t.signal_key),
+          symbol: String(t.symbol),
+          timeframe: String(t.timeframe),
+          direction: String(t.direction),
+          exitTime: t.exit_time ? String(t.exit_time) : null,
+          exitPrice: t.exit_price == null ? null : Number(t.exit_price),
+          rMultiple: t.r_multiple == null ? null : Number(t.r_multiple),
+          netRMultiple: t.net_r_multiple == null ? null : Number(t.net_r_multiple),
+          partialExits: (t.partial_exits ?? []) as PartialExit[],
+          exitResolution: t.exit_resolution ?? null,
+        }),
+      });
+    } else if (t.exit_reason === "TIME") {
+      await enqueueNotification(supabase, {
+        dedupeKey: `trade_closed:${t.trade_key}`,
+        chatId: env.telegramChatId,
+        text: formatTradeClosedTime({
+          signalKey: String(t.signal_key),
+          symbol: String(t.symbol),
+          timeframe: String(t.timeframe),
+          direction: String(t.direction),
+          exitTime: t.exit_time ? String(t.exit_time) : null,
+          exitPrice: t.exit_price == null ? null : Number(t.exit_price),
+          rMultiple: t.r_multiple == null ? null : Number(t.r_multiple),
+          netRMultiple: t.net_r_multiple == null ? null : Number(t.net_r_multiple),
+          partialExits: (t.partial_exits ?? []) as PartialExit[],
+          holdingCandles: strategyConfig.maxHoldingCandles,
+        }),
+      });
+    } else {
+      await enqueueNotification(supabase, {
+        dedupeKey: `trade_closed:${t.trade_key}`,
+        chatId: env.telegramChatId,
+        text: formatTradeClosedSL({
+          signalKey: String(t.signal_key),
+          symbol: String(t.symbol),
+          timeframe: String(t.timeframe),
+          direction: String(t.direction),
+          exitTime: t.exit_time ? String(t.exit_time) : null,
+          exitPrice: t.exit_price == null ? null : Number(t.exit_price),
+          rMultiple: t.r_multiple == null ? null : Number(t.r_multiple),
+          netRMultiple: t.net_r_multiple == null ? null : Number(t.net_r_multiple),
+          partialExits: (t.partial_exits ?? []) as PartialExit[],
+          exitResolution: t.exit_resolution ?? null,
+        }),
+      });
+    }
+    const { error: closeNotifyErr } = await supabase
+      .from("strategy_trades")
+      .update({ telegram_close_notified_at: new Date().toISOString() })
+      .eq("trade_key", t.trade_key);
+    if (closeNotifyErr) throw closeNotifyErr;
+    closeNotified++;
+  }
+
+  return {
+    ...base,
+    ok: true,
+    candleProvider: provider,
+    providerFailures,
+    fetchedCandles: fetched.length,
+    formingCandle: formingCandle?.ts ?? null,
+    candleIssues: qualityIssues.length,
+    newCandleIssues: newIssueCount,
+    computedSignals: engine.signals.length,
+    computedTrades: engine.trades.length,
+    intrabarResolvedCandles: intrabarCandles.size,
+    intrabarMissingCandles: engine.missingIntrabar.length,
+    filteredSignals: engine.signals.filter((s) => s.filteredReason != null).length,
+    htfBias: htfRuntime.map((r) => `${r.timeframe} ${r.bias}`),
+    queuedBrokerRequests: tradingState === "active" ? readySignals.length : 0,
+    heldBrokerRequests: tradingState === "active" ? 0 : readySignals.length,
+    tradingState,
+    guardrailBreaches: guardrailBreaches.map((b) => b.rule),
+    executionMode: env.executionMode,
+    awaitingApproval: awaitingApproval.size,
+    expiredApprovals: expiredApprovals.length,
+    queuedManagementRequests: managementRows.length,
+    signalTelegramNotified: signalNotified,
+    eventTelegramNotified: eventNotifications,
+    tradeCloseTelegramNotified: closeNotified,
+    resetApplied,
+    strategyConfig,
+    resumed: resumedFromIndex > 0,
+    processedCandles: engine.state.nextIndex - resumedFromIndex,
+    latestCandle: engine.state.lastCandleTs,
+  };
+}
+
+serve(async (req) => {
+  try {
+    const env = getEnv();
+    const authHeader = req.headers.get("x-cron-secret");
+    if (authHeader !== env.cronSecret) {
+      return json(401, { error: "Unauthorized" });
+    }
+
+    const supabase = createSupabaseAdmin(env);
+    const instruments = await loadInstruments(supabase, env);
+    const providers = createCandleProviders(env);
+
+    // Guardrail pauses end at their reset time (day/week boundary or cooldown end).
+    // Announced before the pauses end, keyed by the resume time, so a failed run cannot drop it.
+    const now = new Date();
+    const due = await findExpiredPauses(supabase, now);
+    if (due.length > 0) {
+      const resumeAt = due.map((p) => p.resumeAt).sort().at(-1)!;
+      await announce(env, supabase, `guardrail_resumed:${resumeAt}`, formatGuardrailResumed(due));
+      await resumeExpiredPauses(supabase, now);
+    }
+
+    // Instruments run sequentially (Twelve Data is throttled per request) and one
+    // failing instrument does not stop the others.
+    const results = [];
+    for (const instrument of instruments) {
+      try {
+        results.push(await runInstrument(env, supabase, providers, instrument, instruments));
+      } catch (error) {
+        console.error(instrument.symbol, instrument.timeframe, error);
+        results.push({
+          symbol: instrument.symbol,
+          timeframe: instrument.timeframe,
+          ok: false,
+          error: error instanceof Error ? error.message : (error as { message?: string })?.message ?? String(error),
         });
       }
-      await supabase
-        .from("strategy_trades")
-        .update({ telegram_close_notified_at: new Date().toISOString() })
-        .eq("trade_key", t.trade_key);
-      closeNotified++;
     }
 
-    return json(200, {
-      ok: true,
-      symbol: env.signalSymbol,
-      timeframe: env.signalTimeframe,
-      fetchedCandles: fetched.length,
-      computedSignals: engine.signals.length,
-      computedTrades: engine.trades.length,
-      queuedBrokerRequests: readySignals.length,
-      signalTelegramNotified: signalNotified,
-      eventTelegramNotified: eventNotifications,
-      tradeCloseTelegramNotified: closeNotified,
-      resetApplied,
-      latestCandle: candles[candles.length - 1]?.ts ?? null,
-    });
+    // Alerts queued above go out now; whatever fails is retried by notification-dispatcher.
+    let outbox;
+    try {
+      outbox = await dispatchOutbox(supabase, env.telegramBotToken);
+    } catch (error) {
+      console.error("outbox", error);
+      outbox = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const ok = results.every((r) => r.ok);
+    return json(ok ? 200 : 500, { ok, instruments: results, outbox });
   } catch (error) {
     console.error(error);
     return json(500, {
@@ -0,0 +1,40 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { getEnv } from "../_shared/env.ts";
+import { createSupabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { dispatchOutbox } from "../_shared/outbox.ts";
+
+// Sends notification_outbox messages that m15-signal-engine could not deliver
+// in its own run (rate limits, Telegram outages). Scheduled every minute.
+
+// Leaves headroom below the edge function wall-clock limit.
+const DISPATCH_BUDGET_MS = 50_000;
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  try {
+    const env = getEnv();
+    const authHeader = req.headers.get("x-cron-secret");
+    if (authHeader !== env.cronSecret) {
+      return json(401, { error: "Unauthorized" });
+    }
+
+    const supabase = createSupabaseAdmin(env);
+    const result = await dispatchOutbox(supabase, env.telegramBotToken, {
+      limit: 200,
+      deadline: Date.now() + DISPATCH_BUDGET_MS,
+    });
+    return json(200, { ok: true, ...result });
+  } catch (error) {
+    console.error(error);
+    return json(500, {
+      ok: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
@@ -1,25 +1,72 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import {
+  commandName,
+  commandsForRole,
+  hasRole,
+  listAllowedChatIds,
+  parseRole,
+  recordCommandAudit,
+  requiredRole,
+  resolveTelegramIdentity,
+} from "../_shared/access.ts";
+import { decideSignalApproval } from "../_shared/approvals.ts";
+import { runBacktest } from "../_shared/backtest.ts";
+import { loadStoredCandles, toCandle } from "../_shared/candleStore.ts";
+import { type ChartLevel, renderStructureChart } from "../_shared/chart.ts";
 import { getEnv } from "../_shared/env.ts";
+import { triggerExecutorWebhook } from "../_shared/executor.ts";
+import { countExpectedFxBars } from "../_shared/fxSession.ts";
+import { instrumentLabel, loadInstruments, resolveInstrument, timeframeMs } from "../_shared/instruments.ts";
+import { runMonteCarlo } from "../_shared/monteCarlo.ts";
+import { dispatchOutbox, enqueueNotifications, loadOutboxHealth } from "../_shared/outbox.ts";
 import { createSupabaseAdmin } from "../_shared/supabaseAdmin.ts";
-import { sendTelegramMessage } from "../_shared/telegram.ts";
+import { sendTelegramMessage, sendTelegramPhoto } from "../_shared/telegram.ts";
 import {
   backToMenuKeyboard,
   formatAnalysis,
+  formatApprovalDecision,
+  formatBacktestSummary,
+  formatChartCaption,
   formatDailyReport,
   formatDataWarning,
   formatDebugSnapshot,
+  formatEventHistory,
   formatMenu,
+  formatPermissionDenied,
+  formatRoleChange,
+  formatTelegramUsers,
   formatResetCycleAck,
+  formatRiskOfRuin,
+  formatSignalExplanation,
   formatStatus,
+  formatTradingStateChange,
   formatUnauthorized,
+  formatUnknownInstrument,
   formatWeeklyReport,
+  formatWhoAmI,
   menuKeyboard,
 } from "../_shared/telegramTemplates.ts";
-import type { EngineRuntimeSnapshot } from "../_shared/types.ts";
-
-const STRATEGY_CODE = "eurusd_m15_continuation_v1";
+import { findFractals, fractalRuleOf } from "../_shared/fractals.ts";
+import { resolveStrategyConfig } from "../_shared/strategy.ts";
+import { setTradingState, tradingControlOf, type TradingState } from "../_shared/tradingControls.ts";
+import type { EngineEvent, EngineRuntimeSnapshot, HtfBiasReading, TraceStep } from "../_shared/types.ts";
+
+const BACKTEST_DEFAULT_DAYS = 30;
+const BACKTEST_MAX_DAYS = 90;
+// Bounds the work of one webhook call; short timeframes get fewer days.
+const BACKTEST_MAX_CANDLES = 10_000;
+const CHART_DEFAULT_CANDLES = 80;
+const CHART_MIN_CANDLES = 20;
+const CHART_MAX_CANDLES = 200;
+const EVENTS_DEFAULT_COUNT = 10;
+const EVENTS_MAX_COUNT = 50;
+const RISK_MIN_TRADES = 10;
+// Most recent closed trades resampled by /risk_of_ruin (one PostgREST page).
+const RISK_MAX_TRADES = 1000;
+const RISK_ITERATIONS = 2000;
 
 type TelegramUpdate = {
+  update_id?: number; // same on redelivery
   message?: {
     text?: string;
     chat?: { id?: number | string };
@@ -54,6 +101,13 @@ function extractCommand(update: TelegramUpdate): string | null {
   return null;
 }
 
+/** Arguments after the command, e.g. ["GBPUSD", "H1"] for "/status GBPUSD H1". */
+function extractArgs(update: TelegramUpdate): string[] {
+  const msg = update.message?.text?.trim();
+  if (!msg?.startsWith("/")) return [];
+  return msg.split(/\s+/).slice(1);
+}
+
 async function answerCallback(botToken: string, callbackQueryId: string | undefined) {
   if (!callbackQueryId) return;
   const url = `https://api.telegram.org/bot${botToken}/answerCallbackQuery`;
@@ -64,6 +118,24 @@ async function answerCallback(botToken: string, callbackQueryId: string | undefi
   });
 }
 
+// Trades closed before the cost model have no net R; their gross R is the best estimate.
+function netRMultipleOf(t: { r_multiple: unknown; net_r_multiple: unknown }): number {
+  const r = t.net_r_multiple ?? t.r_multiple;
+  return r == null ? 0 : Number(r);
+}
+
+function signalExplanationOf(row: Record<string, unknown>) {
+  return formatSignalExplanation({
+    signalKey: String(row.signal_key),
+    symbol: String(row.symbol),
+    timeframe: String(row.timeframe),
+    direction: String(row.direction),
+    status: String(row.status),
+    filteredReason: row.filtered_reason ? String(row.filtered_reason) : null,
+    trace: (row.decision_trace ?? null) as TraceStep[] | null,
+  });
+}
+
 function toRuntimeSnapshot(row: Record<string, unknown>): EngineRuntimeSnapshot {
   return {
     strategyCode: String(row.strategy_code),
@@ -87,6 +159,8 @@ function toRuntimeSnapshot(row: Record<string, unknown>): EngineRuntimeSnapshot
     sLow: row.s_low == null ? null : Number(row.s_low),
     sHigh: row.s_high == null ? null : Number(row.s_high),
     activeTradeKey: row.active_trade_key == null ? null : String(row.active_trade_key),
+    htfBias: Array.isArray(row.htf_bias) ? row.htf_bias as HtfBiasReading[] : [],
+    config: resolveStrategyConfig((row.payload as Record<string, unknown> | null)?.config),
   };
 }
 
@@ -103,7 +177,9 @@ serve(async (req) => {
     const chatId = extractChatId(update);
     if (!chatId) return json(200, { ok: true, ignored: "no chat id" });
 
-    if (!env.telegramAllowedChatIds.includes(chatId)) {
+    const supabase = createSupabaseAdmin(env);
+    const identity = await resolveTelegramIdentity(supabase, env, chatId);
+    if (!identity) {
       await sendTelegramMessage({
         botToken: env.telegramBotToken,
         chatId,
@@ -113,7 +189,7 @@ serve(async (req) => {
     }
 
     const command = extractCommand(update) ?? "/menu";
-    const supabase = createSupabaseAdmin(env);
+    const rawArgs = extractArgs(update);
 
     const send = async (text: string, withMenu = false) => {
       await sendTelegramMessage({
@@ -124,13 +200,175 @@ serve(async (req) => {
       });
     };
 
+    // Every command above viewer level is audited, including denied attempts.
+    const needed = requiredRole(command);
+    const allowed = hasRole(identity.role, needed);
+    if (needed !== "viewer") {
+      // Approval callbacks carry the signal id in the data ("approve:<id>").
+      const auditArgs = command.includes(":") ? [command.slice(command.indexOf(":") + 1)] : rawArgs;
+      await recordCommandAudit(supabase, { chatId, role: identity.role, command, args: auditArgs, allowed });
+    }
+    if (!allowed) {
+      await send(formatPermissionDenied(commandName(command), identity.role, needed));
+      await answerCallback(env.telegramBotToken, update.callback_query?.id);
+      return json(200, { ok: true, denied: commandName(command) });
+    }
+
+    switch (commandName(command)) {
+      case "whoami":
+        await send(formatWhoAmI({ ...identity, commands: commandsForRole(identity.role) }));
+        return json(200, { ok: true });
+      case "users": {
+        const { data, error } = await supabase
+          .from("telegram_users")
+          .select("chat_id,role,display_name,granted_by_chat_id,updated_at")
+          .order("role", { ascending: true })
+          .order("chat_id", { ascending: true });
+        if (error) throw error;
+        await send(formatTelegramUsers((data ?? []).map((u) => ({
+          chatId: String(u.chat_id),
+          role: String(u.role),
+          displayName: u.display_name ? String(u.display_name) : null,
+          grantedBy: u.granted_by_chat_id ? String(u.granted_by_chat_id) : null,
+        })), env.telegramAllowedChatIds));
+        return json(200, { ok: true });
+      }
+      case "grant": {
+        const [target, rawRole, ...nameParts] = rawArgs;
+        const role = parseRole(rawRole);
+        if (!target || !role) {
+          await send(formatDataWarning("Usage: /grant <chat_id> <viewer|operator|admin> [name]"));
+          return json(200, { ok: true });
+        }
+        if (target === chatId) {
+          await send(formatDataWarning("You cannot change your own role; ask another admin."));
+          return json(200, { ok: true });
+        }
+        const { error } = await supabase.from("telegram_users").upsert({
+          chat_id: target,
+          role,
+          ...(nameParts.length > 0 ? { display_name: nameParts.join(" ") } : {}),
+          granted_by_chat_id: chatId,
+        }, { onConflict: "chat_id" });
+        if (error) throw error;
+        await send(formatRoleChange({ chatId: target, role, by: chatId, envAdmin: false }));
+        return json(200, { ok: true });
+      }
+      case "explain": {
+        // `/explain <signal_key>`; without a key the instrument's latest signal is explained below.
+        const key = rawArgs.find((a) => a.includes(":"));
+        if (!key) break;
+        const { data, error } = await supabase
+          .from("strategy_signals")
+          .select("*")
+          .eq("signal_key", key)
+          .maybeSingle();
+        if (error) throw error;
+        await send(data ? signalExplanationOf(data) : formatDataWarning(`No signal with id \`${key}\`.`));
+        return json(200, { ok: true });
+      }
+      case "revoke": {
+        const target = rawArgs[0];
+        if (!target) {
+          await send(formatDataWarning("Usage: /revoke <chat_id>"));
+          return json(200, { ok: true });
+        }
+        if (target === chatId) {
+          await send(formatDataWarning("You cannot revoke your own access; ask another admin."));
+          return json(200, { ok: true });
+        }
+        const { error } = await supabase.from("telegram_users").delete().eq("chat_id", target);
+        if (error) throw error;
+        await send(formatRoleChange({
+          chatId: target,
+          role: null,
+          by: chatId,
+          envAdmin: env.telegramAllowedChatIds.includes(target),
+        }));
+        return json(200, { ok: true });
+      }
+    }
+
+    // `/backtest 30 GBPUSD`, `/chart 120 GBPUSD`, `/events 20`: the count is not part of the instrument.
+    const takesCount = ["/backtest", "backtest", "/chart", "chart", "/events", "events"].includes(command);
+    const countArg = takesCount ? rawArgs.find((a) => /^\d+$/.test(a)) : undefined;
+    // `/risk_of_ruin 0.5 GBPUSD`: risk percent per trade.
+    const takesPercent = ["/risk_of_ruin", "risk_of_ruin"].includes(command);
+    const percentArg = takesPercent ? rawArgs.find((a) => /^\d+(\.\d+)?%?$/.test(a)) : undefined;
+    const args = rawArgs.filter((a) => a !== countArg && a !== percentArg);
+    const instruments = await loadInstruments(supabase, env);
+    const instrument = resolveInstrument(instruments, args);
+
+    // Execute/Skip buttons of a signal alert: "approve:<signal id>" / "skip:<signal id>".
+    const approval = /^(approve|skip):([0-9a-f-]+)$/.exec(command);
+    if (approval) {
+      const outcome = await decideSignalApproval(supabase, {
+        signalId: approval[2],
+        action: approval[1] === "approve" ? "execute" : "skip",
+        chatId,
+      });
+      if (outcome.result === "decided" && outcome.action === "execute" && env.executorBaseUrl) {
+        await triggerExecutorWebhook(env.executorBaseUrl, env.executorWebhookSecret, "telegram-bot");
+      }
+      await send(formatApprovalDecision({
+        outcome: outcome.result === "decided" ? outcome.action : outcome.result,
+        signalKey: outcome.result === "not_found" ? null : outcome.signalKey,
+        chatId,
+        previousAction: outcome.result === "already_decided" ? outcome.action : null,
+      }));
+      await answerCallback(env.telegramBotToken, update.callback_query?.id);
+      return json(200, { ok: true, approval: outcome });
+    }
+
+    // Without a pair, /pause, /resume and /kill act on every instrument.
+    const tradingCommand: Record<string, TradingState> = { pause: "paused", resume: "active", kill: "killed" };
+    const targetState = tradingCommand[commandName(command)];
+    const targets = args.length === 0 ? instruments : instrument ? [instrument] : [];
+    if (targetState && targets.length > 0) {
+      const previous = await setTradingState(supabase, targets, { state: targetState, changedBy: chatId });
+      if (targetState === "killed" && env.executorBaseUrl) {
+        await triggerExecutorWebhook(env.executorBaseUrl, env.executorWebhookSecret, "telegram-bot");
+      }
+      // The change is committed: a failure from here on must not fail the webhook, or
+      // Telegram redelivers the update and the change is applied (and announced) again.
+      try {
+        const text = formatTradingStateChange({
+          state: targetState,
+          instruments: targets.map((t, i) => ({ symbol: t.symbol, timeframe: t.timeframe, previous: previous[i] })),
+          chatId,
+        });
+        const chatIds = await listAllowedChatIds(supabase, env);
+        await enqueueNotifications(
+          supabase,
+          chatIds.map((announceChatId) => ({
+            dedupeKey: `trading_state:${targetState}:${update.update_id ?? Date.now()}:${announceChatId}`,
+            chatId: announceChatId,
+            text,
+          })),
+        );
+        // Whatever is not sent now is retried by notification-dispatcher.
+        await dispatchOutbox(supabase, env.telegramBotToken);
+        await answerCallback(env.telegramBotToken, update.callback_query?.id);
+      } catch (error) {
+        console.error("trading state announcement", error);
+      }
+      return json(200, { ok: true, tradingState: targetState, instruments: targets.length });
+    }
+
+    if (!instrument) {
+      await send(formatUnknownInstrument(args.join(" "), instruments));
+      await answerCallback(env.telegramBotToken, update.callback_query?.id);
+      return json(200, { ok: true, unknownInstrument: args.join(" ") });
+    }
+    const { strategyCode, symbol, timeframe } = instrument;
+
     const sendStatus = async () => {
       const runtimeRes = await supabase
         .from("strategy_runtime_state")
         .select("*")
-        .eq("strategy_code", STRATEGY_CODE)
-        .eq("symbol", env.signalSymbol)
-        .eq("timeframe", env.signalTimeframe)
+        .eq("strategy_code", strategyCode)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
         .maybeSingle();
       if (runtimeRes.error) throw runtimeRes.error;
       if (!runtimeRes.data) {
@@ -141,8 +379,8 @@ serve(async (req) => {
       const candleRes = await supabase
         .from("market_candles")
         .select("ts,open,high,low,close")
-        .eq("symbol", env.signalSymbol)
-        .eq("timeframe", env.signalTimeframe)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
         .order("ts", { ascending: false })
         .limit(1);
       if (candleRes.error) throw candleRes.error;
@@ -150,8 +388,8 @@ serve(async (req) => {
       const signalRes = await supabase
         .from("strategy_signals")
         .select("signal_key")
-        .eq("symbol", env.signalSymbol)
-        .eq("timeframe", env.signalTimeframe)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
         .order("trigger_time", { ascending: false })
         .limit(1);
       if (signalRes.error) throw signalRes.error;
@@ -159,12 +397,21 @@ serve(async (req) => {
       const openTradeRes = await supabase
         .from("strategy_trades")
         .select("trade_key")
-        .eq("symbol", env.signalSymbol)
-        .eq("timeframe", env.signalTimeframe)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
         .eq("status", "OPEN")
         .limit(1);
       if (openTradeRes.error) throw openTradeRes.error;
 
+      const controlRes = await supabase
+        .from("strategy_controls")
+        .select("trading_state,trading_state_changed_at,trading_state_changed_by")
+        .eq("strategy_code", strategyCode)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
+        .maybeSingle();
+      if (controlRes.error) throw controlRes.error;
+
       const c = candleRes.data?.[0];
       await send(formatStatus({
         runtime,
@@ -177,6 +424,7 @@ serve(async (req) => {
         },
         lastSignalKey: signalRes.data?.[0]?.signal_key ? String(signalRes.data[0].signal_key) : null,
         hasOpenTrade: (openTradeRes.data?.length ?? 0) > 0,
+        trading: tradingControlOf(controlRes.data),
       }));
     };
 
@@ -184,9 +432,9 @@ serve(async (req) => {
       const { data, error } = await supabase
         .from("strategy_runtime_state")
         .select("*")
-        .eq("strategy_code", STRATEGY_CODE)
-        .eq("symbol", env.signalSymbol)
-        .eq("timeframe", env.signalTimeframe)
+        .eq("strategy_code", strategyCode)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
         .maybeSingle();
       if (error) throw error;
       if (!data) {
@@ -200,8 +448,8 @@ serve(async (req) => {
       const { data, error } = await supabase
         .from("strategy_signals")
         .select("*")
-        .eq("symbol", env.signalSymbol)
-        .eq("timeframe", env.signalTimeframe)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
         .order("trigger_time", { ascending: false })
         .limit(1);
       if (error) throw error;
@@ -216,17 +464,31 @@ serve(async (req) => {
         `Trigger: \`${s.trigger_time}\``,
         `Entry: \`${s.planned_entry_price ?? "-"}\` @ \`${s.planned_entry_time ?? "-"}\``,
         `SL/TP: \`${s.stop_loss}\` / \`${s.take_profit}\``,
+        ...(s.take_profit_2 != null ? [`TP2: \`${s.take_profit_2}\``] : []),
         `Status: \`${s.status}\``,
+        ...(s.filtered_reason ? [`Filtered: ${s.filtered_reason}`] : []),
         `ID: \`${s.signal_key}\``,
       ].join("\n"));
     };
 
+    const sendExplain = async () => {
+      const { data, error } = await supabase
+        .from("strategy_signals")
+        .select("*")
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
+        .order("trigger_time", { ascending: false })
+        .limit(1);
+      if (error) throw error;
+      await send(data && data.length > 0 ? signalExplanationOf(data[0]) : formatDataWarning("No signal found."));
+    };
+
     const sendTrade = async () => {
       const { data, error } = await supabase
         .from("broker_order_requests")
         .select("*")
-        .eq("symbol", env.signalSymbol)
-        .eq("timeframe", env.signalTimeframe)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
         .order("updated_at", { ascending: false })
         .limit(1);
       if (error) throw error;
@@ -237,11 +499,12 @@ serve(async (req) => {
       const t = data[0];
       await send([
         `🚀 *NOLA-DELTA • OPEN TRADE*`,
-        `EURUSD • M15 • ${t.updated_at}`,
+        `${instrumentLabel(String(t.symbol), String(t.timeframe))} • ${t.updated_at}`,
         ``,
         `${t.direction === "LONG" ? "🟢" : "🔴"} ${t.direction} @ ${t.planned_entry_price ?? "-"}`,
         `🛑 SL: ${t.stop_loss}`,
         `🎯 TP: ${t.take_profit}`,
+        ...(t.leg && t.leg !== "single" ? [`✂️ Leg: ${String(t.leg).toUpperCase()} (${Math.round(Number(t.volume_fraction) * 100)}%)`] : []),
         ``,
         `📍 Status: ${t.status}`,
         `📌 Order/Position: ${t.broker_order_id ?? "-"} / ${t.broker_position_id ?? "-"}`,
@@ -253,19 +516,22 @@ serve(async (req) => {
       const now = new Date();
       const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
 
-      const tradesRes = await supabase
+      let tradesQuery = supabase
         .from("strategy_trades")
-        .select("exit_reason,r_multiple,status,updated_at")
-        .eq("symbol", env.signalSymbol)
-        .eq("timeframe", env.signalTimeframe)
+        .select("exit_reason,r_multiple,net_r_multiple,status,updated_at")
         .gte("updated_at", dayStart);
+      // Without an instrument argument the report covers every instrument.
+      if (args.length > 0) tradesQuery = tradesQuery.eq("symbol", symbol).eq("timeframe", timeframe);
+      const tradesRes = await tradesQuery;
       if (tradesRes.error) throw tradesRes.error;
 
       const closed = (tradesRes.data ?? []).filter((t) => t.status === "CLOSED");
-      const wins = closed.filter((t) => t.exit_reason === "TP").length;
-      const losses = closed.filter((t) => t.exit_reason === "SL").length;
+      // By result, not exit reason: a trailed or breakeven stop can close a winner.
+      const wins = closed.filter((t) => Number(t.r_multiple ?? 0) > 0).length;
+      const losses = closed.length - wins;
       const trades = closed.length;
       const netR = closed.reduce((acc, t) => acc + (t.r_multiple == null ? 0 : Number(t.r_multiple)), 0);
+      const netRAfterCosts = closed.reduce((acc, t) => acc + netRMultipleOf(t), 0);
       const winRatePct = trades > 0 ? (wins / trades) * 100 : 0;
 
       await send(formatDailyReport({
@@ -275,6 +541,7 @@ serve(async (req) => {
         losses,
         winRatePct,
         netR,
+        netRAfterCosts,
       }));
     };
 
@@ -285,19 +552,20 @@ serve(async (req) => {
       const monday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - diffToMonday));
       const weekStart = monday.toISOString();
 
-      const tradesRes = await supabase
+      let tradesQuery = supabase
         .from("strategy_trades")
-        .select("exit_reason,r_multiple,status,updated_at")
-        .eq("symbol", env.signalSymbol)
-        .eq("timeframe", env.signalTimeframe)
+        .select("exit_reason,r_multiple,net_r_multiple,status,updated_at")
         .gte("updated_at", weekStart);
+      if (args.length > 0) tradesQuery = tradesQuery.eq("symbol", symbol).eq("timeframe", timeframe);
+      const tradesRes = await tradesQuery;
       if (tradesRes.error) throw tradesRes.error;
 
       const closed = (tradesRes.data ?? []).filter((t) => t.status === "CLOSED");
-      const wins = closed.filter((t) => t.exit_reason === "TP").length;
-      const losses = closed.filter((t) => t.exit_reason === "SL").length;
+      const wins = closed.filter((t) => Number(t.r_multiple ?? 0) > 0).length;
+      const losses = closed.length - wins;
       const trades = closed.length;
       const netR = closed.reduce((acc, t) => acc + (t.r_multiple == null ? 0 : Number(t.r_multiple)), 0);
+      const netRAfterCosts = closed.reduce((acc, t) => acc + netRMultipleOf(t), 0);
       const winRatePct = trades > 0 ? (wins / trades) * 100 : 0;
 
       await send(formatWeeklyReport({
@@ -307,6 +575,7 @@ serve(async (req) => {
         losses,
         winRatePct,
         netR,
+        netRAfterCosts,
       }));
     };
 
@@ -314,14 +583,178 @@ serve(async (req) => {
       const runtime = await supabase
         .from("strategy_runtime_state")
         .select("*")
-        .eq("strategy_code", STRATEGY_CODE)
-        .eq("symbol", env.signalSymbol)
-        .eq("timeframe", env.signalTimeframe)
+        .eq("strategy_code", strategyCode)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
         .maybeSingle();
       if (runtime.error) throw runtime.error;
 
       await send(formatDebugSnapshot({
         runtime: runtime.data ? toRuntimeSnapshot(runtime.data as Record<string, unknown>) : null,
+        outbox: await loadOutboxHealth(supabase),
+      }));
+    };
+
+    const sendBacktest = async () => {
+      const requestedDays = countArg ? Math.max(1, Number(countArg)) : BACKTEST_DEFAULT_DAYS;
+      const intervalMs = timeframeMs(timeframe) ?? 15 * 60_000;
+      const maxDays = Math.max(1, Math.min(BACKTEST_MAX_DAYS, Math.floor((BACKTEST_MAX_CANDLES * intervalMs) / 86_400_000)));
+      const days = Math.min(requestedDays, maxDays);
+      // Up to the open of the forming bar, so the window only holds closed candles.
+      const toMs = Math.floor(Date.now() / intervalMs) * intervalMs;
+      const fromMs = toMs - days * 86_400_000;
+      const from = new Date(fromMs).toISOString();
+      const to = new Date(toMs).toISOString();
+
+      const { data: controlRow, error } = await supabase
+        .from("strategy_controls")
+        .select("config")
+        .eq("strategy_code", strategyCode)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
+        .maybeSingle();
+      if (error) throw error;
+
+      const candles = await loadStoredCandles(supabase, { symbol, timeframe, from, to, maxCandles: BACKTEST_MAX_CANDLES });
+      if (candles.length === 0) {
+        await send(formatDataWarning(`No stored candles for ${instrumentLabel(symbol, timeframe)} in the last ${days} day(s).`));
+        return;
+      }
+
+      const report = runBacktest({ symbol, timeframe, candles, config: resolveStrategyConfig(controlRow?.config) });
+      await send(formatBacktestSummary({
+        symbol,
+        timeframe,
+        days,
+        requestedDays,
+        from,
+        to,
+        candles: candles.length,
+        expectedCandles: intervalMs < 86_400_000 ? countExpectedFxBars(fromMs, toMs, intervalMs) : null,
+        firstCandle: report.from,
+        lastCandle: report.to,
+        summary: report.summary,
+        netRAfterCosts: report.summaryAfterCosts.netR,
+        openTrades: report.openTrades,
+      }));
+    };
+
+    const sendChart = async () => {
+      const count = Math.min(CHART_MAX_CANDLES, Math.max(CHART_MIN_CANDLES, Number(countArg ?? CHART_DEFAULT_CANDLES)));
+      const runtimeRes = await supabase
+        .from("strategy_runtime_state")
+        .select("*")
+        .eq("strategy_code", strategyCode)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
+        .maybeSingle();
+      if (runtimeRes.error) throw runtimeRes.error;
+      const runtime = runtimeRes.data ? toRuntimeSnapshot(runtimeRes.data as Record<string, unknown>) : null;
+
+      const candleRes = await supabase
+        .from("market_candles")
+        .select("ts,open,high,low,close,volume")
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
+        .order("ts", { ascending: false })
+        .limit(count);
+      if (candleRes.error) throw candleRes.error;
+      const candles = (candleRes.data ?? []).map((r) => toCandle(r as Record<string, unknown>)).reverse();
+      if (candles.length === 0) {
+        await send(formatDataWarning(`No stored candles for ${instrumentLabel(symbol, timeframe)}.`));
+        return;
+      }
+
+      const tradeRes = await supabase
+        .from("strategy_trades")
+        .select("entry_price,stop_loss,take_profit,take_profit_2")
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
+        .eq("status", "OPEN")
+        .order("entry_time", { ascending: false })
+        .limit(1);
+      if (tradeRes.error) throw tradeRes.error;
+      const trade = tradeRes.data?.[0];
+
+      const config = runtime?.config ?? resolveStrategyConfig(null);
+      const levels: ChartLevel[] = [
+        { kind: "anchor" as const, price: runtime?.anchorLine },
+        { kind: "causalExtreme" as const, price: runtime?.causalExtreme },
+        { kind: "pbLevel" as const, price: runtime?.midpointLevel },
+        { kind: "entry" as const, price: trade?.entry_price },
+        { kind: "stopLoss" as const, price: trade?.stop_loss },
+        { kind: "takeProfit" as const, price: trade?.take_profit },
+        { kind: "takeProfit" as const, price: trade?.take_profit_2 },
+      ].filter((l) => l.price != null).map((l) => ({ kind: l.kind, price: Number(l.price) }));
+
+      const photo = await renderStructureChart({
+        candles,
+        fractals: findFractals(candles, fractalRuleOf(config)),
+        levels,
+        priceDecimals: Math.max(0, Math.round(-Math.log10(config.pipSize)) + 1),
+      });
+      await sendTelegramPhoto({
+        botToken: env.telegramBotToken,
+        chatId,
+        photo,
+        filename: `${instrumentLabel(symbol, timeframe).replace(/\W+/g, "_")}.png`,
+        caption: formatChartCaption({
+          symbol,
+          timeframe,
+          candles: candles.length,
+          from: candles[0].ts,
+          to: candles[candles.length - 1].ts,
+          state: runtime?.state ?? null,
+          bias: runtime?.bias ?? null,
+          levels,
+        }),
+        replyMarkup: backToMenuKeyboard(),
+      });
+    };
+
+    const sendEvents = async () => {
+      const count = Math.min(EVENTS_MAX_COUNT, Math.max(1, countArg ? Number(countArg) : EVENTS_DEFAULT_COUNT));
+      const { data, error } = await supabase
+        .from("engine_events")
+        .select("payload")
+        .eq("strategy_code", strategyCode)
+        .eq("symbol", symbol)
+        .eq("timeframe", timeframe)
+        .order("event_time", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(count);
+      if (error) throw error;
+      await send(formatEventHistory({
+        symbol,
+        timeframe,
+        events: (data ?? []).map((r) => r.payload as EngineEvent),
+      }));
+    };
+
+    const sendRiskOfRuin = async () => {
+      const parsedRisk = percentArg ? Number(percentArg.replace("%", "")) : NaN;
+      const riskPercent = parsedRisk > 0 && parsedRisk <= 100 ? parsedRisk : env.guardrailRiskPercentPerTrade;
+      let tradesQuery = supabase
+        .from("strategy_trades")
+        .select("r_multiple,net_r_multiple,exit_time")
+        .eq("status", "CLOSED")
+        .not("exit_time", "is", null)
+        .order("exit_time", { ascending: false })
+        .limit(RISK_MAX_TRADES);
+      // Like /daily and /weekly: without an instrument argument every instrument counts.
+      if (args.length > 0) tradesQuery = tradesQuery.eq("symbol", symbol).eq("timeframe", timeframe);
+      const { data, error } = await tradesQuery;
+      if (error) throw error;
+
+      const rs = (data ?? []).reverse().map(netRMultipleOf);
+      const enough = rs.length >= RISK_MIN_TRADES;
+      const settings = { iterations: RISK_ITERATIONS, riskPercent };
+      await send(formatRiskOfRuin({
+        scope: args.length > 0 ? instrumentLabel(symbol, timeframe) : "All instruments",
+        trades: rs.length,
+        minTrades: RISK_MIN_TRADES,
+        bootstrap: enough ? runMonteCarlo(rs, { ...settings, method: "bootstrap" }) : null,
+        shuffle: enough ? runMonteCarlo(rs, { ...settings, method: "shuffle" }) : null,
       }));
     };
 
@@ -329,13 +762,13 @@ serve(async (req) => {
       const { error } = await supabase
         .from("strategy_controls")
         .upsert({
-          strategy_code: STRATEGY_CODE,
-          symbol: env.signalSymbol,
-          timeframe: env.signalTimeframe,
+          strategy_code: strategyCode,
+          symbol,
+          timeframe,
           reset_requested: true,
         }, { onConflict: "strategy_code,symbol,timeframe" });
       if (error) throw error;
-      await send(formatResetCycleAck());
+      await send(formatResetCycleAck(symbol, timeframe));
     };
 
     switch (command) {
@@ -344,7 +777,7 @@ serve(async (req) => {
         await sendTelegramMessage({
           botToken: env.telegramBotToken,
           chatId,
-          text: formatMenu(env.signalSymbol, env.signalTimeframe),
+          text: formatMenu(instruments),
           replyMarkup: menuKeyboard(),
         });
         break;
@@ -372,6 +805,26 @@ serve(async (req) => {
       case "weekly":
         await sendWeekly();
         break;
+      case "/backtest":
+      case "backtest":
+        await sendBacktest();
+        break;
+      case "/chart":
+      case "chart":
+        await sendChart();
+        break;
+      case "/events":
+      case "events":
+        await sendEvents();
+        break;
+      case "/explain":
+      case "explain":
+        await sendExplain();
+        break;
+      case "/risk_of_ruin":
+      case "risk_of_ruin":
+        await sendRiskOfRuin();
+        break;
       case "/debug":
       case "debug":
         await sendDebug();
@@ -0,0 +1,10 @@
+alter table public.strategy_controls
+  add column if not exists config jsonb not null default '{}'::jsonb;
+
+comment on column public.strategy_controls.config is
+'Strategy parameter overrides (pipSize, slBufferPips, minImpulsePips, fractalWidth, tpMode). Missing keys use engine defaults.';
+
+-- Example: run the continuation logic on USD/JPY with a 15 pip minimum impulse
+-- insert into public.strategy_controls (strategy_code, symbol, timeframe, config)
+-- values ('eurusd_m15_continuation_v1', 'USD/JPY', '15min', '{"pipSize": 0.01, "minImpulsePips": 15}')
+-- on conflict (strategy_code, symbol, timeframe) do update set config = excluded.config;
@@ -0,0 +1,34 @@
+create table if not exists public.strategy_instruments (
+  id bigint generated always as identity primary key,
+  strategy_code text not null default 'eurusd_m15_continuation_v1',
+  symbol text not null,
+  timeframe text not null,
+  enabled boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (strategy_code, symbol, timeframe)
+);
+
+drop trigger if exists strategy_instruments_set_updated_at on public.strategy_instruments;
+create trigger strategy_instruments_set_updated_at
+before update on public.strategy_instruments
+for each row execute procedure public.set_updated_at();
+
+alter table public.strategy_instruments disable row level security;
+
+comment on table public.strategy_instruments is
+'Instruments processed by m15-signal-engine on every run. When empty, SIGNAL_SYMBOL/SIGNAL_TIMEFRAME is used.';
+
+-- Example registry (symbols/intervals use Twelve Data notation):
+-- insert into public.strategy_instruments (symbol, timeframe, sort_order) values
+--   ('EUR/USD', '15min', 0),
+--   ('GBP/USD', '15min', 1),
+--   ('USD/JPY', '15min', 2),
+--   ('EUR/USD', '1h', 3)
+-- on conflict (strategy_code, symbol, timeframe) do nothing;
+--
+-- JPY pairs need a matching pip size in strategy_controls.config:
+-- insert into public.strategy_controls (strategy_code, symbol, timeframe, config)
+-- values ('eurusd_m15_continuation_v1', 'USD/JPY', '15min', '{"pipSize": 0.01}')
+-- on conflict (strategy_code, symbol, timeframe) do update set config = excluded.config;
@@ -0,0 +1,21 @@
+create table if not exists public.candle_quality_issues (
+  id uuid primary key default gen_random_uuid(),
+  issue_key text not null unique,
+  symbol text not null,
+  timeframe text not null,
+  issue_type text not null check (issue_type in ('gap', 'duplicate', 'ohlc_inconsistent', 'spike', 'weekend_bar', 'misaligned')),
+  severity text not null check (severity in ('warning', 'error')),
+  candle_ts timestamptz not null,
+  message text not null,
+  details jsonb not null default '{}'::jsonb,
+  source text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists candle_quality_issues_symbol_tf_ts_idx
+  on public.candle_quality_issues (symbol, timeframe, candle_ts desc);
+
+alter table public.candle_quality_issues disable row level security;
+
+comment on table public.candle_quality_issues is
+'Data-quality findings from m15-signal-engine candle validation. One row per issue_key; Telegram is alerted only when a row is first inserted.';
@@ -0,0 +1,34 @@
+alter table public.strategy_signals
+  add column if not exists filtered_reason text;
+
+comment on column public.strategy_signals.filtered_reason is
+'Why the signal was suppressed by the session/news filters (status = ''filtered''). Filtered signals are not queued to the broker and their trades are not stored.';
+
+create table if not exists public.economic_calendar_events (
+  id uuid primary key default gen_random_uuid(),
+  event_time timestamptz not null,
+  currency text not null,
+  title text not null,
+  impact text not null default 'high' check (impact in ('low', 'medium', 'high')),
+  blackout_before_minutes integer not null default 30 check (blackout_before_minutes >= 0),
+  blackout_after_minutes integer not null default 30 check (blackout_after_minutes >= 0),
+  source text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (event_time, currency, title)
+);
+
+create index if not exists economic_calendar_events_time_idx
+  on public.economic_calendar_events (event_time);
+
+drop trigger if exists economic_calendar_events_set_updated_at on public.economic_calendar_events;
+create trigger economic_calendar_events_set_updated_at
+before update on public.economic_calendar_events
+for each row execute procedure public.set_updated_at();
+
+alter table public.economic_calendar_events disable row level security;
+
+-- Example: block EUR/USD and GBP/USD signals 30 minutes either side of US payrolls
+-- insert into public.economic_calendar_events (event_time, currency, title, impact)
+-- values ('2026-03-06 13:30:00+00', 'USD', 'Non-Farm Payrolls', 'high')
+-- on conflict (event_time, currency, title) do nothing;
@@ -0,0 +1,32 @@
+alter table public.strategy_signals
+  add column if not exists take_profit_2 numeric(16, 8);
+
+comment on column public.strategy_signals.take_profit_2 is
+'Final target of two_target signals (take_profit is then TP1, the partial close at the pullback swing). Null for single-target modes.';
+
+alter table public.strategy_trades
+  add column if not exists take_profit_2 numeric(16, 8),
+  add column if not exists partial_exits jsonb not null default '[]'::jsonb,
+  add column if not exists remaining_fraction numeric(6, 4) not null default 1;
+
+comment on column public.strategy_trades.partial_exits is
+'Partial closes before the final exit, e.g. [{"leg":"TP1","time":"...","price":1.0832,"fraction":0.5,"rMultiple":0.8}]. r_multiple covers the whole position.';
+
+comment on column public.strategy_trades.remaining_fraction is
+'Share of the original position still open after partial exits (1 = untouched).';
+
+alter table public.broker_order_requests
+  add column if not exists leg text not null default 'single' check (leg in ('single', 'tp1', 'tp2')),
+  add column if not exists volume_fraction numeric(6, 4) not null default 1
+    check (volume_fraction > 0 and volume_fraction <= 1);
+
+comment on column public.broker_order_requests.volume_fraction is
+'Share of the sized position traded by this leg. Two-target signals queue a tp1 and a tp2 request.';
+
+comment on column public.strategy_controls.config is
+'Strategy parameter overrides (pipSize, slBufferPips, minImpulsePips, fractalWidth, tpMode, tpRMultiple, minRewardRisk, tp1CloseFraction, tp2RMultiple). Missing keys use engine defaults.';
+
+-- Example: EUR/USD with two targets (50% at the pullback swing, the rest at 2R)
+-- insert into public.strategy_controls (strategy_code, symbol, timeframe, config)
+-- values ('eurusd_m15_continuation_v1', 'EUR/USD', '15min', '{"tpMode": "two_target", "tp1CloseFraction": 0.5, "tp2RMultiple": 2}')
+-- on conflict (strategy_code, symbol, timeframe) do update set config = excluded.config;
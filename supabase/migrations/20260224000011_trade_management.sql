@@ -0,0 +1,34 @@
+alter table public.strategy_trades
+  add column if not exists initial_stop_loss numeric(16, 8),
+  add column if not exists stop_adjustments jsonb not null default '[]'::jsonb;
+
+update public.strategy_trades set initial_stop_loss = stop_loss where initial_stop_loss is null;
+
+comment on column public.strategy_trades.stop_loss is
+'Current stop, after breakeven/trailing moves. initial_stop_loss defines 1R.';
+
+comment on column public.strategy_trades.stop_adjustments is
+'Stop moves of the simulated trade, e.g. [{"time":"...","from":1.0812,"to":1.0790,"reason":"BREAKEVEN"}]. Each move applies from the candle after "time".';
+
+alter table public.strategy_trades
+  drop constraint if exists strategy_trades_exit_reason_check;
+alter table public.strategy_trades
+  add constraint strategy_trades_exit_reason_check check (exit_reason in ('TP', 'SL', 'TIME'));
+
+-- AMEND moves the stop of an open position, CLOSE ends it at market (time exit).
+-- Both target the position opened by the MARKET request with the same signal_key and leg.
+alter table public.broker_order_requests
+  drop constraint if exists broker_order_requests_order_type_check;
+alter table public.broker_order_requests
+  add constraint broker_order_requests_order_type_check check (order_type in ('MARKET', 'AMEND', 'CLOSE'));
+
+alter table public.broker_order_requests
+  alter column requested_units drop not null;
+
+comment on column public.strategy_controls.config is
+'Strategy parameter overrides (pipSize, slBufferPips, minImpulsePips, fractalWidth, tpMode, tpRMultiple, minRewardRisk, tp1CloseFraction, tp2RMultiple, breakevenAtR, trailMode, maxHoldingCandles). Missing keys use engine defaults.';
+
+-- Example: breakeven at +1R, fractal trailing stop and a 32-candle (8h on M15) time exit
+-- insert into public.strategy_controls (strategy_code, symbol, timeframe, config)
+-- values ('eurusd_m15_continuation_v1', 'EUR/USD', '15min', '{"breakevenAtR": 1, "trailMode": "fractal", "maxHoldingCandles": 32}')
+-- on conflict (strategy_code, symbol, timeframe) do update set config = excluded.config;
@@ -0,0 +1,14 @@
+alter table public.strategy_trades
+  add column if not exists exit_resolution text
+    check (exit_resolution in ('conservative', 'intrabar', 'unknown'));
+
+comment on column public.strategy_trades.exit_resolution is
+'Set when the exit candle touched both the stop and a target: conservative = SL assumed first (intrabarTimeframe off), intrabar = ordered with lower-timeframe bars, unknown = lower-timeframe bars missing, SL assumed first.';
+
+comment on column public.strategy_controls.config is
+'Strategy parameter overrides (pipSize, slBufferPips, minImpulsePips, fractalWidth, tpMode, tpRMultiple, minRewardRisk, tp1CloseFraction, tp2RMultiple, breakevenAtR, trailMode, maxHoldingCandles, intrabarTimeframe). Missing keys use engine defaults.';
+
+-- Example: resolve same-candle SL/TP touches with 1-minute bars
+-- insert into public.strategy_controls (strategy_code, symbol, timeframe, config)
+-- values ('eurusd_m15_continuation_v1', 'EUR/USD', '15min', '{"intrabarTimeframe": "1min"}')
+-- on conflict (strategy_code, symbol, timeframe) do update set config = excluded.config;
@@ -0,0 +1,20 @@
+alter table public.strategy_trades
+  add column if not exists net_r_multiple numeric(10, 2),
+  add column if not exists costs jsonb;
+
+comment on column public.strategy_trades.r_multiple is
+'Gross result of the whole position in R, from mid prices without costs.';
+
+comment on column public.strategy_trades.net_r_multiple is
+'r_multiple after spread, slippage and commission (config spreadPips, sessionSpreads, slippagePips, commissionPerLot, pipValuePerLot).';
+
+comment on column public.strategy_trades.costs is
+'Cost breakdown in pips of the whole position, e.g. {"spreadPips":1.2,"slippagePips":0.4,"commissionPips":0.7,"totalPips":2.3}.';
+
+comment on column public.strategy_controls.config is
+'Strategy parameter overrides (pipSize, slBufferPips, minImpulsePips, fractalWidth, tpMode, tpRMultiple, minRewardRisk, tp1CloseFraction, tp2RMultiple, breakevenAtR, trailMode, maxHoldingCandles, intrabarTimeframe, spreadPips, sessionSpreads, slippagePips, commissionPerLot, pipValuePerLot). Missing keys use engine defaults.';
+
+-- Example: 0.8 pip spread, 2.5 pips around the daily rollover, 0.2 pip slippage, $7 round-turn commission per lot
+-- insert into public.strategy_controls (strategy_code, symbol, timeframe, config)
+-- values ('eurusd_m15_continuation_v1', 'EUR/USD', '15min', '{"spreadPips": 0.8, "sessionSpreads": [{"window": "20:45-22:15", "spreadPips": 2.5}], "slippagePips": 0.2, "commissionPerLot": 7}')
+-- on conflict (strategy_code, symbol, timeframe) do update set config = excluded.config;
@@ -0,0 +1,26 @@
+-- Semi-automatic execution (EXECUTION_MODE=approval): MARKET requests are created
+-- in 'awaiting_approval' and only reach the executor after an Execute tap in Telegram.
+alter table public.broker_order_requests
+  drop constraint if exists broker_order_requests_status_check;
+alter table public.broker_order_requests
+  add constraint broker_order_requests_status_check
+    check (status in ('awaiting_approval', 'queued', 'processing', 'submitted', 'accepted', 'rejected', 'failed', 'cancelled'));
+
+alter table public.broker_order_requests
+  add column if not exists approval_action text check (approval_action in ('execute', 'skip', 'expired')),
+  add column if not exists approval_chat_id text,
+  add column if not exists approval_decided_at timestamptz,
+  add column if not exists approval_expires_at timestamptz;
+
+comment on column public.broker_order_requests.approval_action is
+'Approval decision: execute (queued), skip (cancelled) or expired (cancelled, no decision before approval_expires_at). Null in auto mode.';
+
+comment on column public.broker_order_requests.approval_chat_id is
+'Telegram chat that tapped Execute/Skip.';
+
+comment on column public.broker_order_requests.approval_expires_at is
+'Close of the entry candle; requests still awaiting approval after it are expired by the signal engine.';
+
+create index if not exists broker_order_requests_awaiting_approval_idx
+  on public.broker_order_requests (approval_expires_at)
+  where status = 'awaiting_approval';
@@ -0,0 +1,42 @@
+create table if not exists public.telegram_users (
+  chat_id text primary key,
+  role text not null default 'viewer' check (role in ('viewer', 'operator', 'admin')),
+  display_name text,
+  granted_by_chat_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists telegram_users_set_updated_at on public.telegram_users;
+create trigger telegram_users_set_updated_at
+before update on public.telegram_users
+for each row execute procedure public.set_updated_at();
+
+alter table public.telegram_users disable row level security;
+
+comment on table public.telegram_users is
+'Telegram chats allowed to use the bot. viewer: status and reports; operator: also /debug, /reset_cycle and Execute/Skip approvals; admin: also /users, /grant and /revoke. Chats in TELEGRAM_ALLOWED_CHAT_IDS without a row here are treated as admin.';
+
+create table if not exists public.telegram_command_audit (
+  id bigint generated always as identity primary key,
+  chat_id text not null,
+  role text,
+  command text not null,
+  args jsonb not null default '[]'::jsonb,
+  allowed boolean not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists telegram_command_audit_chat_time_idx
+  on public.telegram_command_audit (chat_id, created_at desc);
+
+alter table public.telegram_command_audit disable row level security;
+
+comment on table public.telegram_command_audit is
+'Every command above viewer level, including attempts denied for an insufficient role (allowed = false).';
+
+-- Example: a read-only viewer and an operator who may approve trades
+-- insert into public.telegram_users (chat_id, role, display_name) values
+--   ('123456789', 'viewer', 'Analyst'),
+--   ('987654321', 'operator', 'Desk')
+-- on conflict (chat_id) do update set role = excluded.role;
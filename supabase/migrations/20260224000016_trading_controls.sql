@@ -0,0 +1,22 @@
+-- Pause/resume and kill switch (/pause, /resume, /kill in Telegram).
+alter table public.strategy_controls
+  add column if not exists trading_state text not null default 'active'
+    check (trading_state in ('active', 'paused', 'killed')),
+  add column if not exists trading_state_changed_at timestamptz,
+  add column if not exists trading_state_changed_by text;
+
+comment on column public.strategy_controls.trading_state is
+'active: signals are queued to the broker. paused: signals are still generated and alerted, but m15-signal-engine queues no entries and the executor cancels pending ones. killed: paused, and the executor also cancels stop amendments and closes every open position of the instrument.';
+
+comment on column public.strategy_controls.trading_state_changed_by is
+'Telegram chat that last changed trading_state.';
+
+alter table public.broker_order_requests
+  add column if not exists cancel_reason text;
+
+comment on column public.broker_order_requests.cancel_reason is
+'Set when the executor cancels a request because the instrument was paused or killed.';
+
+-- Example: pause EUR/USD M15 from SQL
+-- update public.strategy_controls set trading_state = 'paused', trading_state_changed_at = now()
+-- where strategy_code = 'eurusd_m15_continuation_v1' and symbol = 'EUR/USD' and timeframe = '15min';
@@ -0,0 +1,11 @@
+-- Account guardrails (GUARDRAIL_* env) pause trading by themselves and resume
+-- it at the rule's reset time.
+alter table public.strategy_controls
+  add column if not exists trading_state_reason text,
+  add column if not exists trading_state_resume_at timestamptz;
+
+comment on column public.strategy_controls.trading_state_reason is
+'Why trading is paused when the pause was automatic, e.g. the guardrail rule that tripped.';
+
+comment on column public.strategy_controls.trading_state_resume_at is
+'m15-signal-engine sets trading_state back to active after this time. Only guardrail pauses set it; /pause, /resume and /kill clear it.';
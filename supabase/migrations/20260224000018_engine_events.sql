@@ -0,0 +1,34 @@
+create table if not exists public.engine_events (
+  id bigint generated always as identity primary key,
+  event_key text not null unique,
+  strategy_code text not null,
+  symbol text not null,
+  timeframe text not null,
+  event_type text not null check (event_type in (
+    'BOS_DETECTED', 'PULLBACK_STARTED', 'PULLBACK_CONFIRMED', 'STRUCTURE_FLIP',
+    'CYCLE_DISCARDED', 'SIGNAL_REJECTED', 'STOP_MOVED'
+  )),
+  event_time timestamptz not null,
+  direction text check (direction in ('LONG', 'SHORT')),
+  payload jsonb not null,
+  telegram_notified_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists engine_events_instrument_time_idx
+  on public.engine_events (symbol, timeframe, event_time desc);
+
+create index if not exists engine_events_unnotified_idx
+  on public.engine_events (symbol, timeframe, event_time)
+  where telegram_notified_at is null;
+
+alter table public.engine_events disable row level security;
+
+comment on table public.engine_events is
+'State transitions of the strategy engine, one row per event. event_key is derived from the instrument, event type and candle time, so replaying the same candles never duplicates an event.';
+
+comment on column public.engine_events.telegram_notified_at is
+'Set once the event was alerted. Events replayed from old candles are stored as already notified; BOS_DETECTED and PULLBACK_* are never alerted and stay null (listed by /events only).';
+
+comment on column public.engine_events.payload is
+'The EngineEvent as emitted by the engine (levels, pips, reasons).';
@@ -0,0 +1,67 @@
+create table if not exists public.notification_outbox (
+  id bigint generated always as identity primary key,
+  dedupe_key text not null unique,
+  chat_id text not null,
+  text text not null,
+  reply_markup jsonb,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'dead')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists notification_outbox_due_idx
+  on public.notification_outbox (status, next_attempt_at);
+
+drop trigger if exists notification_outbox_set_updated_at on public.notification_outbox;
+create trigger notification_outbox_set_updated_at
+before update on public.notification_outbox
+for each row execute procedure public.set_updated_at();
+
+alter table public.notification_outbox disable row level security;
+
+comment on table public.notification_outbox is
+'Telegram alerts queued by m15-signal-engine. Sent at the end of each engine run and retried by notification-dispatcher with exponential backoff (Telegram retry_after on 429). 400/403 responses and messages out of attempts become dead and are listed in /debug.';
+
+comment on column public.notification_outbox.dedupe_key is
+'One message per key (e.g. signal:<signal_key>:detected), so a replayed run never queues an alert twice.';
+
+create or replace function public.invoke_notification_dispatcher(
+  project_ref text,
+  cron_secret text
+)
+returns bigint
+language plpgsql
+security definer
+as $$
+declare
+  request_id bigint;
+begin
+  select net.http_post(
+    url := format('https://%s.functions.supabase.co/notification-dispatcher', project_ref),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', cron_secret
+    ),
+    body := '{}'::jsonb
+  ) into request_id;
+
+  return request_id;
+end;
+$$;
+
+comment on function public.invoke_notification_dispatcher(text, text) is
+'Calls the Supabase Edge Function notification-dispatcher via pg_net. Use with pg_cron.';
+
+-- Example scheduler setup (run manually after deploy):
+-- select cron.schedule(
+--   'notification-dispatcher',
+--   '* * * * *',
+--   $$ select public.invoke_notification_dispatcher('your-project-ref', 'your-cron-secret'); $$
+-- );
+
+-- Re-send a dead message:
+-- update public.notification_outbox set status = 'pending', attempts = 0, next_attempt_at = now() where id = 123;
@@ -0,0 +1,52 @@
+create table if not exists public.optimization_runs (
+  id bigint generated always as identity primary key,
+  strategy_code text not null,
+  symbol text not null,
+  timeframe text not null,
+  label text,
+  range_from timestamptz,
+  range_to timestamptz,
+  candles integer not null,
+  settings jsonb not null,
+  space jsonb not null,
+  base_config jsonb not null,
+  folds jsonb not null default '[]'::jsonb,
+  walk_forward jsonb not null default '[]'::jsonb,
+  parameter_sets integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists optimization_runs_instrument_time_idx
+  on public.optimization_runs (strategy_code, symbol, timeframe, created_at desc);
+
+alter table public.optimization_runs disable row level security;
+
+comment on table public.optimization_runs is
+'Walk-forward optimizations stored by scripts/optimize.ts --save. settings holds the search mode and window lengths, space the values tried, walk_forward the set picked on each fold''s in-sample window with its out-of-sample result.';
+
+create table if not exists public.optimization_results (
+  id bigint generated always as identity primary key,
+  run_id bigint not null references public.optimization_runs (id) on delete cascade,
+  rank integer not null,
+  params jsonb not null,
+  config jsonb not null,
+  qualified boolean not null,
+  oos_trades integer not null,
+  oos_expectancy_r numeric(10, 2) not null,
+  oos_net_r numeric(10, 2) not null,
+  oos_max_drawdown_r numeric(10, 2) not null,
+  in_sample jsonb not null,
+  out_of_sample jsonb not null,
+  fold_net_r jsonb not null default '[]'::jsonb,
+  unique (run_id, rank)
+);
+
+alter table public.optimization_results disable row level security;
+
+comment on table public.optimization_results is
+'One row per parameter set of an optimization run, ranked by out-of-sample expectancy, then out-of-sample drawdown. qualified = false when the set had fewer out-of-sample trades than required; those rank last.';
+
+-- Example: compare the top 5 sets of the latest runs
+-- select r.id, r.label, r.created_at, o.rank, o.params, o.oos_trades, o.oos_expectancy_r, o.oos_max_drawdown_r
+-- from public.optimization_runs r join public.optimization_results o on o.run_id = r.id
+-- where o.rank <= 5 order by r.created_at desc, o.rank;
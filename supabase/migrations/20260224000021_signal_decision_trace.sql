@@ -0,0 +1,6 @@
+-- Step-by-step state machine decisions behind each signal (/explain in Telegram).
+alter table public.strategy_signals
+  add column if not exists decision_trace jsonb;
+
+comment on column public.strategy_signals.decision_trace is
+'Transitions recorded by m15-signal-engine since the previous signal (BOS, discarded cycles, pullback start/confirmation, structure flips, rejections, trigger), oldest first, at most 40. Each step has the candle index and time, the close and levels compared, and the fractals used. Null for signals stored before tracing was added.';
@@ -0,0 +1,19 @@
+-- Higher-timeframe bias filter (HTF_BIAS_* env): the HTF structure seen when a
+-- signal was evaluated, and the current one for /status and /analysis.
+alter table public.strategy_signals
+  add column if not exists htf_bias jsonb;
+
+alter table public.strategy_runtime_state
+  add column if not exists htf_bias jsonb;
+
+comment on column public.strategy_signals.htf_bias is
+'HTF bias decision taken when the signal was first stored: {direction, readings: [{timeframe, bias, asOf, breakLevel, breakTs, candles}], aligned, reason}. A signal that is not aligned is stored as filtered with the same reason. Null when the filter is off.';
+
+comment on column public.strategy_runtime_state.htf_bias is
+'Bias of each HTF_BIAS_TIMEFRAMES timeframe at the close of the last processed candle; empty when the filter is off.';
+
+-- Example: signals blocked by the HTF filter
+-- select signal_key, direction, htf_bias->>'reason' as reason
+-- from public.strategy_signals
+-- where htf_bias->>'aligned' = 'false'
+-- order by trigger_time desc;
@@ -0,0 +1,4 @@
+-- The executor cancels an AMEND request once a newer one exists for the same
+-- signal and leg, so a late retry cannot move the broker stop back.
+comment on column public.broker_order_requests.cancel_reason is
+'Set when the executor cancels a request: paused or killed (trading controls), or superseded (an AMEND with a newer AMEND for the same signal and leg).';